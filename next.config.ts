@@ -11,6 +11,16 @@ const nextConfig = {
           },
         ],
       },
+      {
+        // Browsers must always pick up a new service worker
+        source: '/sw.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'no-cache',
+          },
+        ],
+      },
     ];
   },
 };
@@ -0,0 +1,83 @@
+// Service worker for Car AR Scanner: keeps the app, its 3D assets and the
+// detector weights available without a connection.
+//
+// - The app shell is precached on install and pages are served network-first,
+//   falling back to the cached shell offline.
+// - Build output under /_next/static is content-hashed, so it's cache-first.
+//   Chunks the first visit loaded before this worker took over are stored by
+//   cacheAppShell in src/lib/offline.ts.
+// - GLB assets under /models (see MODEL_CATALOG) and TF.js weights from
+//   storage.googleapis.com are cache-first too.
+//
+// Bump VERSION to drop every old cache on the next activation.
+const VERSION = 'v1';
+// Both also opened by src/lib/offline.ts
+const SHELL_CACHE = `shell-${VERSION}`;
+const ASSET_CACHE = `assets-${VERSION}`;
+
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key !== SHELL_CACHE && key !== ASSET_CACHE).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+function isAsset(url) {
+  return url.pathname.startsWith('/_next/static/')
+    || url.pathname.startsWith('/models/')
+    || (url.hostname === 'storage.googleapis.com' && url.pathname.startsWith('/tfjs-models/'))
+    || url.hostname === 'tfhub.dev';
+}
+
+async function cacheFirst(request) {
+  // HEAD checks for a GLB (see resolveViewerSource) are answered from the cached GET
+  const cached = await caches.match(request, { ignoreMethod: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (request.method === 'GET' && response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request) ?? await caches.match('/');
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' && request.method !== 'HEAD') return;
+
+  const url = new URL(request.url);
+  if (isAsset(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  }
+});
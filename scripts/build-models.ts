@@ -0,0 +1,181 @@
+// Builds the GLB assets listed in MODEL_CATALOG (src/lib/three/model-catalog.ts)
+// and writes them to public/models:
+//
+//   npm run models
+//
+// The sedan is a smoother shape than the procedural box model: its body and
+// cabin are extruded side profiles with wheel arches. It is authored in
+// metres facing +x on y = 0; the app rescales it to the procedural length.
+// Materials are named so the app can find them: 'paint' follows the chosen
+// paint, 'glass' the window tint and 'rim' the rim style and size (sized
+// against the 'tyre' in the same wheel); the rest keep their own.
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+
+const OUT_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'models');
+
+const LENGTH = 4.7;
+const WIDTH = 1.8;
+const WHEELBASE = 2.75;
+const WHEEL_RADIUS = 0.33;
+const WHEEL_WIDTH = 0.22;
+const TRACK = 1.56;
+
+function material(name: string, parameters: THREE.MeshStandardMaterialParameters): THREE.MeshStandardMaterial {
+  return Object.assign(new THREE.MeshStandardMaterial(parameters), { name });
+}
+
+// A side profile in the x/y plane extruded across the car, centred on z = 0
+function extrudeProfile(shape: THREE.Shape, width: number, bevel: number): THREE.ExtrudeGeometry {
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth: width - bevel * 2,
+    bevelEnabled: true,
+    bevelThickness: bevel,
+    bevelSize: bevel,
+    bevelSegments: 2,
+    curveSegments: 8
+  });
+  geometry.translate(0, 0, -(width - bevel * 2) / 2);
+  return geometry;
+}
+
+// Lower body from bumper to bumper, up to the window line, with an arch over each axle
+function bodyProfile(): THREE.Shape {
+  const front = LENGTH / 2;
+  const rear = -LENGTH / 2;
+  const axle = WHEELBASE / 2;
+  const arch = WHEEL_RADIUS + 0.07;
+  const sill = 0.22;
+  // The arches start and end at sill height, below the axle
+  const drop = Math.asin((WHEEL_RADIUS - sill) / arch);
+  const reach = arch * Math.cos(drop);
+
+  const shape = new THREE.Shape();
+  shape.moveTo(rear + 0.1, sill);
+  shape.lineTo(-axle - reach, sill);
+  shape.absarc(-axle, WHEEL_RADIUS, arch, Math.PI + drop, -drop, true);
+  shape.lineTo(axle - reach, sill);
+  shape.absarc(axle, WHEEL_RADIUS, arch, Math.PI + drop, -drop, true);
+  shape.lineTo(front - 0.1, sill);
+  shape.quadraticCurveTo(front, sill, front, 0.45);
+  shape.quadraticCurveTo(front, 0.72, front - 0.35, 0.78);
+  // Hood rising to the windscreen
+  shape.lineTo(0.95, 0.92);
+  shape.lineTo(-1.55, 0.96);
+  // Boot lid
+  shape.quadraticCurveTo(rear + 0.1, 0.96, rear, 0.8);
+  shape.lineTo(rear, 0.4);
+  shape.quadraticCurveTo(rear, sill, rear + 0.1, sill);
+  return shape;
+}
+
+// Windscreen, roof and rear window
+function cabinProfile(): THREE.Shape {
+  const shape = new THREE.Shape();
+  shape.moveTo(0.95, 0.9);
+  shape.quadraticCurveTo(0.35, 1.3, 0.05, 1.4);
+  shape.lineTo(-0.85, 1.4);
+  shape.quadraticCurveTo(-1.2, 1.36, -1.6, 0.94);
+  shape.lineTo(0.95, 0.9);
+  return shape;
+}
+
+function addWheel(car: THREE.Group, tyre: THREE.Material, rim: THREE.Material, x: number, z: number) {
+  const wheel = new THREE.Group();
+  wheel.name = 'wheel';
+  const tyreMesh = new THREE.Mesh(new THREE.CylinderGeometry(WHEEL_RADIUS, WHEEL_RADIUS, WHEEL_WIDTH, 24), tyre);
+  const rimMesh = new THREE.Mesh(new THREE.CylinderGeometry(WHEEL_RADIUS * 0.62, WHEEL_RADIUS * 0.62, WHEEL_WIDTH + 0.02, 16), rim);
+  wheel.add(tyreMesh, rimMesh);
+  wheel.rotation.x = Math.PI / 2;
+  wheel.position.set(x, WHEEL_RADIUS, z);
+  car.add(wheel);
+}
+
+function addBox(car: THREE.Group, name: string, mat: THREE.Material, size: THREE.Vector3Tuple, position: THREE.Vector3Tuple) {
+  const mesh = new THREE.Mesh(new THREE.BoxGeometry(...size), mat);
+  mesh.name = name;
+  mesh.position.set(...position);
+  car.add(mesh);
+}
+
+function buildSedan(): THREE.Group {
+  const paint = material('paint', { color: 0xcccccc, metalness: 0.6, roughness: 0.35 });
+  const glass = material('glass', { color: 0x1a2630, metalness: 0.9, roughness: 0.05, transparent: true, opacity: 0.75 });
+  const trim = material('trim', { color: 0x1c1c1c, roughness: 0.8 });
+  const tyre = material('tyre', { color: 0x111111, roughness: 0.95 });
+  const rim = material('rim', { color: 0xb8bcc2, metalness: 0.9, roughness: 0.25 });
+  const headlight = material('headlight', { color: 0xfff6d8, emissive: 0xfff6d8, emissiveIntensity: 0.6 });
+  const taillight = material('taillight', { color: 0xc0141c, emissive: 0xc0141c, emissiveIntensity: 0.4 });
+
+  const car = new THREE.Group();
+  car.name = 'sedan';
+
+  const body = new THREE.Mesh(extrudeProfile(bodyProfile(), WIDTH, 0.06), paint);
+  body.name = 'body';
+  car.add(body);
+
+  const cabin = new THREE.Mesh(extrudeProfile(cabinProfile(), WIDTH - 0.2, 0.05), glass);
+  cabin.name = 'cabin';
+  car.add(cabin);
+
+  // Roof panel over the glass
+  const roofShape = new THREE.Shape();
+  roofShape.moveTo(0.1, 1.38);
+  roofShape.lineTo(-0.9, 1.38);
+  roofShape.lineTo(-0.9, 1.42);
+  roofShape.lineTo(0.1, 1.42);
+  roofShape.lineTo(0.1, 1.38);
+  const roof = new THREE.Mesh(extrudeProfile(roofShape, WIDTH - 0.18, 0.02), paint);
+  roof.name = 'roof';
+  car.add(roof);
+
+  [WHEELBASE / 2, -WHEELBASE / 2].forEach(x => {
+    [TRACK / 2, -TRACK / 2].forEach(z => addWheel(car, tyre, rim, x, z));
+  });
+
+  [0.6, -0.6].forEach(z => {
+    addBox(car, 'headlight', headlight, [0.06, 0.1, 0.34], [LENGTH / 2 - 0.12, 0.66, z]);
+    addBox(car, 'taillight', taillight, [0.06, 0.12, 0.36], [-LENGTH / 2 + 0.02, 0.7, z]);
+  });
+  addBox(car, 'grille', trim, [0.05, 0.14, 0.7], [LENGTH / 2 + 0.01, 0.5, 0]);
+  addBox(car, 'front-bumper', trim, [0.1, 0.12, WIDTH - 0.1], [LENGTH / 2 - 0.03, 0.3, 0]);
+  addBox(car, 'rear-bumper', trim, [0.1, 0.12, WIDTH - 0.1], [-LENGTH / 2 + 0.03, 0.3, 0]);
+
+  return car;
+}
+
+// GLTFExporter reads its output back through FileReader, which Node doesn't have
+function installFileReader() {
+  if (typeof globalThis.FileReader !== 'undefined') return;
+  globalThis.FileReader = class {
+    result: ArrayBuffer | null = null;
+    onloadend: (() => void) | null = null;
+    readAsArrayBuffer(blob: Blob) {
+      blob.arrayBuffer().then(buffer => {
+        this.result = buffer;
+        this.onloadend?.();
+      });
+    }
+  } as unknown as typeof FileReader;
+}
+
+async function main() {
+  installFileReader();
+  await mkdir(OUT_DIR, { recursive: true });
+
+  const models: Record<string, THREE.Object3D> = { 'car.glb': buildSedan() };
+  for (const [file, model] of Object.entries(models)) {
+    const glb = await new GLTFExporter().parseAsync(model, { binary: true });
+    await writeFile(join(OUT_DIR, file), new Uint8Array(glb as ArrayBuffer));
+    console.log(`Wrote ${join('public', 'models', file)} (${Math.round((glb as ArrayBuffer).byteLength / 1024)} KB)`);
+  }
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
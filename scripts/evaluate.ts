@@ -0,0 +1,220 @@
+// Measures the vehicle detector on a labeled dataset, headless under Node on
+// the TF.js CPU backend, so changes to the model, the class filter or the
+// score threshold can be compared by numbers instead of by eye:
+//
+//   npm run evaluate -- --annotations coco/instances_val2017.json --images coco/val2017
+//   npm run evaluate -- --annotations VOC2012/Annotations
+//
+// Ground truth is a COCO instances JSON file or a folder of Pascal VOC XML
+// files (images then default to the JPEGImages folder beside it). Options:
+//
+//   --detector   coco-ssd base (lite_mobilenet_v2, mobilenet_v2, mobilenet_v1)
+//                or the model.json of a graph model, as a path or URL
+//   --labels     comma-separated class per output class id, for a graph model
+//   --first-class-id  class id of the first label (default 1, as TF Object
+//                Detection API exports number them; 0 for zero-based models)
+//   --classes    classes to evaluate (default: the app's vehicle classes)
+//   --min-score  operating score threshold (default: the app's)
+//   --iou        comma-separated IoU thresholds for mAP (default: 0.50 to 0.95)
+//   --alias      dataset=ours class renames, e.g. van=car (motorbike=motorcycle is built in)
+//   --limit      only the first N images
+//   --out        report folder (default: evaluation-report)
+//
+// Writes report.json and report.html to the report folder.
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import sharp from 'sharp';
+import type { Tensor3D, io } from '@tensorflow/tfjs';
+import {
+  DEFAULT_VEHICLE_FILTER,
+  createDetector,
+  detectorConfigFromQuery,
+  filterVehicles,
+  type VehicleFilter
+} from '../src/lib/detectors';
+import {
+  DEFAULT_CLASS_ALIASES,
+  parseCocoAnnotations,
+  parseVocAnnotation,
+  type LabeledImage
+} from '../src/lib/evaluation/datasets';
+import { COCO_IOU_THRESHOLDS, evaluateDetections, type EvaluatedImage } from '../src/lib/evaluation/metrics';
+import { renderHtmlReport, type EvaluationReport } from '../src/lib/evaluation/report';
+
+type Tf = typeof import('@tensorflow/tfjs');
+
+// Candidates are kept down to this score so the precision/recall curve and
+// AP cover far more than the operating point
+const CANDIDATE_SCORE = 0.05;
+const MAX_DETECTIONS = 100;
+
+const { values: args } = parseArgs({
+  options: {
+    annotations: { type: 'string' },
+    images: { type: 'string' },
+    detector: { type: 'string' },
+    labels: { type: 'string' },
+    'first-class-id': { type: 'string' },
+    classes: { type: 'string' },
+    'min-score': { type: 'string' },
+    iou: { type: 'string' },
+    alias: { type: 'string', multiple: true },
+    limit: { type: 'string' },
+    out: { type: 'string', default: 'evaluation-report' }
+  }
+});
+
+const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+async function loadDataset(
+  annotations: string,
+  aliases: Record<string, string>
+): Promise<{ images: LabeledImage[]; imageDir: string }> {
+  if ((await stat(annotations)).isDirectory()) {
+    const files = (await readdir(annotations)).filter(file => file.endsWith('.xml')).sort();
+    const images = await Promise.all(
+      files.map(async file => parseVocAnnotation(await readFile(join(annotations, file), 'utf8'), aliases))
+    );
+    return { images, imageDir: args.images ?? join(annotations, '..', 'JPEGImages') };
+  }
+
+  if (!args.images) throw new Error('--images is required with COCO annotations');
+  const images = parseCocoAnnotations(JSON.parse(await readFile(annotations, 'utf8')), aliases);
+  return { images, imageDir: args.images };
+}
+
+// Lets a graph model be loaded from disk: the browser build of TF.js only
+// knows how to fetch over HTTP. Routers decline with null, which the IORouter
+// type leaves out.
+function registerFileModels(tf: Tf) {
+  tf.io.registerLoadRouter(((url: string | string[]) => {
+    if (typeof url !== 'string' || !url.startsWith('file://')) return null;
+    const path = fileURLToPath(url);
+
+    return {
+      load: async () => tf.io.getModelArtifactsForJSON(
+        JSON.parse(await readFile(path, 'utf8')),
+        async manifest => {
+          const buffers = await Promise.all(
+            manifest.flatMap(group => group.paths).map(file => readFile(resolve(dirname(path), file)))
+          );
+          return [
+            manifest.flatMap(group => group.weights),
+            buffers.map(buffer => buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer)
+          ];
+        }
+      )
+    };
+  }) as (url: string | string[]) => io.IOHandler);
+}
+
+// The detector the app would build for ?detector=...&labels=..., on the CPU backend
+function detectorQuery(): string {
+  const params = new URLSearchParams({ backend: 'cpu' });
+  const detector = args.detector;
+  if (detector) {
+    const local = detector.endsWith('.json') && !/^https?:\/\//.test(detector);
+    params.set('detector', local ? pathToFileURL(resolve(detector)).href : detector);
+  }
+  if (args.labels) params.set('labels', args.labels);
+  if (args['first-class-id']) params.set('firstClassId', args['first-class-id']);
+  return `?${params}`;
+}
+
+async function decodeImage(tf: Tf, path: string): Promise<Tensor3D> {
+  const { data, info } = await sharp(path)
+    .toColourspace('srgb')
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return tf.tensor3d(new Uint8Array(data.buffer, data.byteOffset, data.length), [info.height, info.width, info.channels], 'int32');
+}
+
+async function main() {
+  if (!args.annotations) throw new Error('--annotations is required (a COCO JSON file or a VOC Annotations folder)');
+
+  const aliases = { ...DEFAULT_CLASS_ALIASES };
+  (args.alias ?? []).forEach(pair => {
+    const [from, to] = pair.split('=');
+    if (from && to) aliases[from.trim().toLowerCase()] = to.trim().toLowerCase();
+  });
+
+  const filter: VehicleFilter = {
+    classes: args.classes ? list(args.classes) : DEFAULT_VEHICLE_FILTER.classes,
+    minScore: args['min-score'] !== undefined ? Number(args['min-score']) : DEFAULT_VEHICLE_FILTER.minScore
+  };
+  const iouThresholds = args.iou ? list(args.iou).map(Number) : COCO_IOU_THRESHOLDS;
+  if (Number.isNaN(filter.minScore) || iouThresholds.some(Number.isNaN)) {
+    throw new Error('--min-score and --iou take numbers');
+  }
+
+  const dataset = await loadDataset(resolve(args.annotations), aliases);
+  const labeled = args.limit ? dataset.images.slice(0, Number(args.limit)) : dataset.images;
+
+  const tf = await import('@tensorflow/tfjs');
+  registerFileModels(tf);
+  const detector = createDetector(detectorConfigFromQuery(detectorQuery()));
+  await detector.load(progress => console.log(progress.message));
+  console.log(`${detector.name} on ${detector.backend}, ${labeled.length} images`);
+
+  const evaluated: EvaluatedImage[] = [];
+  let warmedUp = false;
+
+  for (const [i, image] of labeled.entries()) {
+    const path = join(dataset.imageDir, image.file);
+    if (!existsSync(path)) {
+      console.warn(`Skipping ${image.file}: not found in ${dataset.imageDir}`);
+      continue;
+    }
+
+    const input = await decodeImage(tf, path);
+    try {
+      // The first inference compiles kernels and would skew the latency numbers
+      if (!warmedUp) {
+        await detector.detect(input, { maxDetections: MAX_DETECTIONS, minScore: CANDIDATE_SCORE });
+        warmedUp = true;
+      }
+      const start = performance.now();
+      const detections = await detector.detect(input, { maxDetections: MAX_DETECTIONS, minScore: CANDIDATE_SCORE });
+      evaluated.push({ file: image.file, boxes: image.boxes, detections, latency: performance.now() - start });
+    } finally {
+      input.dispose();
+    }
+
+    if ((i + 1) % 25 === 0 || i === labeled.length - 1) console.log(`${i + 1}/${labeled.length}`);
+  }
+  detector.dispose();
+
+  const result = evaluateDetections(evaluated, { filter, iouThresholds });
+  const report: EvaluationReport = {
+    generatedAt: new Date().toISOString(),
+    detector: detector.name,
+    backend: detector.backend,
+    dataset: args.annotations,
+    result,
+    images: evaluated.map(({ file, latency, detections }) => ({
+      file,
+      latency,
+      detections: filterVehicles(detections, filter)
+    }))
+  };
+
+  const out = resolve(args.out ?? 'evaluation-report');
+  await mkdir(out, { recursive: true });
+  await writeFile(join(out, 'report.json'), JSON.stringify(report, null, 2));
+  await writeFile(join(out, 'report.html'), renderHtmlReport(report));
+
+  const pct = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+  console.log(`mAP ${pct(result.mapAverage)} • precision ${pct(result.overall.precision)} • recall ${pct(result.overall.recall)}`);
+  console.log(`latency mean ${result.latency.mean.toFixed(1)} ms, p90 ${result.latency.p90.toFixed(1)} ms`);
+  console.log(`Report written to ${out}`);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,162 @@
+// Renders the heading-estimator fixture, src/lib/__fixtures__/heading-crops.json:
+// the boxes a detector would put around 3D vehicles photographed by a virtual
+// camera at known headings.
+//
+//   npx jiti scripts/render-heading-crops.ts
+//
+// The cars are the shipped sedan GLB, the rest the procedural models, none of
+// which share the box proportions estimateHeading assumes. The camera stands
+// 1.5 m up and far enough back to frame the vehicle, so the boxes carry its
+// perspective and downward pitch. Each label (yaw, the viewpoint it makes,
+// the screen motion of a vehicle driving forward) comes from the pose the
+// vehicle was rendered in, never from the estimator. estimateHeading only
+// reads the box, so only the box is stored, not the pixels inside it.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { createVehicleModel } from '../src/lib/three/car-model';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const OUT_DIR = join(ROOT, 'src', 'lib', '__fixtures__');
+
+const IMAGE_WIDTH = 960;
+const IMAGE_HEIGHT = 640;
+const CAMERA_HEIGHT = 1.5;
+const FOV = 40;
+// Screen speed of a driving vehicle in px/ms, well above the parked threshold
+const DRIVING_SPEED = 0.3;
+
+// Metres, to put the models in a real scene (the procedural ones are in model units)
+const LENGTHS: Record<string, number> = { car: 4.7, truck: 5.8, bus: 12, motorcycle: 2.1 };
+// Metres from the camera to the vehicle
+const DISTANCES: Record<string, number> = { car: 10, truck: 12, bus: 20, motorcycle: 8 };
+
+interface Pose {
+  name: string;
+  class: string;
+  // Degrees: 0 faces right, 180 left, -90 the camera, 90 away
+  yaw: number;
+  driving: boolean;
+}
+
+const POSES: Pose[] = [
+  { name: 'parked car, side on', class: 'car', yaw: 0, driving: false },
+  { name: 'parked car, front three-quarter', class: 'car', yaw: -40, driving: false },
+  { name: 'parked car, nearly head on', class: 'car', yaw: -75, driving: false },
+  { name: 'parked car, head on', class: 'car', yaw: -90, driving: false },
+  { name: 'car driving left', class: 'car', yaw: 180, driving: true },
+  { name: 'car driving away to the left', class: 'car', yaw: 135, driving: true },
+  { name: 'car driving away to the right', class: 'car', yaw: 50, driving: true },
+  { name: 'car driving toward the camera', class: 'car', yaw: -100, driving: true },
+  { name: 'truck driving left toward the camera', class: 'truck', yaw: -140, driving: true },
+  { name: 'parked bus, side on', class: 'bus', yaw: 0, driving: false },
+  { name: 'bus driving away to the right', class: 'bus', yaw: 35, driving: true },
+  { name: 'parked motorcycle, head on', class: 'motorcycle', yaw: -90, driving: false },
+  { name: 'motorcycle driving left', class: 'motorcycle', yaw: 170, driving: true }
+];
+
+// The same bands viewpointFor uses: within 25° of a side view is 'side',
+// past 65° is 'front' or 'rear'
+function viewpointOf(yaw: number): string {
+  const radians = (yaw * Math.PI) / 180;
+  const offSide = (Math.asin(Math.abs(Math.sin(radians))) * 180) / Math.PI;
+  const towardCamera = Math.sin(radians) < 0;
+  if (offSide < 25) return 'side';
+  if (offSide > 65) return towardCamera ? 'front' : 'rear';
+  return towardCamera ? 'front-three-quarter' : 'rear-three-quarter';
+}
+
+async function loadSedan(): Promise<THREE.Object3D> {
+  const file = await readFile(join(ROOT, 'public', 'models', 'car.glb'));
+  const data = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+  return new Promise((done, fail) => new GLTFLoader().parse(data, '', gltf => done(gltf.scene), fail));
+}
+
+// A model facing +x, scaled to its real length and centred over the origin
+async function vehicle(type: string): Promise<THREE.Object3D> {
+  const model = type === 'car' ? await loadSedan() : createVehicleModel(type, 0x4a6fa5);
+  const box = new THREE.Box3().setFromObject(model);
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const scale = LENGTHS[type] / size.x;
+
+  const root = new THREE.Group();
+  model.scale.multiplyScalar(scale);
+  model.position.set(-center.x * scale, -box.min.y * scale, -center.z * scale);
+  root.add(model);
+  return root;
+}
+
+// Where the vehicle's pixels are, like a detector's box around it
+function boundingBox(root: THREE.Object3D, camera: THREE.PerspectiveCamera) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  root.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const position = object.geometry.attributes.position;
+    for (let i = 0; i < position.count; i++) {
+      const ndc = new THREE.Vector3().fromBufferAttribute(position, i).applyMatrix4(object.matrixWorld).project(camera);
+      const x = ((ndc.x + 1) / 2) * IMAGE_WIDTH;
+      const y = ((1 - ndc.y) / 2) * IMAGE_HEIGHT;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  });
+  const left = Math.max(0, Math.floor(minX));
+  const top = Math.max(0, Math.floor(minY));
+  return {
+    left,
+    top,
+    width: Math.min(IMAGE_WIDTH, Math.ceil(maxX)) - left,
+    height: Math.min(IMAGE_HEIGHT, Math.ceil(maxY)) - top
+  };
+}
+
+async function main() {
+  const labels = [];
+  for (const pose of POSES) {
+    const distance = DISTANCES[pose.class];
+    const camera = new THREE.PerspectiveCamera(FOV, IMAGE_WIDTH / IMAGE_HEIGHT, 0.1, 1000);
+    const target = new THREE.Vector3(0, 0.8, 0);
+    camera.position.set(0, CAMERA_HEIGHT, distance);
+    camera.lookAt(target);
+    camera.updateMatrixWorld(true);
+    const pitch = Math.atan2(CAMERA_HEIGHT - target.y, distance);
+
+    const root = await vehicle(pose.class);
+    const radians = (pose.yaw * Math.PI) / 180;
+    // Three's rotation about y turns +x toward -z, which is away from this camera
+    root.rotation.y = radians;
+    root.updateMatrixWorld(true);
+
+    const { width, height } = boundingBox(root, camera);
+
+    labels.push({
+      name: pose.name,
+      class: pose.class,
+      box: { width, height },
+      yaw: pose.yaw,
+      viewpoint: viewpointOf(pose.yaw),
+      pitch: Number(pitch.toFixed(4)),
+      // Driving forward: across the screen with cos(yaw), down it (closer) with -sin(yaw)
+      ...(pose.driving && {
+        velocity: [
+          Number((DRIVING_SPEED * Math.cos(radians)).toFixed(3)),
+          Number((-DRIVING_SPEED * Math.sin(radians)).toFixed(3))
+        ]
+      })
+    });
+    console.log(`${pose.name}: ${width}×${height}`);
+  }
+
+  await writeFile(join(OUT_DIR, 'heading-crops.json'), `${JSON.stringify(labels, null, 2)}\n`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Car AR Scanner',
+    short_name: 'Car AR',
+    description: 'Scan cars and view them in 3D AR',
+    start_url: '/',
+    display: 'fullscreen',
+    orientation: 'portrait',
+    background_color: '#1a1a2e',
+    theme_color: '#1a1a2e',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' }
+    ]
+  };
+}
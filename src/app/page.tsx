@@ -1,140 +1,613 @@
 'use client';
 
-import { useState, useRef, useEffect, useCallback } from 'react';
-import * as THREE from 'three';
-
-interface Detection {
-  bbox: [number, number, number, number];
-  class: string;
-  score: number;
+import { useState, useRef, useEffect, useCallback, useSyncExternalStore } from 'react';
+import ARScene, { colorForType } from '@/components/ARScene';
+import VehicleViewer from '@/components/VehicleViewer';
+import HistoryScreen from '@/components/HistoryScreen';
+import ScenesPanel from '@/components/ScenesPanel';
+import CarCustomizer from '@/components/CarCustomizer';
+import CameraPanel from '@/components/CameraPanel';
+import ErrorScreen from '@/components/ErrorScreen';
+import MediaControls from '@/components/MediaControls';
+import type { CarPosition, Detection, PlacedCar, ScreenPoint } from '@/lib/types';
+import { DetectionScheduler, FrameDiffer, DEFAULT_SCHEDULE, watchPowerHints, type ScheduleOptions } from '@/lib/scheduler';
+import {
+  detectorConfigFromQuery,
+  filterVehicles,
+  loadDetector,
+  type LoadProgress,
+  type VehicleDetector
+} from '@/lib/detectors';
+import { VehicleTracker, containsPoint, type TrackedVehicle } from '@/lib/tracker';
+import {
+  BoxSmoother,
+  DEFAULT_FLOOR_SMOOTHING,
+  DEFAULT_SMOOTHING,
+  type FilterOptions,
+  type SmoothingOptions
+} from '@/lib/smoothing';
+import {
+  GroundPlaneEstimator,
+  DEFAULT_VERTICAL_FOV,
+  defaultGroundPlane,
+  groundDistance,
+  groundToScreen,
+  horizonY,
+  requestOrientationAccess,
+  screenToGround,
+  viewportFov,
+  watchDevicePitch,
+  type GroundPlane
+} from '@/lib/ground-plane';
+import { HeadingTracker } from '@/lib/heading';
+import { restoreCars, type SavedScene } from '@/lib/scenes';
+import { cropThumbnail, currentLocation, scanHistory } from '@/lib/scan-history';
+import {
+  DEFAULT_CAPTURE,
+  canvasToBlob,
+  captureFilename,
+  composeCapture,
+  downloadBlob,
+  shareOrDownload,
+  type CaptureOptions,
+  type CaptureSources
+} from '@/lib/capture';
+import {
+  DEFAULT_RECORDING,
+  ViewRecorder,
+  formatBytes,
+  formatElapsed,
+  supportsRecording,
+  type RecordingOptions,
+  type RecordingProgress
+} from '@/lib/recording';
+import {
+  backingStoreSize,
+  bboxToViewport,
+  createViewMapping,
+  tapPoint,
+  vectorToViewport
+} from '@/lib/viewport';
+import { estimateVehicle, formatEstimate, vehicleDimensions } from '@/lib/vehicle-estimate';
+import { XRPlacementController, browserXR, supportsImmersiveAR } from '@/lib/xr/placement';
+import { cacheAppShell, registerServiceWorker } from '@/lib/offline';
+import { GestureRecognizer } from '@/lib/gestures';
+import {
+  AppError,
+  cameraError,
+  checkEnvironment,
+  detectionError,
+  mediaError,
+  modelError,
+  supportsWebGL
+} from '@/lib/errors';
+import {
+  MEDIA_ACCEPT,
+  fetchMediaFile,
+  frameReady,
+  frameSize,
+  mediaFromQuery,
+  openMediaFile,
+  releaseMedia,
+  type FrameSource,
+  type MediaFile
+} from '@/lib/media-file';
+import {
+  applyCameraSettings,
+  cameraCapabilities,
+  currentZoom,
+  listCameras,
+  loadCameraSettings,
+  openCamera,
+  pinchZoom,
+  preferredCamera,
+  saveCameraSettings,
+  setPreferredCamera,
+  type CameraCapabilities,
+  type CameraDevice,
+  type CameraFacing,
+  type CameraSettings
+} from '@/lib/camera';
+
+interface TrackedCar {
+  vehicle: TrackedVehicle;
+  position: CarPosition;
+  // Estimated yaw relative to the line of sight, radians
+  heading: number;
 }
 
-interface CarPosition {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
+// Tune overlay smoothing here: lower minCutoff = steadier, higher beta = less lag
+const OVERLAY_SMOOTHING: SmoothingOptions = DEFAULT_SMOOTHING;
+const FLOOR_SMOOTHING: FilterOptions = DEFAULT_FLOOR_SMOOTHING;
+const DETECTION_SCHEDULE: ScheduleOptions = DEFAULT_SCHEDULE;
+// Snapshot format; JPEG by default, 'image/png' keeps the overlays crisp at the cost of size
+const CAPTURE: CaptureOptions = DEFAULT_CAPTURE;
+const RECORDING: RecordingOptions = DEFAULT_RECORDING;
 
-interface PlacedCar {
-  id: number;
-  x: number;
-  y: number;
-  rotation: number;
-  scale: number;
-  color: number;
-}
+// Taps further away than this (metres) are too close to the horizon to place on
+const MAX_PLACE_DISTANCE = 60;
+// One failed frame is noise; this many in a row means detection is broken
+const DETECTION_FAILURE_LIMIT = 3;
+// Extent of the floor grid in metres: half-width and depth
+const GRID_HALF_WIDTH = 10;
+const GRID_DEPTH = 30;
+
+const PLACED_COLORS = [0xe74c3c, 0x3498db, 0xf39c12, 0x9b59b6, 0x00b894, 0x6c5ce7];
+
+const randomPlacedColor = () => PLACED_COLORS[Math.floor(Math.random() * PLACED_COLORS.length)];
+
+// For browser facts read once with useSyncExternalStore; the server snapshot
+// stands in while prerendering
+const subscribeNever = () => () => {};
+const readDebugFlag = () => new URLSearchParams(window.location.search).has('debug');
 
 export default function Home() {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const floorCanvasRef = useRef<HTMLCanvasElement>(null);
   
   const [isLoading, setIsLoading] = useState(true);
-  const [loadingText, setLoadingText] = useState('Starting...');
-  const [model, setModel] = useState<any>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress>({ message: 'Starting...' });
+  // Whether the page and its build chunks are cached too; null while storing them
+  const [shellCached, setShellCached] = useState<boolean | null>(null);
+  const [detector, setDetector] = useState<VehicleDetector | null>(null);
   const [isScanning, setIsScanning] = useState(false);
-  const [detectedCar, setDetectedCar] = useState<Detection | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [cameraFacing, setCameraFacing] = useState<'environment' | 'user'>('environment');
+  const [trackedCars, setTrackedCars] = useState<Record<number, TrackedCar>>({});
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
+  // Detection failing repeatedly while the app keeps running
+  const [detectionFailure, setDetectionFailure] = useState<AppError | null>(null);
+  // The 3D scene only mounts once WebGL is known to work; without it (false)
+  // the app runs detection only, with no AR or 3D viewer. null until checked.
+  const [webglReady, setWebglReady] = useState<boolean | null>(null);
+  const [cameraFacing, setCameraFacing] = useState<CameraFacing>('environment');
   const [stream, setStream] = useState<MediaStream | null>(null);
+  // The stream as of now, for async code that outlives a render
+  const streamRef = useRef<MediaStream | null>(null);
+  // Bumped by every startCamera so a slower earlier call can tell it lost
+  const cameraRequestRef = useRef(0);
+  // Ends the wait of a startCamera that is waiting for its first frame
+  const cameraWaitRef = useRef<(() => void) | null>(null);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [cameraDeviceId, setCameraDeviceId] = useState<string | null>(null);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(() => loadCameraSettings(undefined));
+  const cameraSettingsRef = useRef(cameraSettings);
+  const [cameraCaps, setCameraCaps] = useState<CameraCapabilities | null>(null);
+  const [showCameraPanel, setShowCameraPanel] = useState(false);
+  const pinchZoomRef = useRef(new GestureRecognizer());
+  // A photo or clip shown instead of the camera; the ref is for async code
+  const [media, setMedia] = useState<MediaFile | null>(null);
+  const mediaRef = useRef<MediaFile | null>(null);
   const [arMode, setArMode] = useState(false);
-  const [carPosition, setCarPosition] = useState<CarPosition | null>(null);
+  const trackerRef = useRef<VehicleTracker | null>(null);
+  const selectedIdRef = useRef<number | null>(null);
+  const smoothersRef = useRef<Map<number, BoxSmoother>>(new Map());
+  const headingsRef = useRef(new HeadingTracker());
+  const groundRef = useRef<GroundPlaneEstimator | null>(null);
+  const schedulerRef = useRef<DetectionScheduler | null>(null);
   
   // Placement mode
   const [placementMode, setPlacementMode] = useState(false);
   const [placedCars, setPlacedCars] = useState<PlacedCar[]>([]);
   const [showFloorGrid, setShowFloorGrid] = useState(false);
-  const [floorLevel, setFloorLevel] = useState(0.7);
-
-  const startCamera = useCallback(async (facing: 'environment' | 'user') => {
-    try {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
+  const [groundPlane, setGroundPlane] = useState<GroundPlane>(() => defaultGroundPlane(0, 0));
+  const debugMode = useSyncExternalStore(subscribeNever, readDebugFlag, () => false);
+  const [viewerTarget, setViewerTarget] = useState<{ vehicleType: string; label: string } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showScenes, setShowScenes] = useState(false);
+  const [customizingId, setCustomizingId] = useState<number | null>(null);
+
+  // Real AR (WebXR); the 2D overlay placement above stays as the fallback
+  const [xrSupported, setXrSupported] = useState(false);
+  const [xrActive, setXrActive] = useState(false);
+  const [xrSurfaceFound, setXrSurfaceFound] = useState(false);
+  const [xrPlacedCount, setXrPlacedCount] = useState(0);
+  const xrControllerRef = useRef<XRPlacementController | null>(null);
+  const xrOverlayRef = useRef<HTMLDivElement>(null);
+
+  const sceneCaptureRef = useRef<HTMLCanvasElement | null>(null);
+  const [capturing, setCapturing] = useState(false);
+
+  // Clip recording; the recorder reads compositeSourcesRef every frame, so it
+  // keeps going through mode changes
+  const compositeSourcesRef = useRef<() => CaptureSources | null>(() => null);
+  const recorderRef = useRef<ViewRecorder | null>(null);
+  const canRecord = useSyncExternalStore(subscribeNever, supportsRecording, () => false);
+  const [recordingProgress, setRecordingProgress] = useState<RecordingProgress | null>(null);
+  const [recordedClip, setRecordedClip] = useState<{ blob: Blob; filename: string } | null>(null);
+
+  const selectedCar = selectedId !== null ? trackedCars[selectedId] ?? null : null;
+  const detectedCar = selectedCar?.vehicle ?? null;
+  const carPosition = selectedCar?.position ?? null;
+  // What the scan button does with a detected vehicle
+  const scanAction = webglReady === false ? 'Save Scan' : 'Start AR';
+  // The front camera preview is mirrored, so boxes must be too; files never are
+  const mirrored = !media && cameraFacing === 'user';
+
+  // Where frames come from: the video element (camera or clip) or the photo
+  const frameSource = (): FrameSource | null =>
+    mediaRef.current?.kind === 'image' ? imageRef.current : videoRef.current;
+
+  const selectVehicle = (id: number | null) => {
+    selectedIdRef.current = id;
+    setSelectedId(id);
+  };
 
-      const newStream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode: facing,
-          width: { ideal: 1920 },
-          height: { ideal: 1080 }
-        },
-        audio: false
-      });
+  // Takes an opened file off screen and frees it
+  const closeMedia = useCallback(() => {
+    const current = mediaRef.current;
+    if (!current) return;
+    mediaRef.current = null;
+    setMedia(null);
+
+    const video = videoRef.current;
+    if (video && current.kind === 'video') {
+      video.pause();
+      video.loop = false;
+      video.removeAttribute('src');
+      video.load();
+    }
+    releaseMedia(current);
+  }, []);
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = newStream;
-        await new Promise<void>((resolve) => {
-          if (videoRef.current) {
-            videoRef.current.onloadedmetadata = () => {
-              videoRef.current?.play();
-              resolve();
-            };
-          }
-        });
-      }
+  // Opens the lens last picked for `facing` (or `deviceId`) with the settings
+  // remembered for it. Any opened file makes way for the camera.
+  const startCamera = useCallback(async (facing: CameraFacing, deviceId = preferredCamera(facing)) => {
+    const request = ++cameraRequestRef.current;
+    cameraWaitRef.current?.();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
 
-      setStream(newStream);
-      return true;
+    let newStream: MediaStream;
+    try {
+      newStream = await openCamera(facing, deviceId, loadCameraSettings(deviceId).resolution);
     } catch (err) {
       console.error('Camera error:', err);
-      throw new Error('Cannot access camera. Please allow camera permission.');
+      throw cameraError(err);
+    }
+
+    // A later switch (or an opened file) won while this one was waiting;
+    // checked after every await, and the stream is released if so
+    const stale = () => {
+      if (request === cameraRequestRef.current) return false;
+      newStream.getTracks().forEach(track => track.stop());
+      return true;
+    };
+    if (stale()) return false;
+    // Held from here, so a newer call can stop it whatever this one awaits
+    streamRef.current = newStream;
+
+    const track = newStream.getVideoTracks()[0];
+    const openedId = track.getSettings().deviceId ?? deviceId ?? '';
+    const settings = loadCameraSettings(openedId);
+    await applyCameraSettings(track, settings);
+    if (stale()) return false;
+
+    closeMedia();
+    const video = videoRef.current;
+    if (video) {
+      video.srcObject = newStream;
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          video.removeEventListener('loadedmetadata', done);
+          if (cameraWaitRef.current === done) cameraWaitRef.current = null;
+          resolve();
+        };
+        cameraWaitRef.current = done;
+        video.addEventListener('loadedmetadata', done);
+      });
+      if (stale()) return false;
+      video.play();
     }
-  }, [stream]);
 
+    cameraSettingsRef.current = settings;
+    setStream(newStream);
+    setCameraDeviceId(openedId);
+    setCameraSettings(settings);
+    setCameraCaps(cameraCapabilities(track));
+    // Labels only show up once access is granted
+    listCameras().then(setCameras).catch(() => {});
+    return true;
+  }, [closeMedia]);
+
+  // The facing and lens choice only change once the new lens is running, so
+  // a lens that fails to open leaves Retry pointing at the last one that worked
   const switchCamera = async () => {
     const newFacing = cameraFacing === 'environment' ? 'user' : 'environment';
-    setCameraFacing(newFacing);
     try {
-      await startCamera(newFacing);
+      if (await startCamera(newFacing)) setCameraFacing(newFacing);
+    } catch (err) {
+      setError(cameraError(err));
+    }
+  };
+
+  const selectCamera = async (camera: CameraDevice) => {
+    const facing = camera.facing ?? cameraFacing;
+    try {
+      if (!(await startCamera(facing, camera.deviceId))) return;
+      setPreferredCamera(facing, camera.deviceId);
+      setCameraFacing(facing);
+    } catch (err) {
+      setError(cameraError(err));
+    }
+  };
+
+  // Applies and remembers settings for the open lens
+  const updateCameraSettings = (changes: Partial<CameraSettings>) => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track || !cameraDeviceId) return;
+    const settings = { ...cameraSettingsRef.current, ...changes };
+    cameraSettingsRef.current = settings;
+    setCameraSettings(settings);
+    saveCameraSettings(cameraDeviceId, settings);
+    applyCameraSettings(track, settings);
+  };
+
+  // Two fingers on the camera view zoom; a pinch on a car is the car's
+  useEffect(() => {
+    pinchZoomRef.current.handlers = {
+      onChange: change => {
+        const zoom = cameraCaps?.zoom;
+        if (!zoom || change.pointers < 2 || change.scale === 1) return;
+        const current = cameraSettingsRef.current.zoom ?? currentZoom(streamRef.current?.getVideoTracks()[0] ?? null);
+        updateCameraSettings({ zoom: pinchZoom(current, change.scale, zoom) });
+      }
+    };
+  });
+
+  // Releases the camera; a camera still starting must not take over either.
+  // startCamera opens it again.
+  const stopCamera = () => {
+    cameraRequestRef.current++;
+    cameraWaitRef.current?.();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+    setCameraCaps(null);
+    setShowCameraPanel(false);
+  };
+
+  // Shows a photo or clip instead of the camera, running the same detection,
+  // boxes and AR on it
+  const showMedia = (next: MediaFile) => {
+    stopCamera();
+    closeMedia();
+    mediaRef.current = next;
+    setMedia(next);
+    const video = videoRef.current;
+    if (video) {
+      video.srcObject = null;
+      if (next.kind === 'video') {
+        video.loop = true;
+        video.src = next.url;
+      }
+    }
+
+    // Nothing tracked so far belongs to this file, and the phone's tilt says
+    // nothing about the shot: vehicles in it place the horizon instead
+    trackerRef.current?.reset();
+    smoothersRef.current.clear();
+    headingsRef.current.reset();
+    setTrackedCars({});
+    selectVehicle(null);
+    groundRef.current?.reset();
+    if (groundRef.current) setGroundPlane(groundRef.current.estimate(window.innerWidth, window.innerHeight));
+
+    // Straight from an error screen the detector may never have loaded
+    if (!detector || error) boot();
+  };
+
+  const chooseFile = () => fileInputRef.current?.click();
+
+  // The file stays up until the camera has actually started
+  const backToCamera = () => {
+    startCamera(cameraFacing).catch(err => setError(cameraError(err)));
+  };
+
+  const handleFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Picking the same file again should still fire a change
+    e.target.value = '';
+    if (!file) return;
+    try {
+      showMedia(openMediaFile(file));
     } catch (err) {
-      console.error('Failed to switch camera:', err);
+      setError(mediaError(err));
     }
   };
 
+  // The browser couldn't decode the opened file
+  const handleMediaError = () => {
+    const current = mediaRef.current;
+    if (current) setError(mediaError(new Error(`${current.name} can't be played in this browser`)));
+  };
+
   const loadModel = async () => {
     try {
-      setLoadingText('Loading AI...');
-      const tf = await import('@tensorflow/tfjs');
-      await tf.ready();
-      await tf.setBackend('webgl');
-      
-      setLoadingText('Loading car detector...');
-      const cocoSsd = await import('@tensorflow-models/coco-ssd');
-      const loadedModel = await cocoSsd.load({ base: 'lite_mobilenet_v2' });
-      
-      return loadedModel;
+      return await loadDetector(detectorConfigFromQuery(window.location.search), setLoadProgress);
     } catch (err) {
       console.error('Model error:', err);
-      throw new Error('Failed to load AI model.');
+      throw modelError(err);
     }
   };
 
-  useEffect(() => {
-    const init = async () => {
-      try {
-        setLoadingText('Starting camera...');
-        await startCamera('environment');
-        
-        const loadedModel = await loadModel();
-        setModel(loadedModel);
-        
-        setIsLoading(false);
-      } catch (err: any) {
-        setError(err.message);
-        setIsLoading(false);
+  // Starts whatever isn't running yet: camera, then detector. Running it again
+  // recovers from an error without touching what already works, so placed
+  // cars and settings survive.
+  const boot = async (reloadDetector = false) => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const problem = checkEnvironment(!mediaRef.current);
+      if (problem) throw problem;
+      setWebglReady(supportsWebGL());
+
+      if (!mediaRef.current && !streamRef.current?.active) {
+        setLoadProgress({ message: 'Starting camera...' });
+        await startCamera(cameraFacing);
+      }
+      if (!detector || reloadDetector) {
+        setDetector(await loadModel());
+        setDetectionFailure(null);
       }
+    } catch (err) {
+      setError(err instanceof AppError ? err : new AppError('unknown', String(err), { cause: err }));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const retry = () => {
+    if (error?.kind === 'unsupported-media') {
+      // Back to the camera until another file is picked
+      closeMedia();
+      chooseFile();
+    }
+    if (error?.kind === 'backend-init') {
+      // Compatibility mode: the CPU backend always initialises
+      const url = new URL(window.location.href);
+      url.searchParams.set('backend', 'cpu');
+      window.history.replaceState(null, '', url);
+    }
+    boot(error?.kind === 'detection');
+  };
+
+  // The startup effect below runs once, with boot and showMedia as of the
+  // latest render rather than listing them and restarting on every render
+  const startupRef = useRef({ boot, showMedia });
+  useEffect(() => {
+    startupRef.current = { boot, showMedia };
+  });
+
+  useEffect(() => {
+    // ?media=<url> opens a fixture instead of the camera, for reproducing
+    // detection bugs and automated runs
+    let cancelled = false;
+    const fixture = mediaFromQuery(window.location.search);
+    if (fixture) {
+      fetchMediaFile(fixture)
+        .then(media => (cancelled ? releaseMedia(media) : startupRef.current.showMedia(media)))
+        .catch(err => {
+          if (cancelled) return;
+          setError(mediaError(err));
+          setIsLoading(false);
+        });
+    } else {
+      startupRef.current.boot();
+    }
+
+    // The refs are read at cleanup on purpose: the request count and stream
+    // are whatever is current by then, held in objects made once
+    const cameraRequest = cameraRequestRef;
+    const cameraWait = cameraWaitRef;
+    const streamHolder = streamRef;
+    return () => {
+      cancelled = true;
+      cameraRequest.current++;
+      cameraWait.current?.();
+      streamHolder.current?.getTracks().forEach(track => track.stop());
+      closeMedia();
     };
+  }, [closeMedia]);
+
+  // Installs the service worker and stores the app itself, so a garage or a
+  // car show with no signal still has everything
+  useEffect(() => {
+    registerServiceWorker().then(async registration => {
+      setShellCached(registration ? await cacheAppShell() : false);
+    });
+  }, []);
+
+  useEffect(() => {
+    return () => detector?.dispose();
+  }, [detector]);
 
-    init();
+  useEffect(() => {
+    return () => recorderRef.current?.cancel();
+  }, []);
 
+  useEffect(() => {
+    supportsImmersiveAR().then(setXrSupported);
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
+      xrControllerRef.current?.end().catch(() => {});
+    };
+  }, []);
+
+  // Taps on the XR overlay's buttons must not also place a car
+  useEffect(() => {
+    const overlay = xrOverlayRef.current;
+    if (!overlay) return;
+    const suppress = (e: Event) => {
+      if (e.target !== overlay) e.preventDefault();
+    };
+    overlay.addEventListener('beforexrselect', suppress);
+    return () => overlay.removeEventListener('beforexrselect', suppress);
+  }, []);
+
+  useEffect(() => {
+    return watchPowerHints(factor => {
+      if (!schedulerRef.current) schedulerRef.current = new DetectionScheduler(DETECTION_SCHEDULE);
+      schedulerRef.current.setPowerFactor(factor);
+    });
+  }, []);
+
+  // Ground plane from the orientation sensor; detected vehicles refine it in the detection loop
+  useEffect(() => {
+    const estimator = new GroundPlaneEstimator(DEFAULT_VERTICAL_FOV, FLOOR_SMOOTHING);
+    groundRef.current = estimator;
+
+    const update = () => {
+      setGroundPlane(prev => settleGround(prev, estimator.estimate(window.innerWidth, window.innerHeight)));
+    };
+    update();
+
+    const stopPitch = watchDevicePitch(pitch => {
+      // How the phone is held now has nothing to do with an opened file
+      if (mediaRef.current) return;
+      estimator.observeOrientation(pitch, performance.now());
+      update();
+    });
+    window.addEventListener('resize', update);
+
+    return () => {
+      stopPitch();
+      window.removeEventListener('resize', update);
     };
   }, []);
 
+  // The ground plane and the 3D camera share the field of view of what's on screen
+  useEffect(() => {
+    const source = frameSource();
+    const estimator = groundRef.current;
+    if ((!stream && !media) || !source || !estimator) return;
+
+    const update = () => {
+      const { width, height } = frameSize(source);
+      estimator.setFov(viewportFov(
+        stream?.getVideoTracks()[0] ?? null,
+        width,
+        height,
+        window.innerWidth,
+        window.innerHeight,
+        stream ? cameraSettings.fieldOfView : undefined
+      ));
+      setGroundPlane(prev => settleGround(prev, estimator.estimate(window.innerWidth, window.innerHeight)));
+    };
+    update();
+
+    // A new resolution changes the frame size without a new stream; a file's
+    // size is only known once it has loaded
+    const sizeEvent = source instanceof HTMLVideoElement ? 'resize' : 'load';
+    source.addEventListener(sizeEvent, update);
+    window.addEventListener('resize', update);
+    return () => {
+      source.removeEventListener(sizeEvent, update);
+      window.removeEventListener('resize', update);
+    };
+  }, [stream, media, cameraSettings.zoom, cameraSettings.fieldOfView]);
+
   // Floor detection visualization
   useEffect(() => {
     if (!floorCanvasRef.current || !showFloorGrid) return;
@@ -146,11 +619,14 @@ export default function Home() {
     canvas.width = window.innerWidth;
     canvas.height = window.innerHeight;
 
+    // Everything is projected through the same ground plane the cars are placed on
     const drawFloor = () => {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-      const floorY = canvas.height * floorLevel;
-      
+      const horizon = horizonY(groundPlane);
+      const floorY = Math.max(0, horizon);
+      if (floorY >= canvas.height) return;
+
       // Floor gradient
       const gradient = ctx.createLinearGradient(0, floorY, 0, canvas.height);
       gradient.addColorStop(0, 'rgba(0, 255, 150, 0.1)');
@@ -159,188 +635,259 @@ export default function Home() {
       ctx.fillStyle = gradient;
       ctx.fillRect(0, floorY, canvas.width, canvas.height - floorY);
 
-      // Grid lines
+      // Grid lines, one metre apart
       ctx.strokeStyle = 'rgba(0, 255, 150, 0.4)';
       ctx.lineWidth = 1;
 
-      // Horizontal lines
-      for (let i = 0; i < 10; i++) {
-        const y = floorY + (i * (canvas.height - floorY) / 10);
-        const perspective = 1 - (i / 15);
+      const drawGroundLine = (x1: number, z1: number, x2: number, z2: number) => {
+        const from = groundToScreen(groundPlane, { x: x1, z: z1 });
+        const to = groundToScreen(groundPlane, { x: x2, z: z2 });
+        if (!from || !to) return;
         ctx.beginPath();
-        ctx.moveTo(canvas.width * (0.5 - perspective * 0.5), y);
-        ctx.lineTo(canvas.width * (0.5 + perspective * 0.5), y);
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
         ctx.stroke();
+      };
+
+      // Across the view
+      for (let z = 1; z <= GRID_DEPTH; z++) {
+        drawGroundLine(-GRID_HALF_WIDTH, z, GRID_HALF_WIDTH, z);
       }
 
-      // Vertical lines
-      for (let i = -5; i <= 5; i++) {
-        const startX = canvas.width / 2;
-        const endX = canvas.width / 2 + (i * canvas.width / 8);
-        ctx.beginPath();
-        ctx.moveTo(startX, floorY);
-        ctx.lineTo(endX, canvas.height);
-        ctx.stroke();
+      // Away from the camera
+      for (let x = -GRID_HALF_WIDTH; x <= GRID_HALF_WIDTH; x++) {
+        drawGroundLine(x, 1, x, GRID_DEPTH);
       }
 
-      // Floor line
+      // Horizon line
       ctx.strokeStyle = 'rgba(0, 255, 150, 0.8)';
       ctx.lineWidth = 2;
       ctx.setLineDash([10, 10]);
       ctx.beginPath();
-      ctx.moveTo(0, floorY);
-      ctx.lineTo(canvas.width, floorY);
+      ctx.moveTo(0, horizon);
+      ctx.lineTo(canvas.width, horizon);
       ctx.stroke();
       ctx.setLineDash([]);
 
       // Label
       ctx.fillStyle = 'rgba(0, 255, 150, 0.9)';
       ctx.font = 'bold 14px Arial';
-      ctx.fillText('📍 FLOOR DETECTED - Tap to place car', 20, floorY - 10);
+      ctx.fillText('📍 FLOOR DETECTED - Tap to place car', 20, Math.max(floorY - 10, 20));
     };
 
     drawFloor();
-
-    const interval = setInterval(drawFloor, 100);
-    return () => clearInterval(interval);
-  }, [showFloorGrid, floorLevel]);
+  }, [showFloorGrid, groundPlane]);
 
   // Detection loop
   useEffect(() => {
-    if (!model || !videoRef.current || !canvasRef.current) return;
+    if (!detector || !frameSource() || !canvasRef.current) return;
     if (!isScanning && !arMode) return;
 
     let animationId: number;
     let running = true;
+    let inFlight = false;
+    let failures = 0;
+    const differ = new FrameDiffer();
+    const frameCanvas = document.createElement('canvas');
+
+    // Runs for each inference result; the frame loop below never waits on it
+    const consume = (
+      predictions: Detection[],
+      frameWidth: number,
+      frameHeight: number,
+      ctx: CanvasRenderingContext2D
+    ) => {
+      const vehicles = filterVehicles(predictions);
+
+      if (!trackerRef.current) trackerRef.current = new VehicleTracker();
+      const now = performance.now();
+      const tracked = trackerRef.current.update(vehicles, now);
+
+      ctx.clearRect(0, 0, window.innerWidth, window.innerHeight);
+
+      // Tracking runs in video pixels; everything on screen is in viewport pixels
+      const mapping = createViewMapping(
+        { width: frameWidth, height: frameHeight },
+        { width: window.innerWidth, height: window.innerHeight },
+        { mirrored }
+      );
+
+      const smoothers = smoothersRef.current;
+      const trackedIds = new Set(tracked.map(v => v.id));
+      smoothers.forEach((_, id) => {
+        if (!trackedIds.has(id)) smoothers.delete(id);
+      });
+      headingsRef.current.retain(trackedIds);
+      const pitch = groundRef.current?.estimate(window.innerWidth, window.innerHeight).pitch;
+
+      const nextCars: Record<number, TrackedCar> = {};
+      tracked.forEach(vehicle => {
+        let smoother = smoothers.get(vehicle.id);
+        if (!smoother) {
+          smoother = new BoxSmoother(OVERLAY_SMOOTHING);
+          smoothers.set(vehicle.id, smoother);
+        }
+
+        const position = vehicle.misses === 0
+          ? smoother.update(bboxToViewport(mapping, vehicle.bbox), now)
+          : smoother.coast(now);
+
+        if (position) {
+          const heading = headingsRef.current.update(vehicle.id, position, vehicle.class, {
+            velocity: vectorToViewport(mapping, vehicle.velocity),
+            pitch
+          });
+          nextCars[vehicle.id] = { vehicle, position, heading };
+        }
+      });
+
+      // Keep the chosen vehicle while it is tracked, otherwise fall back to the best one
+      // (in AR the overlay instead holds its last known position until the user exits)
+      let selected = selectedIdRef.current;
+      const holdSelection = arMode && selected !== null;
+      if (!holdSelection && (selected === null || !nextCars[selected])) {
+        const best = tracked.reduce<TrackedVehicle | null>(
+          (top, v) => (!top || v.score > top.score ? v : top),
+          null
+        );
+        selected = best ? best.id : null;
+        selectedIdRef.current = selected;
+        setSelectedId(selected);
+      }
 
-    const detect = async () => {
-      if (!running || !videoRef.current || !canvasRef.current) return;
+      setTrackedCars(prev => {
+        if (arMode && selected !== null && !nextCars[selected] && prev[selected]) {
+          return { ...nextCars, [selected]: prev[selected] };
+        }
+        return nextCars;
+      });
+
+      const target = selected !== null ? nextCars[selected] : undefined;
+      const ground = groundRef.current;
+      if (target && ground) {
+        // The vehicle's bottom edge is where it meets the ground
+        const { height } = vehicleDimensions(target.vehicle.class);
+        ground.observeVehicle(target.position, height, now, window.innerWidth, window.innerHeight);
+        setGroundPlane(prev => settleGround(prev, ground.estimate(window.innerWidth, window.innerHeight)));
+      }
+
+      if (isScanning && !arMode) {
+        const plane = ground?.estimate(window.innerWidth, window.innerHeight);
+        tracked.forEach(vehicle => {
+          const car = nextCars[vehicle.id];
+          if (!car) return;
+          const { x, y, width, height } = car.position;
+          const estimate = plane ? estimateVehicle(car.position, vehicle.class, plane) : null;
+          drawDetectionBox(
+            ctx,
+            { ...vehicle, bbox: [x, y, width, height] },
+            vehicle.id === selected,
+            tracked.length > 1,
+            estimate ? formatEstimate(estimate) : undefined
+          );
+        });
+      }
+    };
+
+    const tick = () => {
+      const source = frameSource();
+      if (!running || !source || !canvasRef.current) return;
 
-      const video = videoRef.current;
       const canvas = canvasRef.current;
       const ctx = canvas.getContext('2d');
 
-      if (!ctx || video.readyState !== 4) {
-        animationId = requestAnimationFrame(detect);
-        return;
-      }
+      if (!schedulerRef.current) schedulerRef.current = new DetectionScheduler(DETECTION_SCHEDULE);
+      const scheduler = schedulerRef.current;
+      const now = performance.now();
 
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
+      // Frames that arrive while the previous one is still being inferred are dropped,
+      // and a static scene is only re-checked at the scheduler's slow cadence
+      if (ctx && frameReady(source) && !inFlight && scheduler.due(now)) {
+        const moved = differ.difference(source) > scheduler.motionThreshold;
 
-      try {
-        const predictions = await model.detect(video);
-        
-        const vehicles = predictions.filter(
-          (p: any) => ['car', 'truck', 'bus', 'motorcycle'].includes(p.class) && p.score > 0.35
-        );
+        if (scheduler.shouldRun(now, moved)) {
+          scheduler.markRun(now);
+          inFlight = true;
 
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-        if (vehicles.length > 0) {
-          const car = vehicles[0];
-          const [x, y, width, height] = car.bbox;
-          
-          const scaleX = window.innerWidth / canvas.width;
-          const scaleY = window.innerHeight / canvas.height;
-          
-          const newPosition: CarPosition = {
-            x: x * scaleX,
-            y: y * scaleY,
-            width: width * scaleX,
-            height: height * scaleY
-          };
-
-          setDetectedCar({
-            bbox: car.bbox,
-            class: car.class,
-            score: car.score
-          });
+          const { width: frameWidth, height: frameHeight } = frameSize(source);
+          const scale = scheduler.inputScale;
+          let input: FrameSource | HTMLCanvasElement = source;
 
-          setCarPosition(newPosition);
-
-          // Estimate floor level
-          const carBottom = (y + height) / canvas.height;
-          setFloorLevel(Math.min(0.9, Math.max(0.5, carBottom)));
-
-          if (isScanning && !arMode) {
-            // Draw detection box
-            ctx.strokeStyle = '#00ff00';
-            ctx.lineWidth = 4;
-            ctx.strokeRect(x, y, width, height);
-
-            const cornerLength = 30;
-            ctx.lineWidth = 6;
-
-            // Corners
-            ctx.beginPath();
-            ctx.moveTo(x, y + cornerLength);
-            ctx.lineTo(x, y);
-            ctx.lineTo(x + cornerLength, y);
-            ctx.stroke();
-
-            ctx.beginPath();
-            ctx.moveTo(x + width - cornerLength, y);
-            ctx.lineTo(x + width, y);
-            ctx.lineTo(x + width, y + cornerLength);
-            ctx.stroke();
-
-            ctx.beginPath();
-            ctx.moveTo(x, y + height - cornerLength);
-            ctx.lineTo(x, y + height);
-            ctx.lineTo(x + cornerLength, y + height);
-            ctx.stroke();
-
-            ctx.beginPath();
-            ctx.moveTo(x + width - cornerLength, y + height);
-            ctx.lineTo(x + width, y + height);
-            ctx.lineTo(x + width, y + height - cornerLength);
-            ctx.stroke();
-
-            // Label
-            ctx.fillStyle = '#00ff00';
-            ctx.font = 'bold 22px Arial';
-            ctx.fillText(
-              `${car.class.toUpperCase()} ${Math.round(car.score * 100)}%`,
-              x + 5,
-              y - 15
-            );
-          }
-        } else {
-          if (isScanning && !arMode) {
-            setDetectedCar(null);
-            setCarPosition(null);
+          if (scale < 1) {
+            frameCanvas.width = Math.round(frameWidth * scale);
+            frameCanvas.height = Math.round(frameHeight * scale);
+            frameCanvas.getContext('2d')?.drawImage(source, 0, 0, frameCanvas.width, frameCanvas.height);
+            input = frameCanvas;
           }
+
+          detector.detect(input)
+            .then(predictions => {
+              scheduler.recordInference(performance.now() - now);
+              if (!running) return;
+              if (failures >= DETECTION_FAILURE_LIMIT) setDetectionFailure(null);
+              failures = 0;
+
+              // The canvas covers the viewport at device resolution and is drawn in CSS pixels
+              const size = backingStoreSize(window.innerWidth, window.innerHeight, window.devicePixelRatio);
+              if (canvas.width !== size.width || canvas.height !== size.height) {
+                canvas.width = size.width;
+                canvas.height = size.height;
+              }
+              ctx.setTransform(size.ratio, 0, 0, size.ratio, 0, 0);
+
+              consume(
+                scale < 1
+                  ? predictions.map(p => ({
+                      ...p,
+                      bbox: [p.bbox[0] / scale, p.bbox[1] / scale, p.bbox[2] / scale, p.bbox[3] / scale]
+                    }))
+                  : predictions,
+                frameWidth,
+                frameHeight,
+                ctx
+              );
+            })
+            .catch(e => {
+              console.error('Detection error:', e);
+              if (running && ++failures === DETECTION_FAILURE_LIMIT) setDetectionFailure(detectionError(e));
+            })
+            .finally(() => {
+              inFlight = false;
+            });
         }
-      } catch (e) {
-        console.error('Detection error:', e);
       }
 
-      if (running) {
-        animationId = requestAnimationFrame(detect);
-      }
+      animationId = requestAnimationFrame(tick);
     };
 
-    detect();
+    tick();
 
     return () => {
       running = false;
       if (animationId) cancelAnimationFrame(animationId);
     };
-  }, [isScanning, arMode, model]);
+  }, [isScanning, arMode, detector, mirrored, media]);
 
   // SCAN BUTTON HANDLER
   const handleScan = () => {
     if (!isScanning) {
       // Start scanning
+      requestOrientationAccess();
       setIsScanning(true);
       setArMode(false);
       setPlacementMode(false);
       setShowFloorGrid(false);
-      setDetectedCar(null);
-      setCarPosition(null);
+      trackerRef.current?.reset();
+      smoothersRef.current.clear();
+      headingsRef.current.reset();
+      setTrackedCars({});
+      selectVehicle(null);
+    } else if (detectedCar && webglReady === false) {
+      // No 3D to show it in: log it and keep scanning
+      saveScan(detectedCar);
     } else if (detectedCar) {
-      // Car detected - start AR
+      // Car detected - log it and start AR
+      saveScan(detectedCar);
       setIsScanning(false);
       setArMode(true);
       setShowFloorGrid(true);
@@ -352,10 +899,37 @@ export default function Home() {
 
   const exitAR = () => {
     setArMode(false);
+    setViewerTarget(null);
+    setShowScenes(false);
+    setCustomizingId(null);
     setPlacementMode(false);
     setShowFloorGrid(false);
-    setDetectedCar(null);
-    setCarPosition(null);
+    trackerRef.current?.reset();
+    smoothersRef.current.clear();
+    headingsRef.current.reset();
+    setTrackedCars({});
+    selectVehicle(null);
+  };
+
+  // Adds a detection to the scan history; failures only cost the log entry
+  const saveScan = async (vehicle: TrackedVehicle) => {
+    const source = frameSource();
+    if (!source) return;
+    try {
+      const thumbnail = await cropThumbnail(source, vehicle.bbox);
+      const location = await currentLocation();
+      const history = await scanHistory();
+      await history.add({
+        vehicleType: vehicle.class,
+        score: vehicle.score,
+        timestamp: Date.now(),
+        thumbnail,
+        location,
+        notes: ''
+      });
+    } catch (err) {
+      console.error('Failed to save scan:', err);
+    }
   };
 
   const togglePlacementMode = () => {
@@ -364,27 +938,145 @@ export default function Home() {
   };
 
   // Handle tap to place car
-  const handleScreenTap = (e: React.TouchEvent | React.MouseEvent) => {
-    if (!placementMode) return;
+  const handleScreenTap = (tap: ScreenPoint) => {
+    // Tap a box while scanning to choose which vehicle drives AR mode
+    if (isScanning && !arMode) {
+      const hit = Object.values(trackedCars).find(({ position }) =>
+        containsPoint([position.x, position.y, position.width, position.height], tap.x, tap.y)
+      );
+      if (hit) selectVehicle(hit.vehicle.id);
+      return;
+    }
 
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
+    if (!placementMode) return;
 
-    // Only place if tapping on floor area (below floor line)
-    if (clientY > window.innerHeight * floorLevel * 0.8) {
+    // Only place if tapping on the floor, not too close to the horizon
+    const point = screenToGround(groundPlane, tap);
+    if (point && groundDistance(groundPlane, point) <= MAX_PLACE_DISTANCE) {
       const newCar: PlacedCar = {
         id: Date.now(),
-        x: clientX,
-        y: clientY,
+        x: tap.x,
+        y: tap.y,
         rotation: 0,
         scale: 1,
-        color: [0xe74c3c, 0x3498db, 0xf39c12, 0x9b59b6, 0x00b894, 0x6c5ce7][Math.floor(Math.random() * 6)]
+        color: randomPlacedColor(),
+        vehicleType: detectedCar?.class ?? 'car'
       };
 
       setPlacedCars(prev => [...prev, newCar]);
     }
   };
 
+  // What's on screen right now, for snapshots and recording
+  useEffect(() => {
+    compositeSourcesRef.current = () => {
+      const video = frameSource();
+      if (!video) return null;
+
+      const layers: CanvasImageSource[] = [];
+      if (isScanning && !arMode && canvasRef.current) layers.push(canvasRef.current);
+      if (showFloorGrid && floorCanvasRef.current) layers.push(floorCanvasRef.current);
+      // The frame the render loop last drew
+      if (sceneCaptureRef.current) layers.push(sceneCaptureRef.current);
+
+      return {
+        video,
+        layers,
+        mirrored,
+        caption: detectedCar
+          ? `${detectedCar.class.toUpperCase()} ${Math.round(detectedCar.score * 100)}%`
+          : undefined
+      };
+    };
+  });
+
+  // Snapshot of everything on screen at camera resolution
+  const handleCapture = async () => {
+    if (capturing) return;
+    const sources = compositeSourcesRef.current();
+    if (!sources) return;
+    setCapturing(true);
+
+    try {
+      const canvas = composeCapture(sources, CAPTURE.watermark);
+      const blob = await canvasToBlob(canvas, CAPTURE.format, CAPTURE.quality);
+      await shareOrDownload(blob, captureFilename('car-scan', blob.type), 'Car AR Scanner');
+    } catch (err) {
+      console.error('Capture failed:', err);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const toggleRecording = async () => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorderRef.current = null;
+      setRecordingProgress(null);
+      try {
+        const blob = await recorder.stop();
+        setRecordedClip({ blob, filename: captureFilename('car-clip', blob.type) });
+      } catch (err) {
+        console.error('Recording failed:', err);
+      }
+      return;
+    }
+
+    const next = new ViewRecorder(() => compositeSourcesRef.current(), RECORDING, setRecordingProgress);
+    try {
+      next.start();
+      recorderRef.current = next;
+      setRecordedClip(null);
+      setRecordingProgress({ elapsed: 0, bytes: 0 });
+    } catch (err) {
+      console.error('Recording failed:', err);
+    }
+  };
+
+  // Called straight from the button handler: requestSession needs the user gesture
+  const startXR = async () => {
+    const provider = browserXR();
+    if (!provider || !xrOverlayRef.current || xrControllerRef.current) return;
+
+    // Most phones can't feed the camera to getUserMedia and WebXR at once.
+    // An opened file is only paused, and comes back as it was.
+    const video = videoRef.current;
+    const openMedia = mediaRef.current;
+    const wasPlaying = Boolean(openMedia && video && !video.paused);
+    if (openMedia) video?.pause();
+    else stopCamera();
+
+    const restoreSource = () => {
+      if (!openMedia) startCamera(cameraFacing).catch(err => setError(cameraError(err)));
+      else if (wasPlaying && mediaRef.current === openMedia) video?.play().catch(() => {});
+    };
+
+    const controller = new XRPlacementController(provider, {
+      onSurface: setXrSurfaceFound,
+      onPlaced: setXrPlacedCount,
+      onEnd: () => {
+        xrControllerRef.current = null;
+        setXrActive(false);
+        setXrSurfaceFound(false);
+        setXrPlacedCount(0);
+        restoreSource();
+      }
+    });
+    xrControllerRef.current = controller;
+
+    try {
+      await controller.start(xrOverlayRef.current, {
+        vehicleType: detectedCar?.class ?? 'car',
+        nextColor: randomPlacedColor
+      });
+      setXrActive(true);
+    } catch (err) {
+      console.error('WebXR session failed:', err);
+      xrControllerRef.current = null;
+      restoreSource();
+    }
+  };
+
   const clearPlacedCars = () => {
     setPlacedCars([]);
   };
@@ -393,73 +1085,28 @@ export default function Home() {
     setPlacedCars(prev => prev.filter(c => c.id !== id));
   };
 
-  // Error screen
-  if (error) {
-    return (
-      <div style={{
-        width: '100vw',
-        height: '100vh',
-        background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
-        display: 'flex',
-        flexDirection: 'column',
-        alignItems: 'center',
-        justifyContent: 'center',
-        color: 'white',
-        padding: 20,
-        textAlign: 'center'
-      }}>
-        <div style={{ fontSize: 60, marginBottom: 20 }}>📷</div>
-        <h2>Camera Access Needed</h2>
-        <p style={{ opacity: 0.7, marginTop: 10 }}>{error}</p>
-        <button 
-          onClick={() => window.location.reload()}
-          style={{
-            marginTop: 30,
-            padding: '22px 50px',
-            background: 'linear-gradient(135deg, #667eea, #764ba2)',
-            border: 'none',
-            borderRadius: 50,
-            color: 'white',
-            fontSize: 18,
-            cursor: 'pointer',
-            touchAction: 'manipulation'
-          }}
-        >
-          Try Again
-        </button>
-      </div>
-    );
-  }
+  const updateCar = (id: number, changes: Partial<Omit<PlacedCar, 'id'>>) => {
+    setPlacedCars(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+  };
 
-  // Loading screen
-  if (isLoading) {
-    return (
-      <div style={{
-        width: '100vw',
-        height: '100vh',
-        background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
-        display: 'flex',
-        flexDirection: 'column',
-        alignItems: 'center',
-        justifyContent: 'center',
-        color: 'white'
-      }}>
-        <div style={{
-          width: 70,
-          height: 70,
-          border: '5px solid rgba(255,255,255,0.2)',
-          borderTopColor: '#667eea',
-          borderRadius: '50%',
-          animation: 'spin 1s linear infinite'
-        }} />
-        <h2 style={{ marginTop: 30, fontSize: 24 }}>🚗 AR Car Scanner</h2>
-        <p style={{ marginTop: 10, opacity: 0.7, fontSize: 16 }}>{loadingText}</p>
-        <style>{`
-          @keyframes spin { to { transform: rotate(360deg); } }
-        `}</style>
-      </div>
-    );
-  }
+  const addCar = (car: Omit<PlacedCar, 'id'>) => {
+    setPlacedCars(prev => [...prev, { ...car, id: Date.now() }]);
+  };
+
+  // Gone once the car is deleted or the scene is cleared
+  const customizingCar = placedCars.find(c => c.id === customizingId);
+
+  // Restores a saved layout on its own floor calibration, re-projected to this screen
+  const loadScene = (scene: SavedScene) => {
+    const estimator = groundRef.current;
+    if (!estimator) return;
+    estimator.calibrate(scene.floor, performance.now());
+    const plane = estimator.estimate(window.innerWidth, window.innerHeight);
+    setGroundPlane(plane);
+    setPlacedCars(restoreCars(scene, plane));
+    setShowFloorGrid(true);
+    setShowScenes(false);
+  };
 
   return (
     <div 
@@ -473,25 +1120,58 @@ export default function Home() {
         overflow: 'hidden',
         touchAction: 'none'
       }}
-      onClick={handleScreenTap}
-      onTouchEnd={handleScreenTap}
+      onClick={(e) => handleScreenTap(tapPoint(e))}
+      onPointerDown={(e) => pinchZoomRef.current.pointerDown(e.pointerId, { x: e.clientX, y: e.clientY })}
+      onPointerMove={(e) => pinchZoomRef.current.pointerMove(e.pointerId, { x: e.clientX, y: e.clientY })}
+      onPointerUp={(e) => pinchZoomRef.current.pointerUp(e.pointerId, { x: e.clientX, y: e.clientY })}
+      onPointerCancel={(e) => pinchZoomRef.current.pointerCancel(e.pointerId)}
     >
-      {/* Camera Video */}
+      {/* Camera Video - also plays an opened clip */}
       <video
         ref={videoRef}
         playsInline
         muted
         autoPlay
+        onError={handleMediaError}
         style={{
           position: 'absolute',
           top: 0,
           left: 0,
           width: '100%',
           height: '100%',
-          objectFit: 'cover'
+          objectFit: 'cover',
+          transform: mirrored ? 'scaleX(-1)' : 'none',
+          display: media?.kind === 'image' ? 'none' : 'block'
         }}
       />
 
+      {/* Opened Photo */}
+      {media?.kind === 'image' && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          ref={imageRef}
+          src={media.url}
+          alt={media.name}
+          onError={handleMediaError}
+          style={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            width: '100%',
+            height: '100%',
+            objectFit: 'cover'
+          }}
+        />
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={MEDIA_ACCEPT}
+        onChange={handleFileChosen}
+        style={{ display: 'none' }}
+      />
+
       {/* Detection Canvas */}
       <canvas
         ref={canvasRef}
@@ -501,7 +1181,6 @@ export default function Home() {
           left: 0,
           width: '100%',
           height: '100%',
-          objectFit: 'cover',
           pointerEvents: 'none',
           display: arMode ? 'none' : 'block'
         }}
@@ -521,22 +1200,61 @@ export default function Home() {
         }}
       />
 
-      {/* Main 3D Car - Tracks Real Car */}
-      {arMode && carPosition && !placementMode && (
-        <ThreeDCar 
-          position={carPosition}
-          carType={detectedCar?.class || 'car'}
+      {/* 3D Cars - tracked car and placed cars share one renderer */}
+      {webglReady && <ARScene
+        trackedCar={arMode && selectedId !== null && carPosition && !placementMode
+          ? { id: selectedId, position: carPosition, carType: detectedCar?.class || 'car', heading: selectedCar?.heading ?? 0 }
+          : null}
+        placedCars={placedCars}
+        ground={groundPlane}
+        onRemovePlaced={removeCar}
+        onUpdatePlaced={updateCar}
+        onAddPlaced={addCar}
+        onCustomizePlaced={setCustomizingId}
+        palette={PLACED_COLORS}
+        captureRef={sceneCaptureRef}
+        debug={debugMode}
+      />}
+
+      {/* Car Customizer */}
+      {customizingCar && (
+        <CarCustomizer
+          car={customizingCar}
+          palette={PLACED_COLORS}
+          onChange={changes => updateCar(customizingCar.id, changes)}
+          onClose={() => setCustomizingId(null)}
+        />
+      )}
+
+      {/* Saved Scenes */}
+      {showScenes && (
+        <ScenesPanel
+          placedCars={placedCars}
+          ground={groundPlane}
+          onLoad={loadScene}
+          onClose={() => setShowScenes(false)}
+        />
+      )}
+
+      {/* Scan History */}
+      {showHistory && (
+        <HistoryScreen
+          onOpen={webglReady ? record => setViewerTarget({
+            vehicleType: record.vehicleType,
+            label: `${record.vehicleType.toUpperCase()} ${Math.round(record.score * 100)}%`
+          }) : undefined}
+          onClose={() => setShowHistory(false)}
         />
       )}
 
-      {/* Placed Cars */}
-      {placedCars.map(car => (
-        <PlacedCarModel
-          key={car.id}
-          car={car}
-          onRemove={() => removeCar(car.id)}
+      {viewerTarget && webglReady && (
+        <VehicleViewer
+          vehicleType={viewerTarget.vehicleType}
+          color={colorForType(viewerTarget.vehicleType)}
+          label={viewerTarget.label}
+          onClose={() => setViewerTarget(null)}
         />
-      ))}
+      )}
 
       {/* Scanning Line Animation */}
       {isScanning && !arMode && (
@@ -587,31 +1305,262 @@ export default function Home() {
         🔄
       </button>
 
-      {/* Camera Indicator */}
-      <div style={{
-        position: 'absolute',
-        top: 22,
-        left: 15,
-        background: 'rgba(0,0,0,0.6)',
-        color: 'white',
-        padding: '10px 18px',
-        borderRadius: 22,
-        fontSize: 14,
-        backdropFilter: 'blur(10px)',
-        zIndex: 100
-      }}>
-        {cameraFacing === 'environment' ? '📷 Back' : '🤳 Front'}
-      </div>
-
-      {/* Mode Indicator */}
-      {(arMode || isScanning) && (
-        <div style={{
+      {/* Capture Button */}
+      <button
+        onClick={(e) => { e.stopPropagation(); handleCapture(); }}
+        disabled={capturing}
+        style={{
           position: 'absolute',
-          top: 22,
-          left: '50%',
-          transform: 'translateX(-50%)',
-          background: arMode 
-            ? placementMode 
+          top: 150,
+          right: 15,
+          width: 60,
+          height: 60,
+          borderRadius: '50%',
+          border: 'none',
+          background: 'rgba(0,0,0,0.6)',
+          backdropFilter: 'blur(10px)',
+          color: 'white',
+          fontSize: 26,
+          cursor: 'pointer',
+          zIndex: 100,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          touchAction: 'manipulation',
+          opacity: capturing ? 0.5 : 1
+        }}
+      >
+        📸
+      </button>
+
+      {/* History Button */}
+      <button
+        onClick={(e) => { e.stopPropagation(); setShowHistory(true); }}
+        style={{
+          position: 'absolute',
+          top: 150,
+          left: 15,
+          width: 60,
+          height: 60,
+          borderRadius: '50%',
+          border: 'none',
+          background: 'rgba(0,0,0,0.6)',
+          backdropFilter: 'blur(10px)',
+          color: 'white',
+          fontSize: 26,
+          cursor: 'pointer',
+          zIndex: 100,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          touchAction: 'manipulation'
+        }}
+      >
+        🕘
+      </button>
+
+      {/* Open File Button - a photo or clip instead of the camera */}
+      <button
+        onClick={(e) => { e.stopPropagation(); chooseFile(); }}
+        aria-label="Open a photo or video"
+        style={{
+          position: 'absolute',
+          top: 220,
+          left: 15,
+          width: 60,
+          height: 60,
+          borderRadius: '50%',
+          border: 'none',
+          background: 'rgba(0,0,0,0.6)',
+          backdropFilter: 'blur(10px)',
+          color: 'white',
+          fontSize: 26,
+          cursor: 'pointer',
+          zIndex: 100,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          touchAction: 'manipulation'
+        }}
+      >
+        📁
+      </button>
+
+      {/* Record Button */}
+      {canRecord && (
+        <button
+          onClick={(e) => { e.stopPropagation(); toggleRecording(); }}
+          style={{
+            position: 'absolute',
+            top: 220,
+            right: 15,
+            width: 60,
+            height: 60,
+            borderRadius: '50%',
+            border: recordingProgress ? '3px solid #e74c3c' : 'none',
+            background: 'rgba(0,0,0,0.6)',
+            backdropFilter: 'blur(10px)',
+            color: 'white',
+            fontSize: 26,
+            cursor: 'pointer',
+            zIndex: 100,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            touchAction: 'manipulation'
+          }}
+        >
+          {recordingProgress ? '⏹️' : '⏺️'}
+        </button>
+      )}
+
+      {/* Recording Status */}
+      {recordingProgress && (
+        <div style={{
+          position: 'absolute',
+          top: 235,
+          right: 85,
+          background: 'rgba(231, 76, 60, 0.9)',
+          color: 'white',
+          padding: '6px 14px',
+          borderRadius: 15,
+          fontSize: 13,
+          fontWeight: 'bold',
+          fontVariantNumeric: 'tabular-nums',
+          zIndex: 100,
+          pointerEvents: 'none'
+        }}>
+          ● {formatElapsed(recordingProgress.elapsed)} • {formatBytes(recordingProgress.bytes)}
+        </div>
+      )}
+
+      {/* Recorded Clip */}
+      {recordedClip && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          style={{
+            position: 'absolute',
+            top: 220,
+            right: 85,
+            background: 'rgba(0,0,0,0.8)',
+            backdropFilter: 'blur(10px)',
+            color: 'white',
+            padding: '10px 12px',
+            borderRadius: 15,
+            fontSize: 13,
+            zIndex: 100,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8
+          }}
+        >
+          <span>🎬 {formatBytes(recordedClip.blob.size)}</span>
+          <button
+            onClick={() => shareOrDownload(recordedClip.blob, recordedClip.filename, 'Car AR Scanner')}
+            style={{
+              padding: '6px 10px',
+              border: 'none',
+              borderRadius: 12,
+              background: 'rgba(255,255,255,0.2)',
+              color: 'white',
+              fontSize: 13,
+              cursor: 'pointer',
+              touchAction: 'manipulation'
+            }}
+          >
+            📤 Share
+          </button>
+          <button
+            onClick={() => downloadBlob(recordedClip.blob, recordedClip.filename)}
+            style={{
+              padding: '6px 10px',
+              border: 'none',
+              borderRadius: 12,
+              background: 'rgba(255,255,255,0.2)',
+              color: 'white',
+              fontSize: 13,
+              cursor: 'pointer',
+              touchAction: 'manipulation'
+            }}
+          >
+            💾 Save
+          </button>
+          <button
+            onClick={() => setRecordedClip(null)}
+            style={{
+              padding: '6px 10px',
+              border: 'none',
+              borderRadius: 12,
+              background: 'rgba(255,255,255,0.2)',
+              color: 'white',
+              fontSize: 13,
+              cursor: 'pointer',
+              touchAction: 'manipulation'
+            }}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* Capture Flash */}
+      {capturing && (
+        <div style={{
+          position: 'absolute',
+          inset: 0,
+          background: 'white',
+          opacity: 0.3,
+          pointerEvents: 'none',
+          zIndex: 150
+        }} />
+      )}
+
+      {/* Camera Indicator - opens the camera settings */}
+      <button
+        onClick={(e) => { e.stopPropagation(); setShowCameraPanel(!showCameraPanel); }}
+        style={{
+          position: 'absolute',
+          top: 22,
+          left: 15,
+          border: 'none',
+          background: 'rgba(0,0,0,0.6)',
+          color: 'white',
+          padding: '10px 18px',
+          borderRadius: 22,
+          fontSize: 14,
+          backdropFilter: 'blur(10px)',
+          cursor: 'pointer',
+          touchAction: 'manipulation',
+          zIndex: 100
+        }}
+      >
+        {media
+          ? media.kind === 'image' ? '🖼️ Photo' : '🎞️ Video'
+          : cameraFacing === 'environment' ? '📷 Back' : '🤳 Front'}
+        {!media && cameraSettings.torch && ' 🔦'} ⚙️
+      </button>
+
+      {showCameraPanel && (
+        <CameraPanel
+          cameras={cameras}
+          deviceId={cameraDeviceId}
+          settings={cameraSettings}
+          capabilities={cameraCaps}
+          onSelectCamera={selectCamera}
+          onChange={updateCameraSettings}
+          onClose={() => setShowCameraPanel(false)}
+        />
+      )}
+
+      {/* Mode Indicator */}
+      {(arMode || isScanning) && (
+        <div style={{
+          position: 'absolute',
+          top: 22,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          background: arMode 
+            ? placementMode 
               ? 'linear-gradient(135deg, #f39c12, #e74c3c)'
               : 'linear-gradient(135deg, #00b894, #00cec9)'
             : 'linear-gradient(135deg, #667eea, #764ba2)',
@@ -666,16 +1615,38 @@ export default function Home() {
       }}>
         {arMode
           ? placementMode
-            ? '👆 Tap on the floor to place a 3D car'
+            ? '👆 Tap the floor to place a car • Drag, pinch or hold a car to edit'
             : '👆 Drag to rotate • Tap "Place Mode" to add cars'
           : isScanning
             ? detectedCar
-              ? `🎯 ${detectedCar.class.toUpperCase()} detected! Tap "Start AR"`
-              : '🔍 Point camera at a car...'
-            : '📱 Point at a car and tap "Scan Car"'
+              ? Object.keys(trackedCars).length > 1
+                ? `🎯 ${Object.keys(trackedCars).length} vehicles • Tap a box to choose, then "${scanAction}"`
+                : `🎯 ${detectedCar.class.toUpperCase()} detected! Tap "${scanAction}"`
+              : media ? '🔍 Looking for vehicles...' : '🔍 Point camera at a car...'
+            : media ? '🖼️ Tap "Scan Car" to find vehicles in the file' : '📱 Point at a car and tap "Scan Car"'
         }
       </div>
 
+      {/* Detection-only mode */}
+      {webglReady === false && !isLoading && (
+        <div style={{
+          position: 'absolute',
+          top: 130,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          background: 'rgba(0,0,0,0.6)',
+          color: '#f39c12',
+          padding: '8px 16px',
+          borderRadius: 15,
+          fontSize: 13,
+          zIndex: 100,
+          fontWeight: 'bold',
+          whiteSpace: 'nowrap'
+        }}>
+          🧊 3D unavailable • detection only
+        </div>
+      )}
+
       {/* Placed cars count */}
       {placedCars.length > 0 && (
         <div style={{
@@ -708,6 +1679,8 @@ export default function Home() {
         padding: '0 20px',
         zIndex: 100
       }}>
+        {media && <MediaControls media={media} videoRef={videoRef} onClose={backToCamera} />}
+
         {arMode ? (
           <>
             {/* AR Mode Buttons */}
@@ -733,6 +1706,73 @@ export default function Home() {
                 {placementMode ? '✓ Done' : '📍 Place Mode'}
               </button>
 
+              {/* Real AR */}
+              {xrSupported && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); startXR(); }}
+                  style={{
+                    padding: '16px 28px',
+                    fontSize: 16,
+                    fontWeight: 'bold',
+                    border: 'none',
+                    borderRadius: 45,
+                    background: 'linear-gradient(135deg, #667eea, #764ba2)',
+                    color: 'white',
+                    cursor: 'pointer',
+                    boxShadow: '0 5px 20px rgba(0,0,0,0.3)',
+                    touchAction: 'manipulation'
+                  }}
+                >
+                  🌐 Real AR
+                </button>
+              )}
+
+              {/* View in 3D */}
+              {detectedCar && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setViewerTarget({
+                      vehicleType: detectedCar.class,
+                      label: `${detectedCar.class.toUpperCase()} ${Math.round(detectedCar.score * 100)}%`
+                    });
+                  }}
+                  style={{
+                    padding: '16px 28px',
+                    fontSize: 16,
+                    fontWeight: 'bold',
+                    border: 'none',
+                    borderRadius: 45,
+                    background: 'rgba(255,255,255,0.2)',
+                    color: 'white',
+                    cursor: 'pointer',
+                    touchAction: 'manipulation',
+                    backdropFilter: 'blur(10px)'
+                  }}
+                >
+                  🧊 View in 3D
+                </button>
+              )}
+
+              {/* Saved Scenes */}
+              <button
+                onClick={(e) => { e.stopPropagation(); setShowScenes(true); }}
+                style={{
+                  padding: '16px 28px',
+                  fontSize: 16,
+                  fontWeight: 'bold',
+                  border: 'none',
+                  borderRadius: 45,
+                  background: 'rgba(255,255,255,0.2)',
+                  color: 'white',
+                  cursor: 'pointer',
+                  touchAction: 'manipulation',
+                  backdropFilter: 'blur(10px)'
+                }}
+              >
+                💾 Scenes
+              </button>
+
               {/* Clear All Button */}
               {placedCars.length > 0 && (
                 <button
@@ -801,481 +1841,261 @@ export default function Home() {
           >
             {isScanning
               ? detectedCar
-                ? '✨ Start AR'
+                ? webglReady === false ? '💾 Save Scan' : '✨ Start AR'
                 : '⏹️ Stop Scan'
               : '🔍 Scan Car'
             }
           </button>
         )}
       </div>
-    </div>
-  );
-}
-
-// ===== 3D CAR COMPONENT - TRACKS REAL CAR =====
-function ThreeDCar({ 
-  position, 
-  carType
-}: { 
-  position: CarPosition;
-  carType: string;
-}) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const carRef = useRef<THREE.Group | null>(null);
-  const animationRef = useRef<number | null>(null);
-  const rotationRef = useRef<number>(0);
-  const isDraggingRef = useRef<boolean>(false);
-  const lastTouchXRef = useRef<number>(0);
-
-  const getColor = useCallback(() => {
-    switch(carType) {
-      case 'truck': return 0x3498db;
-      case 'bus': return 0xf39c12;
-      case 'motorcycle': return 0x9b59b6;
-      default: return 0xe74c3c;
-    }
-  }, [carType]);
-
-  // 2.5x size centered on detection
-  const scale = 2.5;
-  const displaySize = {
-    width: position.width * scale,
-    height: position.height * scale,
-    x: position.x - (position.width * (scale - 1)) / 2,
-    y: position.y - (position.height * (scale - 1)) / 2
-  };
-
-  const handleTouchStart = useCallback((e: React.TouchEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    isDraggingRef.current = true;
-    lastTouchXRef.current = e.touches[0].clientX;
-  }, []);
-
-  const handleTouchMove = useCallback((e: React.TouchEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (!isDraggingRef.current || !carRef.current) return;
-    
-    const touchX = e.touches[0].clientX;
-    const deltaX = touchX - lastTouchXRef.current;
-    rotationRef.current += deltaX * 0.02;
-    carRef.current.rotation.y = rotationRef.current;
-    lastTouchXRef.current = touchX;
-  }, []);
-
-  const handleTouchEnd = useCallback((e: React.TouchEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    isDraggingRef.current = false;
-  }, []);
 
-  useEffect(() => {
-    if (!containerRef.current) return;
-
-    const container = containerRef.current;
-
-    const scene = new THREE.Scene();
-    sceneRef.current = scene;
-
-    const camera = new THREE.PerspectiveCamera(35, 1, 0.1, 1000);
-    camera.position.set(0, 4, 12);
-    camera.lookAt(0, 1, 0);
-    cameraRef.current = camera;
-
-    const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
-    renderer.setClearColor(0x000000, 0);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    renderer.shadowMap.enabled = true;
-    container.appendChild(renderer.domElement);
-    rendererRef.current = renderer;
-
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
-    scene.add(ambientLight);
-
-    const mainLight = new THREE.DirectionalLight(0xffffff, 1.5);
-    mainLight.position.set(5, 15, 10);
-    scene.add(mainLight);
-
-    const fillLight = new THREE.DirectionalLight(0xffffff, 0.6);
-    fillLight.position.set(-8, 8, -8);
-    scene.add(fillLight);
-
-    const car = createDetailedCar(getColor());
-    scene.add(car);
-    carRef.current = car;
-
-    const animate = () => {
-      if (rendererRef.current && sceneRef.current && cameraRef.current) {
-        rendererRef.current.render(sceneRef.current, cameraRef.current);
-      }
-      animationRef.current = requestAnimationFrame(animate);
-    };
-    animate();
-
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-      if (rendererRef.current) {
-        rendererRef.current.dispose();
-        if (container.contains(rendererRef.current.domElement)) {
-          container.removeChild(rendererRef.current.domElement);
-        }
-      }
-    };
-  }, [getColor]);
-
-  useEffect(() => {
-    if (!rendererRef.current || !cameraRef.current) return;
-    rendererRef.current.setSize(displaySize.width, displaySize.height);
-    cameraRef.current.aspect = displaySize.width / displaySize.height;
-    cameraRef.current.updateProjectionMatrix();
-  }, [displaySize.width, displaySize.height]);
-
-  return (
-    <div
-      ref={containerRef}
-      onTouchStart={handleTouchStart}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
-      style={{
-        position: 'absolute',
-        left: displaySize.x,
-        top: displaySize.y,
-        width: displaySize.width,
-        height: displaySize.height,
-        zIndex: 50,
-        cursor: 'grab',
-        touchAction: 'none'
-      }}
-    />
-  );
-}
-
-// ===== PLACED CAR MODEL =====
-function PlacedCarModel({ 
-  car, 
-  onRemove 
-}: { 
-  car: PlacedCar;
-  onRemove: () => void;
-}) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const carModelRef = useRef<THREE.Group | null>(null);
-  const animationRef = useRef<number | null>(null);
-  const rotationRef = useRef<number>(car.rotation);
-  const isDraggingRef = useRef<boolean>(false);
-  const lastTouchXRef = useRef<number>(0);
-
-  const size = 180;
-
-  const handleTouchStart = useCallback((e: React.TouchEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    isDraggingRef.current = true;
-    lastTouchXRef.current = e.touches[0].clientX;
-  }, []);
-
-  const handleTouchMove = useCallback((e: React.TouchEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    if (!isDraggingRef.current || !carModelRef.current) return;
-    
-    const touchX = e.touches[0].clientX;
-    const deltaX = touchX - lastTouchXRef.current;
-    rotationRef.current += deltaX * 0.03;
-    carModelRef.current.rotation.y = rotationRef.current;
-    lastTouchXRef.current = touchX;
-  }, []);
-
-  const handleTouchEnd = useCallback((e: React.TouchEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    isDraggingRef.current = false;
-  }, []);
-
-  useEffect(() => {
-    if (!containerRef.current) return;
-
-    const container = containerRef.current;
-
-    const scene = new THREE.Scene();
-    sceneRef.current = scene;
-
-    const camera = new THREE.PerspectiveCamera(40, 1, 0.1, 1000);
-    camera.position.set(0, 3, 8);
-    camera.lookAt(0, 0.5, 0);
-    cameraRef.current = camera;
-
-    const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
-    renderer.setClearColor(0x000000, 0);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    renderer.setSize(size, size);
-    container.appendChild(renderer.domElement);
-    rendererRef.current = renderer;
-
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
-    scene.add(ambientLight);
-
-    const mainLight = new THREE.DirectionalLight(0xffffff, 1.2);
-    mainLight.position.set(5, 10, 7);
-    scene.add(mainLight);
-
-    const carModel = createDetailedCar(car.color);
-    carModel.rotation.y = rotationRef.current;
-    scene.add(carModel);
-    carModelRef.current = carModel;
-
-    // Shadow circle
-    const shadowGeometry = new THREE.CircleGeometry(3, 32);
-    const shadowMaterial = new THREE.MeshBasicMaterial({
-      color: 0x000000,
-      transparent: true,
-      opacity: 0.3
-    });
-    const shadow = new THREE.Mesh(shadowGeometry, shadowMaterial);
-    shadow.rotation.x = -Math.PI / 2;
-    shadow.position.y = 0.01;
-    scene.add(shadow);
-
-    const animate = () => {
-      if (rendererRef.current && sceneRef.current && cameraRef.current) {
-        rendererRef.current.render(sceneRef.current, cameraRef.current);
-      }
-      animationRef.current = requestAnimationFrame(animate);
-    };
-    animate();
-
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-      if (rendererRef.current) {
-        rendererRef.current.dispose();
-        if (container.contains(rendererRef.current.domElement)) {
-          container.removeChild(rendererRef.current.domElement);
-        }
-      }
-    };
-  }, [car.color]);
-
-  return (
-    <div
-      style={{
-        position: 'absolute',
-        left: car.x - size / 2,
-        top: car.y - size / 2,
-        width: size,
-        height: size,
-        zIndex: 60
-      }}
-    >
+      {/* WebXR DOM overlay - shown over the camera passthrough during a session */}
       <div
-        ref={containerRef}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
-        style={{
-          width: '100%',
-          height: '100%',
-          cursor: 'grab',
-          touchAction: 'none'
-        }}
-      />
-      
-      {/* Remove button */}
-      <button
-        onClick={(e) => { e.stopPropagation(); onRemove(); }}
+        ref={xrOverlayRef}
+        onClick={(e) => e.stopPropagation()}
+        onTouchEnd={(e) => e.stopPropagation()}
         style={{
           position: 'absolute',
-          top: 0,
-          right: 0,
-          width: 32,
-          height: 32,
-          borderRadius: '50%',
-          border: '2px solid white',
-          background: 'rgba(231, 76, 60, 0.9)',
+          inset: 0,
+          display: xrActive ? 'flex' : 'none',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '22px 20px 30px',
+          pointerEvents: 'none',
+          zIndex: 300
+        }}
+      >
+        <div style={{
+          background: 'rgba(0,0,0,0.7)',
           color: 'white',
-          fontSize: 16,
-          cursor: 'pointer',
+          padding: '12px 24px',
+          borderRadius: 25,
+          fontSize: 14,
+          textAlign: 'center'
+        }}>
+          {xrSurfaceFound
+            ? '👆 Tap to place a car on the surface'
+            : '📱 Move your phone slowly to find a surface...'}
+          {xrPlacedCount > 0 && ` • 🚗 ${xrPlacedCount} placed`}
+        </div>
+
+        <div style={{ display: 'flex', gap: 12, pointerEvents: 'auto' }}>
+          {xrPlacedCount > 0 && (
+            <button
+              onClick={() => xrControllerRef.current?.clear()}
+              style={{
+                padding: '16px 28px',
+                fontSize: 16,
+                fontWeight: 'bold',
+                border: 'none',
+                borderRadius: 45,
+                background: 'rgba(255,255,255,0.2)',
+                color: 'white',
+                cursor: 'pointer',
+                touchAction: 'manipulation'
+              }}
+            >
+              🗑️ Clear All
+            </button>
+          )}
+          <button
+            onClick={() => xrControllerRef.current?.end()}
+            style={{
+              padding: '16px 28px',
+              fontSize: 16,
+              fontWeight: 'bold',
+              border: 'none',
+              borderRadius: 45,
+              background: 'linear-gradient(135deg, #e74c3c, #c0392b)',
+              color: 'white',
+              cursor: 'pointer',
+              touchAction: 'manipulation'
+            }}
+          >
+            ✕ Exit Real AR
+          </button>
+        </div>
+      </div>
+      {/* Loading screen - over the app, so the camera is already attached underneath */}
+      {isLoading && (
+        <div style={{
+          position: 'fixed',
+          inset: 0,
+          background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
           display: 'flex',
+          flexDirection: 'column',
           alignItems: 'center',
           justifyContent: 'center',
-          touchAction: 'manipulation',
-          boxShadow: '0 2px 10px rgba(0,0,0,0.3)'
-        }}
-      >
-        ✕
-      </button>
+          color: 'white',
+          zIndex: 1000
+        }}>
+          <div style={{
+            width: 70,
+            height: 70,
+            border: '5px solid rgba(255,255,255,0.2)',
+            borderTopColor: '#667eea',
+            borderRadius: '50%',
+            animation: 'spin 1s linear infinite'
+          }} />
+          <h2 style={{ marginTop: 30, fontSize: 24 }}>🚗 AR Car Scanner</h2>
+          <p style={{ marginTop: 10, opacity: 0.7, fontSize: 16 }}>{loadProgress.message}</p>
+
+          {loadProgress.fraction !== undefined && (
+            <div style={{
+              width: 220,
+              height: 6,
+              marginTop: 14,
+              borderRadius: 3,
+              background: 'rgba(255,255,255,0.15)',
+              overflow: 'hidden'
+            }}>
+              <div style={{
+                width: `${Math.round(loadProgress.fraction * 100)}%`,
+                height: '100%',
+                background: 'linear-gradient(90deg, #667eea, #764ba2)',
+                transition: 'width 0.2s'
+              }} />
+            </div>
+          )}
+
+          {loadProgress.offline && (
+            <p style={{ marginTop: 14, fontSize: 13, opacity: 0.8 }}>
+              {loadProgress.offline === 'downloading'
+                ? `⬇️ Downloading for offline use${loadProgress.fraction !== undefined ? ` ${Math.round(loadProgress.fraction * 100)}%` : ''}`
+                : loadProgress.offline === 'stored' && shellCached
+                  ? '✅ Available offline'
+                  : loadProgress.offline === 'stored' && shellCached === null
+                    ? '⬇️ Saving the app for offline use'
+                    : '⚠️ Could not save for offline use; a connection is needed next time'}
+            </p>
+          )}
+          <style>{`
+            @keyframes spin { to { transform: rotate(360deg); } }
+          `}</style>
+        </div>
+      )}
+
+      {/* Detection failing while the rest of the app keeps going */}
+      {detectionFailure && !error && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          onTouchEnd={(e) => e.stopPropagation()}
+          style={{
+            position: 'absolute',
+            top: 90,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 12,
+            maxWidth: '90%',
+            padding: '10px 12px 10px 18px',
+            borderRadius: 25,
+            background: 'rgba(231, 76, 60, 0.9)',
+            color: 'white',
+            fontSize: 14,
+            zIndex: 120
+          }}
+        >
+          <span>⚠️ {detectionFailure.message}</span>
+          <button
+            onClick={() => boot(true)}
+            style={{
+              padding: '8px 14px',
+              border: 'none',
+              borderRadius: 20,
+              background: 'rgba(255,255,255,0.25)',
+              color: 'white',
+              fontSize: 13,
+              cursor: 'pointer',
+              whiteSpace: 'nowrap',
+              touchAction: 'manipulation'
+            }}
+          >
+            Restart detector
+          </button>
+        </div>
+      )}
+
+      {/* Error screen */}
+      {error && !isLoading && <ErrorScreen error={error} onRetry={retry} onOpenFile={chooseFile} />}
     </div>
   );
 }
 
-// ===== CREATE DETAILED 3D CAR =====
-function createDetailedCar(color: number): THREE.Group {
-  const car = new THREE.Group();
-
-  const bodyMaterial = new THREE.MeshStandardMaterial({
-    color: color,
-    metalness: 0.9,
-    roughness: 0.15,
-  });
-
-  const glassMaterial = new THREE.MeshStandardMaterial({
-    color: 0x88ddff,
-    metalness: 0.98,
-    roughness: 0.02,
-    transparent: true,
-    opacity: 0.6
-  });
-
-  const wheelMaterial = new THREE.MeshStandardMaterial({
-    color: 0x111111,
-    metalness: 0.2,
-    roughness: 0.9
-  });
-
-  const rimMaterial = new THREE.MeshStandardMaterial({
-    color: 0xdddddd,
-    metalness: 0.98,
-    roughness: 0.02
-  });
-
-  const chromeMaterial = new THREE.MeshStandardMaterial({
-    color: 0xffffff,
-    metalness: 1,
-    roughness: 0.02
-  });
-
-  const headlightMaterial = new THREE.MeshStandardMaterial({
-    color: 0xffffee,
-    emissive: 0xffffee,
-    emissiveIntensity: 2
-  });
-
-  const taillightMaterial = new THREE.MeshStandardMaterial({
-    color: 0xff0000,
-    emissive: 0xff0000,
-    emissiveIntensity: 1.5
-  });
-
-  const darkMaterial = new THREE.MeshStandardMaterial({
-    color: 0x1a1a1a,
-    metalness: 0.6,
-    roughness: 0.4
-  });
-
-  // Body
-  const bodyLower = new THREE.Mesh(new THREE.BoxGeometry(5.5, 1, 2.4), bodyMaterial);
-  bodyLower.position.y = 0.6;
-  car.add(bodyLower);
-
-  const bodySide = new THREE.Mesh(new THREE.BoxGeometry(5.3, 0.5, 2.5), bodyMaterial);
-  bodySide.position.y = 1.2;
-  car.add(bodySide);
-
-  const hood = new THREE.Mesh(new THREE.BoxGeometry(1.8, 0.5, 2.3), bodyMaterial);
-  hood.position.set(2.1, 1.05, 0);
-  hood.rotation.z = -0.12;
-  car.add(hood);
-
-  const trunk = new THREE.Mesh(new THREE.BoxGeometry(1.3, 0.5, 2.3), bodyMaterial);
-  trunk.position.set(-2.3, 1.05, 0);
-  trunk.rotation.z = 0.1;
-  car.add(trunk);
-
-  // Cabin
-  const cabin = new THREE.Mesh(new THREE.BoxGeometry(3, 1.3, 2.2), bodyMaterial);
-  cabin.position.set(-0.1, 2.05, 0);
-  car.add(cabin);
-
-  const roof = new THREE.Mesh(new THREE.BoxGeometry(2.8, 0.18, 2.1), bodyMaterial);
-  roof.position.set(-0.1, 2.75, 0);
-  car.add(roof);
-
-  // Windows
-  const windshield = new THREE.Mesh(new THREE.PlaneGeometry(2, 1.1), glassMaterial);
-  windshield.position.set(1.2, 2.1, 0);
-  windshield.rotation.y = Math.PI / 2;
-  windshield.rotation.x = 0.3;
-  car.add(windshield);
-
-  const rearWindow = new THREE.Mesh(new THREE.PlaneGeometry(2, 1.1), glassMaterial);
-  rearWindow.position.set(-1.5, 2.1, 0);
-  rearWindow.rotation.y = -Math.PI / 2;
-  rearWindow.rotation.x = -0.25;
-  car.add(rearWindow);
-
-  const sideWindowGeo = new THREE.PlaneGeometry(2.7, 1);
-  const sideWindowL = new THREE.Mesh(sideWindowGeo, glassMaterial);
-  sideWindowL.position.set(-0.1, 2.15, 1.11);
-  car.add(sideWindowL);
-
-  const sideWindowR = new THREE.Mesh(sideWindowGeo, glassMaterial);
-  sideWindowR.position.set(-0.1, 2.15, -1.11);
-  sideWindowR.rotation.y = Math.PI;
-  car.add(sideWindowR);
-
-  // Wheels
-  const wheelPositions = [
-    { x: 1.7, z: 1.3 },
-    { x: 1.7, z: -1.3 },
-    { x: -1.7, z: 1.3 },
-    { x: -1.7, z: -1.3 }
-  ];
-
-  wheelPositions.forEach(pos => {
-    const tire = new THREE.Mesh(new THREE.CylinderGeometry(0.5, 0.5, 0.38, 32), wheelMaterial);
-    tire.position.set(pos.x, 0.5, pos.z);
-    tire.rotation.x = Math.PI / 2;
-    car.add(tire);
-
-    const rim = new THREE.Mesh(new THREE.CylinderGeometry(0.32, 0.32, 0.4, 24), rimMaterial);
-    rim.position.set(pos.x, 0.5, pos.z);
-    rim.rotation.x = Math.PI / 2;
-    car.add(rim);
-
-    const hub = new THREE.Mesh(new THREE.CylinderGeometry(0.12, 0.12, 0.42, 16), chromeMaterial);
-    hub.position.set(pos.x, 0.5, pos.z);
-    hub.rotation.x = Math.PI / 2;
-    car.add(hub);
-  });
-
-  // Lights
-  const headlightGeo = new THREE.BoxGeometry(0.12, 0.3, 0.7);
-  const headlightL = new THREE.Mesh(headlightGeo, headlightMaterial);
-  headlightL.position.set(2.76, 0.75, 0.7);
-  car.add(headlightL);
-
-  const headlightR = new THREE.Mesh(headlightGeo, headlightMaterial);
-  headlightR.position.set(2.76, 0.75, -0.7);
-  car.add(headlightR);
-
-  const taillightGeo = new THREE.BoxGeometry(0.12, 0.28, 0.6);
-  const taillightL = new THREE.Mesh(taillightGeo, taillightMaterial);
-  taillightL.position.set(-2.76, 0.75, 0.7);
-  car.add(taillightL);
-
-  const taillightR = new THREE.Mesh(taillightGeo, taillightMaterial);
-  taillightR.position.set(-2.76, 0.75, -0.7);
-  car.add(taillightR);
-
-  // Bumpers
-  const frontBumper = new THREE.Mesh(new THREE.BoxGeometry(0.3, 0.35, 2.6), darkMaterial);
-  frontBumper.position.set(2.85, 0.28, 0);
-  car.add(frontBumper);
-
-  const rearBumper = new THREE.Mesh(new THREE.BoxGeometry(0.3, 0.35, 2.6), darkMaterial);
-  rearBumper.position.set(-2.85, 0.28, 0);
-  car.add(rearBumper);
+// Keeps the previous plane unless the horizon or scale moved noticeably,
+// so sensor noise doesn't re-render the page every event
+function settleGround(prev: GroundPlane, next: GroundPlane): GroundPlane {
+  const unchanged =
+    prev.viewportWidth === next.viewportWidth &&
+    prev.viewportHeight === next.viewportHeight &&
+    prev.fov === next.fov &&
+    Math.abs(horizonY(prev) - horizonY(next)) < 1 &&
+    Math.abs(prev.cameraHeight - next.cameraHeight) < 0.01;
+  return unchanged ? prev : next;
+}
 
-  // Grille
-  const grille = new THREE.Mesh(new THREE.BoxGeometry(0.08, 0.5, 1.6), darkMaterial);
-  grille.position.set(2.77, 0.55, 0);
-  car.add(grille);
+// ===== DETECTION BOX =====
+function drawDetectionBox(
+  ctx: CanvasRenderingContext2D,
+  vehicle: TrackedVehicle,
+  selected: boolean,
+  showId: boolean,
+  // Range and size readout shown after the label
+  readout?: string
+) {
+  const [x, y, width, height] = vehicle.bbox;
+  const color = selected ? '#00ff00' : 'rgba(255, 255, 255, 0.7)';
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = selected ? 4 : 2;
+  ctx.strokeRect(x, y, width, height);
+
+  if (selected) {
+    const cornerLength = 30;
+    ctx.lineWidth = 6;
+
+    // Corners
+    ctx.beginPath();
+    ctx.moveTo(x, y + cornerLength);
+    ctx.lineTo(x, y);
+    ctx.lineTo(x + cornerLength, y);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(x + width - cornerLength, y);
+    ctx.lineTo(x + width, y);
+    ctx.lineTo(x + width, y + cornerLength);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(x, y + height - cornerLength);
+    ctx.lineTo(x, y + height);
+    ctx.lineTo(x + cornerLength, y + height);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(x + width - cornerLength, y + height);
+    ctx.lineTo(x + width, y + height);
+    ctx.lineTo(x + width, y + height - cornerLength);
+    ctx.stroke();
+  }
 
-  return car;
+  // Label
+  const label = `${showId ? `#${vehicle.id} ` : ''}${vehicle.class.toUpperCase()} ${Math.round(vehicle.score * 100)}%`;
+  ctx.fillStyle = color;
+  ctx.font = selected ? 'bold 18px Arial' : 'bold 15px Arial';
+  ctx.fillText(label, x + 5, y - 15);
+
+  // HUD readout
+  if (readout) {
+    const labelWidth = ctx.measureText(label).width;
+    ctx.font = selected ? '15px Arial' : '13px Arial';
+    const width = ctx.measureText(readout).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(x + labelWidth + 12, y - 32, width + 12, 22);
+    ctx.fillStyle = color;
+    ctx.fillText(readout, x + labelWidth + 18, y - 16);
+  }
 }
@@ -0,0 +1,699 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import * as THREE from 'three';
+import type { CarConfig, CarPosition, PlacedCar } from '@/lib/types';
+import { createVehicleModel, MODEL_UNITS_PER_METRE } from '@/lib/three/car-model';
+import { focalLength, groundDistance, groundToCamera, screenToGround, type GroundPlane } from '@/lib/ground-plane';
+import { estimateVehicle, vehicleDimensions } from '@/lib/vehicle-estimate';
+import { catalogEntry, loadVehicleAsset } from '@/lib/three/model-catalog';
+import { carResources, createCarShadow, releaseCarResources } from '@/lib/three/parts';
+import { applyCarConfig } from '@/lib/three/customize';
+import { toHexColor } from '@/lib/car-config';
+import { gpuStats, type GpuStats } from '@/lib/three/resources';
+import { GestureRecognizer, type GestureChange, type GestureHandlers } from '@/lib/gestures';
+
+// Pinch limits for placed cars, relative to life size
+const MIN_PLACED_SCALE = 0.5;
+const MAX_PLACED_SCALE = 3;
+// Radians per pixel of horizontal drag on the tracked car
+const TRACKED_DRAG_ROTATION = 0.02;
+
+interface SceneEntry {
+  key: string;
+  kind: 'tracked' | 'placed';
+  rect: CarPosition;
+  color: number;
+  config?: CarConfig;
+  vehicleType: string;
+  // Where the car stands: camera-space position in metres, ground tilt and extra scale
+  ground: { position: [number, number, number]; pitch: number; scale: number };
+  // Automatic yaw; a drag replaces it with a manual rotation
+  heading?: number;
+  // The placed car as currently shown, including an unfinished gesture
+  car?: PlacedCar;
+}
+
+interface SceneObject {
+  pivot: THREE.Group;
+  yaw: THREE.Group;
+  car: THREE.Group;
+  vehicleType: string;
+}
+
+export function colorForType(carType: string): number {
+  switch(carType) {
+    case 'truck': return 0x3498db;
+    case 'bus': return 0xf39c12;
+    case 'motorcycle': return 0x9b59b6;
+    default: return 0xe74c3c;
+  }
+}
+
+// ===== SHARED AR SCENE =====
+// One full-screen renderer draws the tracked car and every placed car.
+// Interaction stays in DOM hit areas laid over each car's screen rect.
+export default function ARScene({
+  trackedCar,
+  placedCars,
+  ground,
+  onRemovePlaced,
+  onUpdatePlaced,
+  onAddPlaced,
+  onCustomizePlaced,
+  palette,
+  captureRef,
+  debug = false
+}: {
+  // heading: estimated yaw relative to the line of sight (see estimateHeading)
+  // `id` is the tracker's id for the vehicle
+  trackedCar: { id: number; position: CarPosition; carType: string; heading: number } | null;
+  placedCars: PlacedCar[];
+  // Placed cars are projected onto this plane from their screen positions
+  ground: GroundPlane;
+  onRemovePlaced: (id: number) => void;
+  // Called when a gesture on a placed car ends, with its new position, scale and rotation
+  onUpdatePlaced: (id: number, changes: Partial<Omit<PlacedCar, 'id'>>) => void;
+  // Enables Duplicate in the long-press menu
+  onAddPlaced?: (car: Omit<PlacedCar, 'id'>) => void;
+  // Enables Customize in the long-press menu
+  onCustomizePlaced?: (id: number) => void;
+  // Colors offered by Recolor in the long-press menu
+  palette?: number[];
+  // Filled with the scene's canvas, which keeps the last rendered frame so
+  // snapshots and recordings copy it without rendering again
+  captureRef?: React.MutableRefObject<HTMLCanvasElement | null>;
+  // Shows live GPU resource counts so leaks are easy to spot
+  debug?: boolean;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const objectsRef = useRef<Map<string, SceneObject>>(new Map());
+  const rotationsRef = useRef<Map<string, number>>(new Map());
+  // Placed cars mid-gesture; handed back through onUpdatePlaced when it ends.
+  // The ref is what gesture handlers read between renders, the state what is drawn.
+  const draftsRef = useRef<Map<string, PlacedCar>>(new Map());
+  const [drafts, setDrafts] = useState<ReadonlyMap<string, PlacedCar>>(new Map());
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [menuKey, setMenuKey] = useState<string | null>(null);
+  const entriesRef = useRef<SceneEntry[]>([]);
+  const groundRef = useRef(ground);
+  const [stats, setStats] = useState<GpuStats | null>(null);
+  // Download progress (0-1) of GLB assets still loading, by entry key
+  const [assetProgress, setAssetProgress] = useState<Record<string, number>>({});
+
+  const entries: SceneEntry[] = [];
+  // Keyed by vehicle, so a manual turn stays with the vehicle it was made on
+  const trackedKey = trackedCar ? `tracked-${trackedCar.id}` : null;
+
+  if (trackedCar && trackedKey) {
+    // Life-size on the ground where the detection meets it
+    const { position, carType, heading } = trackedCar;
+    const estimate = estimateVehicle(position, carType, ground);
+    if (estimate) {
+      // The heading is relative to the line of sight, which is turned by the car's bearing
+      const { x, z } = estimate.groundPoint;
+      entries.push({
+        key: trackedKey,
+        kind: 'tracked',
+        color: colorForType(carType),
+        vehicleType: carType,
+        ground: { position: groundToCamera(ground, estimate.groundPoint), pitch: ground.pitch, scale: 1 },
+        heading: heading - Math.atan2(x, z),
+        rect: position
+      });
+    }
+  }
+
+  placedCars.forEach(placed => {
+    const key = `placed-${placed.id}`;
+    const car = drafts.get(key) ?? placed;
+    const vehicleType = car.vehicleType ?? 'car';
+
+    // A recalibrated horizon can leave an old tap above it; such cars wait until it settles
+    const point = screenToGround(ground, { x: car.x, y: car.y });
+    if (!point) return;
+
+    // Hit area about as wide as the car appears at that distance
+    const size = (focalLength(ground) * vehicleDimensions(vehicleType).length * car.scale) / groundDistance(ground, point);
+    entries.push({
+      key,
+      kind: 'placed',
+      color: car.color,
+      config: car.config,
+      vehicleType,
+      ground: { position: groundToCamera(ground, point), pitch: ground.pitch, scale: car.scale },
+      heading: car.rotation,
+      car,
+      rect: {
+        x: car.x - size / 2,
+        y: car.y - size * 0.6,
+        width: size,
+        height: size * 0.75
+      }
+    });
+  });
+
+  // Read by the render loop, which runs outside React; declared before the
+  // scene effect so its first frame already has them
+  useEffect(() => {
+    entriesRef.current = entries;
+    groundRef.current = ground;
+  });
+
+  // A new vehicle starts auto-oriented again: the last one's manual turn goes
+  // when the tracked id changes or tracking stops
+  useEffect(() => {
+    const rotations = rotationsRef.current;
+    return () => {
+      if (trackedKey) rotations.delete(trackedKey);
+    };
+  }, [trackedKey]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const container = containerRef.current;
+    const objects = objectsRef.current;
+
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(groundRef.current.fov, window.innerWidth / window.innerHeight, 0.1, 1000);
+
+    const renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true, preserveDrawingBuffer: !!captureRef });
+    renderer.setClearColor(0x000000, 0);
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.setSize(window.innerWidth, window.innerHeight);
+    Object.assign(renderer.domElement.style, { position: 'absolute', top: '0', left: '0', pointerEvents: 'none' });
+    container.appendChild(renderer.domElement);
+    rendererRef.current = renderer;
+
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.8);
+    scene.add(ambientLight);
+
+    const mainLight = new THREE.DirectionalLight(0xffffff, 1.5);
+    mainLight.position.set(5, 15, 10);
+    scene.add(mainLight);
+
+    const fillLight = new THREE.DirectionalLight(0xffffff, 0.6);
+    fillLight.position.set(-8, 8, -8);
+    scene.add(fillLight);
+
+    const handleResize = () => {
+      camera.aspect = window.innerWidth / window.innerHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(window.innerWidth, window.innerHeight);
+    };
+    window.addEventListener('resize', handleResize);
+
+    // Swaps the procedural model for the catalog GLB once it has loaded;
+    // if the asset is missing the procedural model just stays
+    const upgradeToAsset = (entry: SceneEntry, object: SceneObject) => {
+      if (!catalogEntry(entry.vehicleType)) return;
+      const { key } = entry;
+      setAssetProgress(prev => ({ ...prev, [key]: 0 }));
+
+      loadVehicleAsset(entry.vehicleType, object.car.userData.color, fraction => {
+        setAssetProgress(prev => (key in prev ? { ...prev, [key]: fraction } : prev));
+      })
+        .then(model => {
+          if (objects.get(key) !== object) {
+            releaseCarResources(model);
+            return;
+          }
+          fitModel(model, entry.vehicleType);
+          const latest = entriesRef.current.find(e => e.key === key) ?? entry;
+          applyCarConfig(model, latest.color, latest.config);
+          object.yaw.remove(object.car);
+          releaseCarResources(object.car);
+          object.yaw.add(model);
+          object.car = model;
+        })
+        .catch(() => {})
+        .finally(() => {
+          setAssetProgress(prev => {
+            const next = { ...prev };
+            delete next[key];
+            return next;
+          });
+        });
+    };
+
+    const syncScene = () => {
+      const entries = entriesRef.current;
+      const keys = new Set(entries.map(e => e.key));
+
+      objects.forEach((object, key) => {
+        if (!keys.has(key)) {
+          scene.remove(object.pivot);
+          releaseCarResources(object.pivot);
+          objects.delete(key);
+        }
+      });
+
+      entries.forEach(entry => {
+        let object = objects.get(entry.key);
+
+        // A different vehicle class needs different geometry; color alone is swapped in place
+        if (object && object.vehicleType !== entry.vehicleType) {
+          scene.remove(object.pivot);
+          releaseCarResources(object.pivot);
+          object = undefined;
+        }
+
+        if (!object) {
+          const pivot = new THREE.Group();
+          const yaw = new THREE.Group();
+          const car = createVehicleModel(entry.vehicleType, entry.color);
+          fitModel(car, entry.vehicleType);
+          yaw.add(car);
+          if (entry.kind === 'placed') yaw.add(createCarShadow());
+          pivot.add(yaw);
+          scene.add(pivot);
+          object = { pivot, yaw, car, vehicleType: entry.vehicleType };
+          objects.set(entry.key, object);
+          upgradeToAsset(entry, object);
+        }
+
+        applyCarConfig(object.car, entry.color, entry.config);
+
+        layoutObject(object, entry, rotationsRef.current.get(entry.key) ?? entry.heading ?? 0);
+      });
+    };
+
+    if (captureRef) captureRef.current = renderer.domElement;
+
+    let animationId: number;
+    const animate = () => {
+      // The ground projection and the render must agree on the field of view
+      if (camera.fov !== groundRef.current.fov) {
+        camera.fov = groundRef.current.fov;
+        camera.updateProjectionMatrix();
+      }
+      syncScene();
+      renderer.render(scene, camera);
+      animationId = requestAnimationFrame(animate);
+    };
+    animate();
+
+    return () => {
+      if (captureRef) captureRef.current = null;
+      cancelAnimationFrame(animationId);
+      window.removeEventListener('resize', handleResize);
+      objects.forEach(object => releaseCarResources(object.pivot));
+      objects.clear();
+      renderer.renderLists.dispose();
+      renderer.dispose();
+      rendererRef.current = null;
+      if (container.contains(renderer.domElement)) {
+        container.removeChild(renderer.domElement);
+      }
+    };
+  }, [captureRef]);
+
+  useEffect(() => {
+    if (!debug) return;
+    const interval = setInterval(() => {
+      if (rendererRef.current) setStats(gpuStats(rendererRef.current, carResources));
+    }, 500);
+    return () => clearInterval(interval);
+  }, [debug]);
+
+  // Taps anywhere but a car or its menu drop the selection
+  useEffect(() => {
+    if (!selectedKey && !menuKey) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.target instanceof Element && e.target.closest('[data-car-hit]')) return;
+      setSelectedKey(null);
+      setMenuKey(null);
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    return () => window.removeEventListener('pointerdown', handlePointerDown);
+  }, [selectedKey, menuKey]);
+
+  // The first drag takes over from the automatic heading, starting where it was
+  const rotate = useCallback((key: string, delta: number) => {
+    const current = rotationsRef.current.get(key)
+      ?? entriesRef.current.find(entry => entry.key === key)?.heading
+      ?? 0;
+    rotationsRef.current.set(key, current + delta);
+  }, []);
+
+  const updateDrafts = (update: (pending: Map<string, PlacedCar>) => void) => {
+    update(draftsRef.current);
+    setDrafts(new Map(draftsRef.current));
+  };
+
+  // Drag moves the car along the floor, pinch scales it, twist turns it
+  const editPlaced = (key: string, change: GestureChange) => {
+    const current = draftsRef.current.get(key) ?? placedCars.find(car => `placed-${car.id}` === key);
+    if (!current) return;
+    const moved = { x: current.x + change.pan.x, y: current.y + change.pan.y };
+    // Past the horizon there is no floor to stand on, so the car stays put
+    const onFloor = screenToGround(groundRef.current, moved) !== null;
+    updateDrafts(pending => pending.set(key, {
+      ...current,
+      ...(onFloor ? moved : {}),
+      scale: Math.min(MAX_PLACED_SCALE, Math.max(MIN_PLACED_SCALE, current.scale * change.scale)),
+      // Clockwise on screen is clockwise seen from above, which is negative yaw
+      rotation: current.rotation - change.rotation
+    }));
+  };
+
+  const commitPlaced = (key: string) => {
+    const draft = draftsRef.current.get(key);
+    if (!draft) return;
+    updateDrafts(pending => pending.delete(key));
+    const { id, ...changes } = draft;
+    onUpdatePlaced(id, changes);
+  };
+
+  const removePlaced = (key: string) => {
+    updateDrafts(pending => pending.delete(key));
+    setMenuKey(null);
+    setSelectedKey(null);
+    onRemovePlaced(placedId(key));
+  };
+
+  const gesturesFor = (entry: SceneEntry): GestureHandlers => {
+    const { key } = entry;
+    if (entry.kind === 'tracked') {
+      return { onChange: change => rotate(key, change.pan.x * TRACKED_DRAG_ROTATION - change.rotation) };
+    }
+    return {
+      onStart: () => {
+        setSelectedKey(key);
+        setMenuKey(null);
+      },
+      onChange: change => editPlaced(key, change),
+      onEnd: () => commitPlaced(key),
+      onTap: () => {
+        setSelectedKey(selectedKey === key ? null : key);
+        setMenuKey(null);
+      },
+      onLongPress: () => {
+        setSelectedKey(key);
+        setMenuKey(key);
+      }
+    };
+  };
+
+  const menuEntry = entries.find(entry => entry.key === menuKey && entry.car);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        zIndex: 50,
+        pointerEvents: 'none'
+      }}
+    >
+      {debug && stats && (
+        <div style={{
+          position: 'absolute',
+          bottom: 200,
+          left: 10,
+          background: 'rgba(0,0,0,0.7)',
+          color: '#00ff00',
+          padding: '8px 12px',
+          borderRadius: 8,
+          fontSize: 12,
+          fontFamily: 'monospace',
+          whiteSpace: 'pre',
+          zIndex: 101
+        }}>
+          {`geometries ${stats.geometries}\ntextures   ${stats.textures}\nprograms   ${stats.programs}\nshared     ${stats.resources} (${stats.references} refs)`}
+        </div>
+      )}
+
+      {entries.filter(entry => entry.key in assetProgress).map(entry => (
+        <div
+          key={`loading-${entry.key}`}
+          style={{
+            position: 'absolute',
+            left: entry.rect.x + entry.rect.width / 2,
+            top: entry.rect.y,
+            transform: 'translateX(-50%)',
+            background: 'rgba(0,0,0,0.6)',
+            color: 'white',
+            padding: '4px 10px',
+            borderRadius: 12,
+            fontSize: 12,
+            whiteSpace: 'nowrap'
+          }}
+        >
+          ⏳ Loading 3D model {Math.round(assetProgress[entry.key] * 100)}%
+        </div>
+      ))}
+
+      {entries.map(entry => (
+        <CarHitArea
+          key={entry.key}
+          rect={entry.rect}
+          selected={entry.key === selectedKey}
+          gestures={gesturesFor(entry)}
+          onRemove={entry.kind === 'placed' ? () => removePlaced(entry.key) : undefined}
+        />
+      ))}
+
+      {/* Long-press menu */}
+      {menuEntry?.car && (
+        <PlacedCarMenu
+          rect={menuEntry.rect}
+          car={menuEntry.car}
+          palette={palette}
+          onDuplicate={onAddPlaced
+            ? () => {
+                const { x, y, rotation, scale, color, config } = menuEntry.car!;
+                // Beside the original, on the same line of the floor
+                onAddPlaced({ x: x + menuEntry.rect.width * 0.6, y, rotation, scale, color, config });
+                setMenuKey(null);
+              }
+            : undefined}
+          onCustomize={onCustomizePlaced
+            ? () => {
+                onCustomizePlaced(placedId(menuEntry.key));
+                setMenuKey(null);
+              }
+            : undefined}
+          onRecolor={color => onUpdatePlaced(placedId(menuEntry.key), { color })}
+          onDelete={() => removePlaced(menuEntry.key)}
+        />
+      )}
+    </div>
+  );
+}
+
+const placedId = (key: string) => Number(key.slice('placed-'.length));
+
+// Scales a model to the typical real length of its class
+function fitModel(model: THREE.Group, vehicleType: string) {
+  const length = vehicleDimensions(vehicleType).length * MODEL_UNITS_PER_METRE;
+  model.scale.setScalar(length / model.userData.length);
+}
+
+function layoutObject(object: SceneObject, entry: SceneEntry, rotation: number) {
+  const [x, y, z] = entry.ground.position;
+  object.pivot.position.set(x, y, z).multiplyScalar(MODEL_UNITS_PER_METRE);
+  object.pivot.scale.setScalar(entry.ground.scale);
+  object.pivot.rotation.x = entry.ground.pitch;
+  object.yaw.rotation.y = rotation;
+}
+
+// ===== CAR HIT AREA =====
+// Feeds pointer events (touch, pen and mouse alike) to a gesture recognizer.
+// Mouse users get the wheel to scale (with Shift to rotate) and right-click
+// for the long-press menu.
+function CarHitArea({
+  rect,
+  selected,
+  gestures,
+  onRemove
+}: {
+  rect: CarPosition;
+  selected: boolean;
+  gestures: GestureHandlers;
+  onRemove?: () => void;
+}) {
+  const recognizerRef = useRef<GestureRecognizer | null>(null);
+
+  useEffect(() => {
+    const recognizer = new GestureRecognizer();
+    recognizerRef.current = recognizer;
+    return () => {
+      recognizer.reset();
+      recognizerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (recognizerRef.current) recognizerRef.current.handlers = gestures;
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    // Keeps the moves coming when the pointer runs ahead of the car
+    e.currentTarget.setPointerCapture(e.pointerId);
+    recognizerRef.current?.pointerDown(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    e.stopPropagation();
+    gestures.onChange?.(e.shiftKey
+      ? { pan: { x: 0, y: 0 }, scale: 1, rotation: e.deltaY * 0.005, pointers: 1 }
+      : { pan: { x: 0, y: 0 }, scale: Math.exp(-e.deltaY * 0.002), rotation: 0, pointers: 1 });
+    if (!recognizerRef.current?.active) gestures.onEnd?.();
+  };
+
+  return (
+    <div
+      data-car-hit
+      // Taps here must not reach the page, which would place another car
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        left: rect.x,
+        top: rect.y,
+        width: rect.width,
+        height: rect.height,
+        pointerEvents: 'auto',
+        borderRadius: 12,
+        outline: selected ? '2px solid #00cec9' : 'none',
+        boxShadow: selected ? '0 0 18px rgba(0, 206, 201, 0.7)' : 'none'
+      }}
+    >
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={(e) => recognizerRef.current?.pointerMove(e.pointerId, { x: e.clientX, y: e.clientY })}
+        onPointerUp={(e) => recognizerRef.current?.pointerUp(e.pointerId, { x: e.clientX, y: e.clientY })}
+        onPointerCancel={(e) => recognizerRef.current?.pointerCancel(e.pointerId)}
+        onWheel={handleWheel}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          gestures.onLongPress?.({ x: e.clientX, y: e.clientY });
+        }}
+        style={{
+          width: '100%',
+          height: '100%',
+          cursor: 'grab',
+          touchAction: 'none'
+        }}
+      />
+
+      {/* Remove button */}
+      {onRemove && (
+        <button
+          onClick={(e) => { e.stopPropagation(); onRemove(); }}
+          style={{
+            position: 'absolute',
+            top: 0,
+            right: 0,
+            width: 32,
+            height: 32,
+            borderRadius: '50%',
+            border: '2px solid white',
+            background: 'rgba(231, 76, 60, 0.9)',
+            color: 'white',
+            fontSize: 16,
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            touchAction: 'manipulation',
+            boxShadow: '0 2px 10px rgba(0,0,0,0.3)'
+          }}
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ===== PLACED CAR MENU =====
+function PlacedCarMenu({
+  rect,
+  car,
+  palette,
+  onDuplicate,
+  onCustomize,
+  onRecolor,
+  onDelete
+}: {
+  rect: CarPosition;
+  car: PlacedCar;
+  palette?: number[];
+  onDuplicate?: () => void;
+  onCustomize?: () => void;
+  onRecolor: (color: number) => void;
+  onDelete: () => void;
+}) {
+  const buttonStyle = {
+    padding: '8px 14px',
+    border: 'none',
+    borderRadius: 20,
+    background: 'rgba(255,255,255,0.2)',
+    color: 'white',
+    fontSize: 13,
+    cursor: 'pointer',
+    touchAction: 'manipulation',
+    whiteSpace: 'nowrap'
+  } as const;
+
+  return (
+    <div
+      data-car-hit
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        left: rect.x + rect.width / 2,
+        top: Math.max(10, rect.y - 10),
+        transform: 'translate(-50%, -100%)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 8,
+        padding: 12,
+        borderRadius: 16,
+        background: 'rgba(0,0,0,0.85)',
+        backdropFilter: 'blur(10px)',
+        pointerEvents: 'auto',
+        zIndex: 102
+      }}
+    >
+      {onDuplicate && <button onClick={onDuplicate} style={buttonStyle}>⧉ Duplicate</button>}
+      {onCustomize && <button onClick={onCustomize} style={buttonStyle}>🎨 Customize</button>}
+
+      {palette && (
+        <div style={{ display: 'flex', gap: 6, justifyContent: 'center' }}>
+          {palette.map(color => (
+            <button
+              key={color}
+              onClick={() => onRecolor(color)}
+              aria-label={`Recolor ${toHexColor(color)}`}
+              style={{
+                width: 26,
+                height: 26,
+                borderRadius: '50%',
+                border: color === car.color ? '3px solid white' : '2px solid rgba(255,255,255,0.3)',
+                background: toHexColor(color),
+                cursor: 'pointer',
+                touchAction: 'manipulation'
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      <button onClick={onDelete} style={{ ...buttonStyle, background: 'rgba(231, 76, 60, 0.8)' }}>
+        🗑️ Delete
+      </button>
+    </div>
+  );
+}
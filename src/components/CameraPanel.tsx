@@ -0,0 +1,160 @@
+'use client';
+
+import {
+  FIELD_OF_VIEW_RANGE,
+  RESOLUTION_PRESETS,
+  type CameraCapabilities,
+  type CameraDevice,
+  type CameraSettings,
+  type ResolutionPreset
+} from '@/lib/camera';
+import { DEFAULT_CAMERA_FOV } from '@/lib/ground-plane';
+
+// ===== CAMERA SETTINGS =====
+// Lens picker, zoom, torch, focus/exposure lock and resolution for the open
+// camera. Only what the camera supports is shown. The field of view is a
+// calibration rather than a camera setting: distances and true-to-scale cars
+// are only as right as it is.
+export default function CameraPanel({
+  cameras,
+  deviceId,
+  settings,
+  capabilities,
+  onSelectCamera,
+  onChange,
+  onClose
+}: {
+  cameras: CameraDevice[];
+  deviceId: string | null;
+  settings: CameraSettings;
+  capabilities: CameraCapabilities | null;
+  onSelectCamera: (camera: CameraDevice) => void;
+  onChange: (changes: Partial<CameraSettings>) => void;
+  onClose: () => void;
+}) {
+  const chipStyle = (active: boolean) => ({
+    padding: '8px 14px',
+    border: 'none',
+    borderRadius: 20,
+    background: active ? 'linear-gradient(135deg, #667eea, #764ba2)' : 'rgba(255,255,255,0.1)',
+    color: 'white',
+    fontSize: 13,
+    cursor: 'pointer',
+    touchAction: 'manipulation'
+  } as const);
+
+  const labelStyle = { display: 'block', fontSize: 12, opacity: 0.7, margin: '14px 0 6px' } as const;
+  const zoom = capabilities?.zoom;
+  // What distances use when the lens hasn't been calibrated
+  const autoFov = capabilities?.fieldOfView ?? DEFAULT_CAMERA_FOV;
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      onPointerDown={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        top: 70,
+        left: 15,
+        width: 290,
+        maxWidth: 'calc(100vw - 30px)',
+        maxHeight: '70vh',
+        overflowY: 'auto',
+        background: 'rgba(0,0,0,0.85)',
+        backdropFilter: 'blur(10px)',
+        color: 'white',
+        borderRadius: 20,
+        padding: 18,
+        zIndex: 150
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center' }}>
+        <h3 style={{ flex: 1, margin: 0, fontSize: 17 }}>📷 Camera</h3>
+        <button onClick={onClose} style={chipStyle(false)}>✕</button>
+      </div>
+
+      {cameras.length > 1 && (
+        <>
+          <span style={labelStyle}>Lens</span>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            {cameras.map(camera => (
+              <button
+                key={camera.deviceId}
+                onClick={() => onSelectCamera(camera)}
+                style={{ ...chipStyle(camera.deviceId === deviceId), textAlign: 'left' }}
+              >
+                {camera.facing === 'user' ? '🤳' : '📷'} {camera.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {zoom && (
+        <label style={labelStyle}>
+          Zoom {(settings.zoom ?? zoom.min).toFixed(1)}×
+          <input
+            type="range"
+            min={zoom.min}
+            max={zoom.max}
+            step={zoom.step}
+            value={settings.zoom ?? zoom.min}
+            onChange={(e) => onChange({ zoom: Number(e.target.value) })}
+            style={{ display: 'block', width: '100%', marginTop: 6 }}
+          />
+        </label>
+      )}
+
+      {(capabilities?.torch || capabilities?.focusLock || capabilities?.exposureLock) && (
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 14 }}>
+          {capabilities.torch && (
+            <button onClick={() => onChange({ torch: !settings.torch })} style={chipStyle(settings.torch)}>
+              🔦 Torch
+            </button>
+          )}
+          {capabilities.focusLock && (
+            <button onClick={() => onChange({ focusLocked: !settings.focusLocked })} style={chipStyle(settings.focusLocked)}>
+              🔒 Focus
+            </button>
+          )}
+          {capabilities.exposureLock && (
+            <button
+              onClick={() => onChange({ exposureLocked: !settings.exposureLocked })}
+              style={chipStyle(settings.exposureLocked)}
+            >
+              🔒 Exposure
+            </button>
+          )}
+        </div>
+      )}
+
+      <label style={labelStyle}>
+        Field of view {Math.round(settings.fieldOfView ?? autoFov)}°{settings.fieldOfView === undefined && ' (auto)'}
+        <input
+          type="range"
+          min={FIELD_OF_VIEW_RANGE.min}
+          max={FIELD_OF_VIEW_RANGE.max}
+          step={1}
+          value={settings.fieldOfView ?? autoFov}
+          onChange={(e) => onChange({ fieldOfView: Number(e.target.value) })}
+          style={{ display: 'block', width: '100%', marginTop: 6 }}
+        />
+      </label>
+      {settings.fieldOfView !== undefined && (
+        <button onClick={() => onChange({ fieldOfView: undefined })} style={chipStyle(false)}>
+          Reset to {Math.round(autoFov)}°
+        </button>
+      )}
+
+      <span style={labelStyle}>Resolution</span>
+      <div style={{ display: 'flex', gap: 8 }}>
+        {(Object.keys(RESOLUTION_PRESETS) as ResolutionPreset[]).map(preset => (
+          <button key={preset} onClick={() => onChange({ resolution: preset })} style={chipStyle(settings.resolution === preset)}>
+            {preset}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
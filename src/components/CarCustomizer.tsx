@@ -0,0 +1,144 @@
+'use client';
+
+import type { CarConfig, PlacedCar } from '@/lib/types';
+import {
+  DEFAULT_CAR_CONFIG,
+  PAINT_FINISHES,
+  RIM_SIZES,
+  RIM_STYLES,
+  fromHexColor,
+  toHexColor
+} from '@/lib/car-config';
+
+// ===== CAR CUSTOMIZER =====
+// Paint, finish, wheels, glass and accessories for one placed car. Every
+// change goes straight back to the car, and the scene repaints it in place.
+export default function CarCustomizer({
+  car,
+  palette,
+  onChange,
+  onClose
+}: {
+  car: PlacedCar;
+  palette: number[];
+  onChange: (changes: Partial<Omit<PlacedCar, 'id'>>) => void;
+  onClose: () => void;
+}) {
+  const config = car.config ?? DEFAULT_CAR_CONFIG;
+  const configure = (changes: Partial<CarConfig>) => onChange({ config: { ...config, ...changes } });
+
+  const chipStyle = (active: boolean) => ({
+    padding: '8px 14px',
+    border: 'none',
+    borderRadius: 20,
+    background: active ? 'linear-gradient(135deg, #667eea, #764ba2)' : 'rgba(255,255,255,0.1)',
+    color: 'white',
+    fontSize: 13,
+    cursor: 'pointer',
+    touchAction: 'manipulation',
+    textTransform: 'capitalize'
+  } as const);
+
+  const labelStyle = { display: 'block', fontSize: 12, opacity: 0.7, margin: '14px 0 6px' } as const;
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        left: 15,
+        right: 15,
+        bottom: 30,
+        maxHeight: '60vh',
+        overflowY: 'auto',
+        background: 'rgba(0,0,0,0.85)',
+        backdropFilter: 'blur(10px)',
+        color: 'white',
+        borderRadius: 20,
+        padding: 20,
+        zIndex: 150
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center' }}>
+        <h3 style={{ flex: 1, margin: 0 }}>🎨 Customize</h3>
+        <button onClick={onClose} style={chipStyle(false)}>✕</button>
+      </div>
+
+      <span style={labelStyle}>Paint</span>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+        {palette.map(color => (
+          <button
+            key={color}
+            onClick={() => onChange({ color })}
+            aria-label={`Paint ${toHexColor(color)}`}
+            style={{
+              width: 30,
+              height: 30,
+              borderRadius: '50%',
+              border: color === car.color ? '3px solid white' : '2px solid rgba(255,255,255,0.3)',
+              background: toHexColor(color),
+              cursor: 'pointer',
+              touchAction: 'manipulation'
+            }}
+          />
+        ))}
+        <input
+          type="color"
+          value={toHexColor(car.color)}
+          onChange={(e) => onChange({ color: fromHexColor(e.target.value) })}
+          aria-label="Custom paint color"
+          style={{ width: 36, height: 32, border: 'none', background: 'none', cursor: 'pointer' }}
+        />
+      </div>
+
+      <span style={labelStyle}>Finish</span>
+      <div style={{ display: 'flex', gap: 8 }}>
+        {PAINT_FINISHES.map(finish => (
+          <button key={finish} onClick={() => configure({ finish })} style={chipStyle(config.finish === finish)}>
+            {finish}
+          </button>
+        ))}
+      </div>
+
+      <span style={labelStyle}>Rims</span>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+        {RIM_STYLES.map(rimStyle => (
+          <button key={rimStyle} onClick={() => configure({ rimStyle })} style={chipStyle(config.rimStyle === rimStyle)}>
+            {rimStyle}
+          </button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        {RIM_SIZES.map(rimSize => (
+          <button key={rimSize} onClick={() => configure({ rimSize })} style={chipStyle(config.rimSize === rimSize)}>
+            {rimSize}
+          </button>
+        ))}
+      </div>
+
+      <label style={labelStyle}>
+        Window tint {Math.round(config.tint * 100)}%
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={config.tint}
+          onChange={(e) => configure({ tint: Number(e.target.value) })}
+          style={{ display: 'block', width: '100%', marginTop: 6 }}
+        />
+      </label>
+
+      <span style={labelStyle}>Accessories</span>
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button onClick={() => configure({ roofRack: !config.roofRack })} style={chipStyle(config.roofRack)}>
+          Roof rack
+        </button>
+        <button onClick={() => configure({ spoiler: !config.spoiler })} style={chipStyle(config.spoiler)}>
+          Spoiler
+        </button>
+      </div>
+    </div>
+  );
+}
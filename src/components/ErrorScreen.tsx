@@ -0,0 +1,191 @@
+'use client';
+
+import type { AppError, AppErrorKind } from '@/lib/errors';
+
+interface Recovery {
+  icon: string;
+  title: string;
+  steps: string[];
+  retryLabel: string;
+  // Without a camera, a photo or video file still works
+  offerFile?: boolean;
+}
+
+const RECOVERY: Record<AppErrorKind, Recovery> = {
+  'permission-denied': {
+    icon: '🚫',
+    title: 'Camera Access Needed',
+    steps: [
+      'Tap the lock or camera icon in the address bar and allow the camera.',
+      'On iPhone: Settings → Safari → Camera → Allow.',
+      'On Android: Chrome → Settings → Site settings → Camera.'
+    ],
+    retryLabel: 'Try Again',
+    offerFile: true
+  },
+  'no-camera': {
+    icon: '📷',
+    title: 'No Camera Found',
+    steps: [
+      'Connect a camera, or open the app on a phone or tablet.',
+      'If a camera is connected, check it is enabled in your system settings.'
+    ],
+    retryLabel: 'Look Again',
+    offerFile: true
+  },
+  'camera-in-use': {
+    icon: '📹',
+    title: 'Camera Is Busy',
+    steps: [
+      'Close other apps or browser tabs that use the camera (video calls, other camera apps).',
+      'Then try again.'
+    ],
+    retryLabel: 'Try Again',
+    offerFile: true
+  },
+  'insecure-context': {
+    icon: '🔒',
+    title: 'Secure Connection Needed',
+    steps: [
+      'Browsers only allow the camera on https:// pages or on localhost.',
+      'Open this app through its https:// address.'
+    ],
+    retryLabel: 'Check Again',
+    offerFile: true
+  },
+  'model-download': {
+    icon: '📡',
+    title: 'Car Detector Didn’t Download',
+    steps: [
+      'Check your internet connection and try again.',
+      'After one successful download it is kept on this device and works offline.'
+    ],
+    retryLabel: 'Retry Download'
+  },
+  'backend-init': {
+    icon: '🧠',
+    title: 'AI Engine Failed to Start',
+    steps: [
+      'Your browser couldn’t start the graphics-accelerated AI engine.',
+      'Compatibility mode runs it on the processor instead: slower, but it works everywhere.'
+    ],
+    retryLabel: 'Use Compatibility Mode'
+  },
+  'unsupported-media': {
+    icon: '🎞️',
+    title: 'Can’t Open That File',
+    steps: [
+      'Pick a photo (JPEG, PNG, WebP) or a video clip (MP4, WebM, MOV).',
+      'Some phone formats like HEIC or HEVC only open in certain browsers.'
+    ],
+    retryLabel: 'Choose Another File'
+  },
+  detection: {
+    icon: '⚠️',
+    title: 'Detection Stopped Working',
+    steps: ['Restarting the car detector usually fixes this.'],
+    retryLabel: 'Restart Detector'
+  },
+  unknown: {
+    icon: '⚠️',
+    title: 'Something Went Wrong',
+    steps: ['Try again. If it keeps happening, reload the page.'],
+    retryLabel: 'Try Again'
+  }
+};
+
+// ===== ERROR SCREEN =====
+// A recovery screen per kind of failure. Retry re-runs only what failed, so
+// placed cars, scenes and settings survive; reloading is the last resort.
+export default function ErrorScreen({
+  error,
+  onRetry,
+  onOpenFile
+}: {
+  error: AppError;
+  onRetry: () => void;
+  onOpenFile?: () => void;
+}) {
+  const recovery = RECOVERY[error.kind];
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        color: 'white',
+        padding: 20,
+        textAlign: 'center',
+        zIndex: 1000
+      }}
+    >
+      <div style={{ fontSize: 60, marginBottom: 20 }}>{recovery.icon}</div>
+      <h2>{recovery.title}</h2>
+      <p style={{ opacity: 0.7, marginTop: 10 }}>{error.message}</p>
+
+      <ol style={{ marginTop: 20, maxWidth: 420, textAlign: 'left', paddingLeft: 22, lineHeight: 1.5, fontSize: 15 }}>
+        {recovery.steps.map(step => <li key={step} style={{ marginBottom: 6 }}>{step}</li>)}
+      </ol>
+
+      <button
+        onClick={onRetry}
+        style={{
+          marginTop: 30,
+          padding: '22px 50px',
+          background: 'linear-gradient(135deg, #667eea, #764ba2)',
+          border: 'none',
+          borderRadius: 50,
+          color: 'white',
+          fontSize: 18,
+          cursor: 'pointer',
+          touchAction: 'manipulation'
+        }}
+      >
+        {recovery.retryLabel}
+      </button>
+
+      {recovery.offerFile && onOpenFile && (
+        <button
+          onClick={onOpenFile}
+          style={{
+            marginTop: 16,
+            padding: '14px 30px',
+            background: 'rgba(255,255,255,0.15)',
+            border: 'none',
+            borderRadius: 50,
+            color: 'white',
+            fontSize: 15,
+            cursor: 'pointer',
+            touchAction: 'manipulation'
+          }}
+        >
+          🖼️ Use a photo or video instead
+        </button>
+      )}
+
+      <button
+        onClick={() => window.location.reload()}
+        style={{
+          marginTop: 16,
+          padding: '10px 20px',
+          background: 'none',
+          border: 'none',
+          color: 'white',
+          opacity: 0.6,
+          fontSize: 14,
+          textDecoration: 'underline',
+          cursor: 'pointer'
+        }}
+      >
+        Reload page
+      </button>
+    </div>
+  );
+}
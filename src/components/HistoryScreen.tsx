@@ -0,0 +1,256 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { VEHICLE_CLASSES } from '@/lib/detectors';
+import { requestLocationAccess, scanHistory, type ScanRecord } from '@/lib/scan-history';
+
+// ===== SCAN HISTORY =====
+// Browses the scan log: filter by vehicle type, edit notes, reopen a scan
+// in the 3D viewer or delete it.
+export default function HistoryScreen({
+  onOpen,
+  onClose
+}: {
+  // Left out when there's no 3D viewer to open records in
+  onOpen?: (record: ScanRecord) => void;
+  onClose: () => void;
+}) {
+  const [filter, setFilter] = useState<string | null>(null);
+  // The list last loaded, with an object URL per thumbnail; while it's for
+  // another filter the new one is still loading
+  const [loaded, setLoaded] = useState<{
+    filter: string | null;
+    records: ScanRecord[];
+    thumbnails: Record<number, string>;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const records = loaded?.filter === filter ? loaded.records : null;
+  const thumbnails = loaded?.thumbnails ?? {};
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    scanHistory()
+      .then(history => history.list(filter ?? undefined))
+      .then(list => {
+        if (cancelled) return;
+        const byId: Record<number, string> = {};
+        list.forEach(record => {
+          byId[record.id] = URL.createObjectURL(record.thumbnail);
+          urls.push(byId[record.id]);
+        });
+        setLoaded({ filter, records: list, thumbnails: byId });
+      })
+      .catch(err => {
+        console.error('History error:', err);
+        if (!cancelled) setError('Scan history is not available in this browser.');
+      });
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [filter]);
+
+  const updateRecords = (update: (records: ScanRecord[]) => ScanRecord[]) => {
+    setLoaded(prev => prev && { ...prev, records: update(prev.records) });
+  };
+
+  const deleteRecord = async (id: number) => {
+    try {
+      await (await scanHistory()).delete(id);
+      updateRecords(records => records.filter(record => record.id !== id));
+    } catch (err) {
+      console.error('Failed to delete scan:', err);
+    }
+  };
+
+  const saveNotes = async (id: number, notes: string) => {
+    try {
+      await (await scanHistory()).update(id, { notes });
+      updateRecords(records => records.map(record => (record.id === id ? { ...record, notes } : record)));
+    } catch (err) {
+      console.error('Failed to save notes:', err);
+    }
+  };
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
+        color: 'white',
+        zIndex: 200,
+        display: 'flex',
+        flexDirection: 'column'
+      }}
+    >
+      <div style={{ padding: '22px 20px 10px', display: 'flex', alignItems: 'center', gap: 12 }}>
+        <h2 style={{ flex: 1, margin: 0, fontSize: 22 }}>🕘 Scan History</h2>
+        <button
+          onClick={() => requestLocationAccess()}
+          style={{
+            padding: '8px 14px',
+            border: 'none',
+            borderRadius: 20,
+            background: 'rgba(255,255,255,0.15)',
+            color: 'white',
+            fontSize: 13,
+            cursor: 'pointer',
+            touchAction: 'manipulation'
+          }}
+        >
+          📍 Tag location
+        </button>
+      </div>
+
+      {/* Type filter */}
+      <div style={{ display: 'flex', gap: 8, padding: '0 20px 12px', overflowX: 'auto' }}>
+        {[null, ...VEHICLE_CLASSES].map(type => (
+          <button
+            key={type ?? 'all'}
+            onClick={() => setFilter(type)}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: 20,
+              background: filter === type
+                ? 'linear-gradient(135deg, #667eea, #764ba2)'
+                : 'rgba(255,255,255,0.1)',
+              color: 'white',
+              fontSize: 14,
+              cursor: 'pointer',
+              whiteSpace: 'nowrap',
+              touchAction: 'manipulation'
+            }}
+          >
+            {type ? type.toUpperCase() : 'ALL'}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '0 20px 120px' }}>
+        {error && <p style={{ opacity: 0.7, textAlign: 'center' }}>{error}</p>}
+        {!error && records === null && <p style={{ opacity: 0.7, textAlign: 'center' }}>Loading...</p>}
+        {records?.length === 0 && (
+          <p style={{ opacity: 0.7, textAlign: 'center', marginTop: 40 }}>
+            No scans yet. Scanned vehicles are saved here when you start AR.
+          </p>
+        )}
+
+        {records?.map(record => (
+          <div
+            key={record.id}
+            style={{
+              display: 'flex',
+              gap: 12,
+              padding: 12,
+              marginBottom: 12,
+              borderRadius: 16,
+              background: 'rgba(255,255,255,0.08)'
+            }}
+          >
+            {thumbnails[record.id] && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={thumbnails[record.id]}
+                alt={record.vehicleType}
+                style={{ width: 96, height: 72, objectFit: 'cover', borderRadius: 10, flexShrink: 0 }}
+              />
+            )}
+
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontWeight: 'bold' }}>
+                {record.vehicleType.toUpperCase()} {Math.round(record.score * 100)}%
+              </div>
+              <div style={{ fontSize: 12, opacity: 0.7, marginTop: 2 }}>
+                {new Date(record.timestamp).toLocaleString()}
+                {record.location && (
+                  ` • 📍 ${record.location.latitude.toFixed(4)}, ${record.location.longitude.toFixed(4)}`
+                )}
+              </div>
+              <textarea
+                defaultValue={record.notes}
+                placeholder="Add a note..."
+                onBlur={(e) => {
+                  if (e.target.value !== record.notes) saveNotes(record.id, e.target.value);
+                }}
+                rows={2}
+                style={{
+                  width: '100%',
+                  marginTop: 8,
+                  padding: 8,
+                  border: 'none',
+                  borderRadius: 8,
+                  background: 'rgba(0,0,0,0.3)',
+                  color: 'white',
+                  fontSize: 13,
+                  resize: 'none'
+                }}
+              />
+              <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                {onOpen && (
+                  <button
+                    onClick={() => onOpen(record)}
+                    style={{
+                      padding: '8px 14px',
+                      border: 'none',
+                      borderRadius: 20,
+                      background: 'rgba(255,255,255,0.2)',
+                      color: 'white',
+                      fontSize: 13,
+                      cursor: 'pointer',
+                      touchAction: 'manipulation'
+                    }}
+                  >
+                    🧊 View in 3D
+                  </button>
+                )}
+                <button
+                  onClick={() => deleteRecord(record.id)}
+                  style={{
+                    padding: '8px 14px',
+                    border: 'none',
+                    borderRadius: 20,
+                    background: 'rgba(231, 76, 60, 0.8)',
+                    color: 'white',
+                    fontSize: 13,
+                    cursor: 'pointer',
+                    touchAction: 'manipulation'
+                  }}
+                >
+                  🗑️ Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={onClose}
+        style={{
+          position: 'absolute',
+          bottom: 30,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          padding: '20px 50px',
+          fontSize: 20,
+          fontWeight: 'bold',
+          border: 'none',
+          borderRadius: 55,
+          background: 'linear-gradient(135deg, #e74c3c, #c0392b)',
+          color: 'white',
+          cursor: 'pointer',
+          boxShadow: '0 6px 25px rgba(0,0,0,0.4)',
+          touchAction: 'manipulation',
+          minWidth: 200
+        }}
+      >
+        ✕ Close
+      </button>
+    </div>
+  );
+}
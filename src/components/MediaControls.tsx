@@ -0,0 +1,143 @@
+'use client';
+
+import { useEffect, useState, type RefObject } from 'react';
+import { DEFAULT_FRAME_RATE, formatTimecode, seekTo, stepFrame, type MediaFile } from '@/lib/media-file';
+
+// A blocked or interrupted play() just leaves the clip paused
+function togglePlayback(video: HTMLVideoElement) {
+  if (video.paused) video.play().catch(() => {});
+  else video.pause();
+}
+
+// Keys typed into a field belong to the field; a range slider is left to us
+function isTextEntry(target: EventTarget | null): boolean {
+  if (target instanceof HTMLInputElement) return target.type !== 'range';
+  return target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+}
+
+// ===== MEDIA CONTROLS =====
+// Playback for a photo or clip opened in place of the camera: play/pause,
+// scrubbing and single-frame steps (also ←/→ and space on a keyboard).
+// Detection runs on whatever frame is showing, paused or not.
+export default function MediaControls({
+  media,
+  videoRef,
+  onClose
+}: {
+  media: MediaFile;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  onClose: () => void;
+}) {
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const isVideo = media.kind === 'video';
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isVideo) return;
+
+    const sync = () => {
+      setPlaying(!video.paused);
+      setTime(video.currentTime);
+      setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+    };
+    const events = ['play', 'pause', 'timeupdate', 'seeked', 'durationchange', 'loadedmetadata'];
+    events.forEach(event => video.addEventListener(event, sync));
+    sync();
+
+    const onKey = (e: KeyboardEvent) => {
+      if (isTextEntry(e.target)) return;
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        e.preventDefault();
+        stepFrame(video, e.key === 'ArrowLeft' ? -1 : 1);
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        togglePlayback(video);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+
+    return () => {
+      events.forEach(event => video.removeEventListener(event, sync));
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [media, videoRef, isVideo]);
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (video) togglePlayback(video);
+  };
+
+  const step = (frames: number) => {
+    if (videoRef.current) stepFrame(videoRef.current, frames);
+  };
+
+  const buttonStyle = {
+    padding: '8px 12px',
+    border: 'none',
+    borderRadius: 20,
+    background: 'rgba(255,255,255,0.15)',
+    color: 'white',
+    fontSize: 15,
+    cursor: 'pointer',
+    touchAction: 'manipulation'
+  } as const;
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      onPointerDown={(e) => e.stopPropagation()}
+      style={{
+        width: '100%',
+        maxWidth: 480,
+        background: 'rgba(0,0,0,0.75)',
+        backdropFilter: 'blur(10px)',
+        color: 'white',
+        borderRadius: 20,
+        padding: '10px 14px'
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+        <span style={{ flex: 1, fontSize: 13, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {isVideo ? '🎞️' : '🖼️'} {media.name}
+        </span>
+        <button onClick={onClose} style={{ ...buttonStyle, fontSize: 13 }}>
+          📷 Back to camera
+        </button>
+      </div>
+
+      {isVideo && (
+        <>
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={1 / DEFAULT_FRAME_RATE}
+            value={Math.min(time, duration)}
+            onChange={(e) => {
+              // Follow the thumb now rather than once the seek lands
+              setTime(Number(e.target.value));
+              if (videoRef.current) seekTo(videoRef.current, Number(e.target.value));
+            }}
+            aria-label="Scrub"
+            style={{ display: 'block', width: '100%', margin: '10px 0 6px' }}
+          />
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <button onClick={() => step(-1)} aria-label="Previous frame" style={buttonStyle}>⏮</button>
+            <button onClick={togglePlay} aria-label={playing ? 'Pause' : 'Play'} style={buttonStyle}>
+              {playing ? '⏸' : '▶️'}
+            </button>
+            <button onClick={() => step(1)} aria-label="Next frame" style={buttonStyle}>⏭</button>
+            <span style={{ marginLeft: 'auto', fontSize: 13, fontVariantNumeric: 'tabular-nums', opacity: 0.8 }}>
+              {formatTimecode(time)} / {formatTimecode(duration)}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
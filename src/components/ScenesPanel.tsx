@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import type { GroundPlane } from '@/lib/ground-plane';
+import type { PlacedCar } from '@/lib/types';
+import { downloadBlob } from '@/lib/capture';
+import {
+  deleteScene,
+  exportScene,
+  listScenes,
+  parseScene,
+  saveScene,
+  storeScene,
+  type SavedScene
+} from '@/lib/scenes';
+
+// ===== SAVED SCENES =====
+// Names, saves and restores Place Mode layouts, and moves them between
+// devices as JSON files.
+export default function ScenesPanel({
+  placedCars,
+  ground,
+  onLoad,
+  onClose
+}: {
+  placedCars: PlacedCar[];
+  ground: GroundPlane;
+  onLoad: (scene: SavedScene) => void;
+  onClose: () => void;
+}) {
+  const [scenes, setScenes] = useState<SavedScene[]>(() => listScenes());
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed || placedCars.length === 0) return;
+    try {
+      saveScene(trimmed, placedCars, ground);
+      setScenes(listScenes());
+      setName('');
+      setMessage(`Saved "${trimmed}"`);
+    } catch (err) {
+      console.error('Failed to save scene:', err);
+      setMessage('Could not save: storage is full or unavailable');
+    }
+  };
+
+  const handleDelete = (sceneName: string) => {
+    deleteScene(sceneName);
+    setScenes(listScenes());
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const scene = parseScene(await file.text());
+      storeScene(scene);
+      setScenes(listScenes());
+      setMessage(`Imported "${scene.name}"`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not import scene');
+    }
+  };
+
+  const buttonStyle = {
+    padding: '8px 14px',
+    border: 'none',
+    borderRadius: 20,
+    background: 'rgba(255,255,255,0.2)',
+    color: 'white',
+    fontSize: 13,
+    cursor: 'pointer',
+    touchAction: 'manipulation'
+  } as const;
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        left: 15,
+        right: 15,
+        bottom: 30,
+        maxHeight: '70vh',
+        overflowY: 'auto',
+        background: 'rgba(0,0,0,0.85)',
+        backdropFilter: 'blur(10px)',
+        color: 'white',
+        borderRadius: 20,
+        padding: 20,
+        zIndex: 150
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 14 }}>
+        <h3 style={{ flex: 1, margin: 0 }}>💾 Scenes</h3>
+        <button onClick={onClose} style={buttonStyle}>✕</button>
+      </div>
+
+      {/* Save current layout */}
+      <div style={{ display: 'flex', gap: 8, marginBottom: 14 }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={placedCars.length > 0 ? 'Scene name' : 'Place some cars first'}
+          disabled={placedCars.length === 0}
+          style={{
+            flex: 1,
+            padding: '10px 14px',
+            border: 'none',
+            borderRadius: 20,
+            background: 'rgba(255,255,255,0.1)',
+            color: 'white',
+            fontSize: 14
+          }}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim() || placedCars.length === 0}
+          style={{ ...buttonStyle, background: 'linear-gradient(135deg, #00b894, #00cec9)' }}
+        >
+          Save
+        </button>
+      </div>
+
+      {message && <p style={{ margin: '0 0 12px', fontSize: 13, opacity: 0.8 }}>{message}</p>}
+
+      {scenes.length === 0 && <p style={{ opacity: 0.6, fontSize: 14 }}>No saved scenes yet.</p>}
+
+      {scenes.map(scene => (
+        <div
+          key={scene.name}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '10px 0',
+            borderTop: '1px solid rgba(255,255,255,0.1)'
+          }}
+        >
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis' }}>{scene.name}</div>
+            <div style={{ fontSize: 12, opacity: 0.6 }}>
+              🚗 {scene.cars.length} • {new Date(scene.savedAt).toLocaleDateString()}
+            </div>
+          </div>
+          <button onClick={() => onLoad(scene)} style={buttonStyle}>Load</button>
+          <button
+            onClick={() => downloadBlob(exportScene(scene), `${scene.name.replace(/[^\w-]+/g, '_')}.scene.json`)}
+            style={buttonStyle}
+          >
+            Export
+          </button>
+          <button
+            onClick={() => handleDelete(scene.name)}
+            style={{ ...buttonStyle, background: 'rgba(231, 76, 60, 0.8)' }}
+          >
+            🗑️
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        style={{ ...buttonStyle, marginTop: 12, width: '100%' }}
+      >
+        📂 Import scene file
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
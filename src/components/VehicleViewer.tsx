@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { resolveViewerSource } from '@/lib/three/model-catalog';
+
+// ===== VIEW IN 3D =====
+// Full-screen <model-viewer> for the scanned vehicle. The web component is
+// bundled with the app rather than pulled from a CDN, so it works offline.
+export default function VehicleViewer({
+  vehicleType,
+  color,
+  label,
+  onClose
+}: {
+  vehicleType: string;
+  color: number;
+  label: string;
+  onClose: () => void;
+}) {
+  const viewerRef = useRef<HTMLElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let revoke: (() => void) | undefined;
+
+    const load = async () => {
+      await import('@google/model-viewer');
+      const source = await resolveViewerSource(vehicleType, color);
+      if (cancelled) {
+        source.revoke?.();
+        return;
+      }
+      revoke = source.revoke;
+      setSrc(source.url);
+    };
+
+    load().catch(err => console.error('Viewer error:', err));
+
+    return () => {
+      cancelled = true;
+      revoke?.();
+    };
+  }, [vehicleType, color]);
+
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+
+    const handleProgress = (e: Event) => {
+      const { totalProgress } = (e as CustomEvent<{ totalProgress: number }>).detail;
+      setProgress(totalProgress);
+      if (totalProgress >= 1) setReady(true);
+    };
+    const handleLoad = () => setReady(true);
+
+    viewer.addEventListener('progress', handleProgress);
+    viewer.addEventListener('load', handleLoad);
+    return () => {
+      viewer.removeEventListener('progress', handleProgress);
+      viewer.removeEventListener('load', handleLoad);
+    };
+  }, [src]);
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        inset: 0,
+        background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
+        zIndex: 200,
+        display: 'flex',
+        flexDirection: 'column'
+      }}
+    >
+      {src && (
+        <model-viewer
+          ref={viewerRef}
+          src={src}
+          alt={label}
+          camera-controls
+          auto-rotate
+          ar
+          shadow-intensity="1"
+          style={{ flex: 1, width: '100%' }}
+        />
+      )}
+
+      {!ready && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          color: 'white',
+          textAlign: 'center'
+        }}>
+          <div style={{
+            width: 50,
+            height: 50,
+            margin: '0 auto',
+            border: '4px solid rgba(255,255,255,0.2)',
+            borderTopColor: '#667eea',
+            borderRadius: '50%',
+            animation: 'spin 1s linear infinite'
+          }} />
+          <p style={{ marginTop: 15, opacity: 0.7, fontSize: 14 }}>
+            Loading 3D model{progress > 0 ? ` ${Math.round(progress * 100)}%` : '...'}
+          </p>
+          <style>{`
+            @keyframes spin { to { transform: rotate(360deg); } }
+          `}</style>
+        </div>
+      )}
+
+      <div style={{
+        position: 'absolute',
+        top: 22,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        background: 'rgba(0,0,0,0.6)',
+        color: 'white',
+        padding: '12px 24px',
+        borderRadius: 30,
+        fontSize: 16,
+        fontWeight: 'bold',
+        whiteSpace: 'nowrap'
+      }}>
+        🧊 {label}
+      </div>
+
+      <button
+        onClick={onClose}
+        style={{
+          position: 'absolute',
+          bottom: 30,
+          left: '50%',
+          transform: 'translateX(-50%)',
+          padding: '20px 50px',
+          fontSize: 20,
+          fontWeight: 'bold',
+          border: 'none',
+          borderRadius: 55,
+          background: 'linear-gradient(135deg, #e74c3c, #c0392b)',
+          color: 'white',
+          cursor: 'pointer',
+          boxShadow: '0 6px 25px rgba(0,0,0,0.4)',
+          touchAction: 'manipulation',
+          minWidth: 200
+        }}
+      >
+        ✕ Close
+      </button>
+    </div>
+  );
+}
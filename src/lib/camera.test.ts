@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  applyCameraSettings,
+  cameraCapabilities,
+  listCameras,
+  loadCameraSettings,
+  openCamera,
+  pinchZoom,
+  preferredCamera,
+  saveCameraSettings,
+  setPreferredCamera
+} from './camera';
+
+function fakeTrack(capabilities: object) {
+  return {
+    getCapabilities: () => capabilities,
+    applyConstraints: vi.fn(async () => {})
+  } as unknown as MediaStreamTrack & { applyConstraints: ReturnType<typeof vi.fn> };
+}
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value)
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('pinchZoom', () => {
+  const range = { min: 1, max: 8 };
+
+  it('multiplies the zoom by the change in finger spread', () => {
+    expect(pinchZoom(2, 1.5, range)).toBe(3);
+    expect(pinchZoom(2, 0.5, range)).toBe(1);
+  });
+
+  it('stays within what the lens can do', () => {
+    expect(pinchZoom(6, 2, range)).toBe(8);
+    expect(pinchZoom(1.2, 0.5, range)).toBe(1);
+  });
+});
+
+describe('cameraCapabilities', () => {
+  it('reads zoom, torch and the lockable modes', () => {
+    const track = fakeTrack({
+      zoom: { min: 1, max: 10 },
+      torch: true,
+      focusMode: ['continuous', 'manual'],
+      exposureMode: ['continuous']
+    });
+
+    expect(cameraCapabilities(track)).toEqual({
+      zoom: { min: 1, max: 10, step: 0.1 },
+      torch: true,
+      focusLock: true,
+      exposureLock: false
+    });
+  });
+
+  it('treats a zoom range with nowhere to go as no zoom', () => {
+    expect(cameraCapabilities(fakeTrack({ zoom: { min: 1, max: 1 } })).zoom).toBeUndefined();
+  });
+});
+
+describe('applyCameraSettings', () => {
+  it('clamps the zoom and sends each supported extra in its own set', async () => {
+    const track = fakeTrack({ zoom: { min: 1, max: 4 }, torch: true, focusMode: ['continuous', 'single-shot'] });
+    await applyCameraSettings(track, { ...DEFAULT_CAMERA_SETTINGS, resolution: '720p', zoom: 9, torch: true, focusLocked: true });
+
+    expect(track.applyConstraints).toHaveBeenCalledWith({
+      width: { ideal: 1280 },
+      height: { ideal: 720 },
+      advanced: [{ zoom: 4 }, { torch: true }, { focusMode: 'single-shot' }]
+    });
+  });
+
+  it('leaves out what the camera cannot do', async () => {
+    const track = fakeTrack({});
+    await applyCameraSettings(track, { ...DEFAULT_CAMERA_SETTINGS, zoom: 2, torch: true });
+
+    expect(track.applyConstraints.mock.calls[0][0].advanced).toEqual([]);
+  });
+});
+
+describe('stored settings', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('remembers settings per lens and defaults the rest', () => {
+    saveCameraSettings('back', { ...DEFAULT_CAMERA_SETTINGS, zoom: 2, torch: true });
+
+    expect(loadCameraSettings('back')).toMatchObject({ zoom: 2, torch: true });
+    expect(loadCameraSettings('front')).toEqual(DEFAULT_CAMERA_SETTINGS);
+    expect(loadCameraSettings(undefined)).toEqual(DEFAULT_CAMERA_SETTINGS);
+  });
+
+  it('remembers the lens picked for each direction', () => {
+    setPreferredCamera('environment', 'wide');
+    setPreferredCamera('user', 'selfie');
+
+    expect(preferredCamera('environment')).toBe('wide');
+    expect(preferredCamera('user')).toBe('selfie');
+  });
+
+  it('falls back to defaults when storage holds garbage', () => {
+    localStorage.setItem('car-ar-scanner:camera', '{not json');
+
+    expect(loadCameraSettings('back')).toEqual(DEFAULT_CAMERA_SETTINGS);
+  });
+});
+
+describe('listCameras', () => {
+  it('keeps video inputs and tells their direction from the label', async () => {
+    vi.stubGlobal('navigator', {
+      mediaDevices: {
+        enumerateDevices: async () => [
+          { kind: 'audioinput', deviceId: 'mic', label: 'Microphone' },
+          { kind: 'videoinput', deviceId: 'a', label: 'Back Camera' },
+          { kind: 'videoinput', deviceId: 'b', label: 'Front Camera' },
+          { kind: 'videoinput', deviceId: 'c', label: '' }
+        ]
+      }
+    });
+
+    expect(await listCameras()).toEqual([
+      { deviceId: 'a', label: 'Back Camera', facing: 'environment' },
+      { deviceId: 'b', label: 'Front Camera', facing: 'user' },
+      { deviceId: 'c', label: 'Camera 3', facing: undefined }
+    ]);
+  });
+});
+
+describe('openCamera', () => {
+  it('falls back to the facing direction when the saved lens is gone', async () => {
+    const getUserMedia = vi.fn(async (constraints: MediaStreamConstraints) => {
+      const video = constraints.video as MediaTrackConstraints;
+      if (video.deviceId) throw new DOMException('Gone', 'OverconstrainedError');
+      return 'stream' as unknown as MediaStream;
+    });
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia } });
+
+    expect(await openCamera('environment', 'unplugged', '1080p')).toBe('stream');
+    expect(getUserMedia).toHaveBeenLastCalledWith({
+      video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    });
+  });
+
+  it('does not retry after the user denied access', async () => {
+    const getUserMedia = vi.fn(async () => {
+      throw new DOMException('Denied', 'NotAllowedError');
+    });
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia } });
+
+    await expect(openCamera('environment', 'back', '1080p')).rejects.toThrow('Denied');
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,228 @@
+export type CameraFacing = 'environment' | 'user';
+
+export type ResolutionPreset = '720p' | '1080p' | '4k';
+
+export const RESOLUTION_PRESETS: Record<ResolutionPreset, { width: number; height: number }> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '4k': { width: 3840, height: 2160 }
+};
+
+export interface CameraSettings {
+  resolution: ResolutionPreset;
+  // Optical/digital zoom factor; undefined leaves the camera's default
+  zoom?: number;
+  torch: boolean;
+  // Hold focus / exposure where they are instead of adjusting continuously
+  focusLocked: boolean;
+  exposureLocked: boolean;
+  // Degrees across the long side of the frame at 1x, as measured for this
+  // lens; undefined uses what the camera reports, or DEFAULT_CAMERA_FOV
+  fieldOfView?: number;
+}
+
+// Range the field of view can be corrected within, from tele-ish main
+// cameras to ultra-wides
+export const FIELD_OF_VIEW_RANGE = { min: 45, max: 120 };
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  resolution: '1080p',
+  torch: false,
+  focusLocked: false,
+  exposureLocked: false
+};
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+  facing?: CameraFacing;
+}
+
+// What the open camera can do; a missing zoom or false flag means unsupported
+export interface CameraCapabilities {
+  zoom?: { min: number; max: number; step: number };
+  torch: boolean;
+  focusLock: boolean;
+  exposureLock: boolean;
+  // Field of view the camera reports, see reportedFieldOfView
+  fieldOfView?: number;
+}
+
+// The Image Capture extensions to track capabilities and constraints, which
+// the DOM typings don't include yet
+interface ImageTrackCapabilities extends MediaTrackCapabilities {
+  zoom?: { min: number; max: number; step?: number };
+  torch?: boolean;
+  focusMode?: string[];
+  exposureMode?: string[];
+}
+
+type ImageTrackConstraints = MediaTrackConstraintSet & {
+  zoom?: number;
+  torch?: boolean;
+  focusMode?: string;
+  exposureMode?: string;
+};
+
+const STORAGE_KEY = 'car-ar-scanner:camera';
+
+interface StoredCameras {
+  // Settings by deviceId
+  devices: Record<string, CameraSettings>;
+  // The lens last picked for each direction
+  preferred: Partial<Record<CameraFacing, string>>;
+}
+
+function readStored(): StoredCameras {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return { devices: stored.devices ?? {}, preferred: stored.preferred ?? {} };
+  } catch {
+    return { devices: {}, preferred: {} };
+  }
+}
+
+function writeStored(stored: StoredCameras) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or disabled: settings just won't survive a reload
+  }
+}
+
+export function loadCameraSettings(deviceId: string | undefined): CameraSettings {
+  const stored = deviceId ? readStored().devices[deviceId] : undefined;
+  return { ...DEFAULT_CAMERA_SETTINGS, ...stored };
+}
+
+export function saveCameraSettings(deviceId: string, settings: CameraSettings) {
+  const stored = readStored();
+  writeStored({ ...stored, devices: { ...stored.devices, [deviceId]: settings } });
+}
+
+export function preferredCamera(facing: CameraFacing): string | undefined {
+  return readStored().preferred[facing];
+}
+
+export function setPreferredCamera(facing: CameraFacing, deviceId: string) {
+  const stored = readStored();
+  writeStored({ ...stored, preferred: { ...stored.preferred, [facing]: deviceId } });
+}
+
+function facingFromLabel(label: string): CameraFacing | undefined {
+  if (/back|rear|environment|world/i.test(label)) return 'environment';
+  if (/front|user|face/i.test(label)) return 'user';
+  return undefined;
+}
+
+// Every camera on the device. Labels are only filled in once the user has
+// granted camera access, so call this after a stream is open.
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => {
+      // Chrome reports facingMode on the device itself; elsewhere the label is all there is
+      const capabilities = 'getCapabilities' in device
+        ? (device as InputDeviceInfo).getCapabilities()
+        : undefined;
+      const facing = (capabilities?.facingMode?.[0] as CameraFacing | undefined) ?? facingFromLabel(device.label);
+      return { deviceId: device.deviceId, label: device.label || `Camera ${i + 1}`, facing };
+    });
+}
+
+// Opens a camera, preferring `deviceId` and falling back to any camera
+// facing `facing` if that lens is gone
+export async function openCamera(
+  facing: CameraFacing,
+  deviceId: string | undefined,
+  resolution: ResolutionPreset
+): Promise<MediaStream> {
+  const { width, height } = RESOLUTION_PRESETS[resolution];
+  const size = { width: { ideal: width }, height: { ideal: height } };
+
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        video: { deviceId: { exact: deviceId }, ...size },
+        audio: false
+      });
+    } catch (err) {
+      // Permission problems won't go away by asking for another lens
+      if (err instanceof DOMException && err.name === 'NotAllowedError') throw err;
+    }
+  }
+
+  return navigator.mediaDevices.getUserMedia({
+    video: { facingMode: facing, ...size },
+    audio: false
+  });
+}
+
+export function cameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  const capabilities = (track.getCapabilities?.() ?? {}) as ImageTrackCapabilities;
+  const { zoom } = capabilities;
+  const canLock = (modes?: string[]) => Boolean(modes?.includes('continuous')
+    && (modes.includes('manual') || modes.includes('single-shot')));
+
+  return {
+    zoom: zoom && zoom.max > zoom.min
+      ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 }
+      : undefined,
+    torch: capabilities.torch === true,
+    focusLock: canLock(capabilities.focusMode),
+    exposureLock: canLock(capabilities.exposureMode),
+    fieldOfView: reportedFieldOfView(track)
+  };
+}
+
+function lockMode(modes: string[] | undefined, locked: boolean): string {
+  if (!locked) return 'continuous';
+  return modes?.includes('manual') ? 'manual' : 'single-shot';
+}
+
+// Applies settings to an open track in one go, since every applyConstraints
+// call replaces the last. Each extra goes in its own advanced set, so one
+// the camera can't honour is skipped without taking the others down.
+export async function applyCameraSettings(track: MediaStreamTrack, settings: CameraSettings) {
+  const capabilities = (track.getCapabilities?.() ?? {}) as ImageTrackCapabilities;
+  const { width, height } = RESOLUTION_PRESETS[settings.resolution];
+  const advanced: ImageTrackConstraints[] = [];
+
+  if (capabilities.zoom && settings.zoom !== undefined) {
+    advanced.push({ zoom: Math.min(capabilities.zoom.max, Math.max(capabilities.zoom.min, settings.zoom)) });
+  }
+  if (capabilities.torch) advanced.push({ torch: settings.torch });
+  if (capabilities.focusMode) {
+    advanced.push({ focusMode: lockMode(capabilities.focusMode, settings.focusLocked) });
+  }
+  if (capabilities.exposureMode) {
+    advanced.push({ exposureMode: lockMode(capabilities.exposureMode, settings.exposureLocked) });
+  }
+
+  try {
+    await track.applyConstraints({ width: { ideal: width }, height: { ideal: height }, advanced });
+  } catch (err) {
+    console.warn('Camera rejected settings:', err);
+  }
+}
+
+// Zoom after a pinch that changed the finger spread by `scale`, kept to what the lens can do
+export function pinchZoom(current: number, scale: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, current * scale));
+}
+
+// The open camera's current zoom, or 1 if it can't zoom
+export function currentZoom(track: MediaStreamTrack | null): number {
+  return (track?.getSettings() as MediaTrackSettings & { zoom?: number } | undefined)?.zoom ?? 1;
+}
+
+// The field of view the open camera reports, in degrees across the long side
+// at 1x. No standard track setting carries it yet, so this is undefined on
+// most browsers; one that reports `fieldOfView` is taken at its word.
+export function reportedFieldOfView(track: MediaStreamTrack | null): number | undefined {
+  const fov = (track?.getSettings?.() as MediaTrackSettings & { fieldOfView?: number } | undefined)?.fieldOfView;
+  return typeof fov === 'number' && fov > 0 && fov < 180 ? fov : undefined;
+}
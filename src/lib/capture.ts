@@ -0,0 +1,138 @@
+import { frameSize, type FrameSource } from './media-file';
+import { createViewMapping } from './viewport';
+
+export type CaptureFormat = 'image/png' | 'image/jpeg';
+
+export interface CaptureOptions {
+  format: CaptureFormat;
+  // JPEG quality, 0-1
+  quality: number;
+  // Stamp the caption and app name in a corner
+  watermark: boolean;
+}
+
+export const DEFAULT_CAPTURE: CaptureOptions = {
+  format: 'image/jpeg',
+  quality: 0.92,
+  watermark: true
+};
+
+export interface CaptureSources {
+  // The camera, or a photo or clip opened instead
+  video: FrameSource;
+  // Full-viewport overlays in paint order (detection boxes, floor grid, 3D
+  // cars). Each must hold its pixels at the moment of the call: 2D canvases
+  // always do, a WebGL canvas only with preserveDrawingBuffer.
+  layers: CanvasImageSource[];
+  mirrored: boolean;
+  caption?: string;
+}
+
+// Paints the camera frame and the on-screen overlays into one canvas at the
+// camera's resolution. Overlays cover the viewport, which is the cropped
+// middle of the frame when the video is shown with object-fit: cover.
+export function composeCapture(sources: CaptureSources, watermark = true): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  paintComposite(canvas, sources, { watermark });
+  return canvas;
+}
+
+// Draws the composite into `canvas`, resizing it to the camera frame scaled
+// down so its long side is at most maxSize. Reused frame after frame by recording.
+export function paintComposite(
+  canvas: HTMLCanvasElement,
+  { video, layers, mirrored, caption }: CaptureSources,
+  { watermark = true, maxSize = Infinity }: { watermark?: boolean; maxSize?: number } = {}
+) {
+  const { width, height } = frameSize(video);
+  if (!width || !height) throw new Error('No camera frame to capture');
+
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const outputWidth = Math.round(width * scale);
+  const outputHeight = Math.round(height * scale);
+  if (canvas.width !== outputWidth || canvas.height !== outputHeight) {
+    canvas.width = outputWidth;
+    canvas.height = outputHeight;
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No camera frame to capture');
+
+  // Everything below is drawn in camera frame pixels
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.save();
+  if (mirrored) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(video, 0, 0, width, height);
+  ctx.restore();
+
+  // The viewport's rectangle in frame pixels
+  const mapping = createViewMapping({ width, height }, { width: window.innerWidth, height: window.innerHeight });
+  const x = -mapping.offsetX / mapping.scale;
+  const y = -mapping.offsetY / mapping.scale;
+  const w = mapping.viewportWidth / mapping.scale;
+  const h = mapping.viewportHeight / mapping.scale;
+  layers.forEach(layer => ctx.drawImage(layer, x, y, w, h));
+
+  if (watermark) drawWatermark(ctx, width, height, caption);
+}
+
+function drawWatermark(ctx: CanvasRenderingContext2D, width: number, height: number, caption?: string) {
+  const size = Math.max(14, Math.round(height / 40));
+  const margin = size;
+  const lines = [caption, `Car AR Scanner • ${new Date().toLocaleString()}`].filter(Boolean) as string[];
+
+  ctx.font = `bold ${size}px Arial`;
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + size;
+  const boxHeight = lines.length * size * 1.4 + size * 0.4;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(margin, height - margin - boxHeight, boxWidth, boxHeight);
+
+  ctx.fillStyle = 'white';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => {
+    ctx.font = i === 0 && caption ? `bold ${size}px Arial` : `${Math.round(size * 0.75)}px Arial`;
+    ctx.fillText(line, margin + size / 2, height - margin - boxHeight + size * 0.4 + i * size * 1.4);
+  });
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, format: CaptureFormat, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), format, quality);
+  });
+}
+
+export function captureFilename(prefix: string, type: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const extension = type.includes('png') ? 'png' : type.includes('jpeg') ? 'jpg' : type.includes('mp4') ? 'mp4' : 'webm';
+  return `${prefix}-${stamp}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = Object.assign(document.createElement('a'), { href: url, download: filename });
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+// Hands the file to the system share sheet where files can be shared,
+// otherwise saves it as a download. Resolves to how it went out.
+export async function shareOrDownload(blob: Blob, filename: string, title: string): Promise<'shared' | 'downloaded' | 'cancelled'> {
+  const file = new File([blob], filename, { type: blob.type });
+  if (typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return 'shared';
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return 'cancelled';
+      // Anything else (e.g. lost user activation) falls through to a download
+    }
+  }
+
+  downloadBlob(blob, filename);
+  return 'downloaded';
+}
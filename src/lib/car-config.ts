@@ -0,0 +1,38 @@
+import type { CarConfig, PaintFinish, RimSize, RimStyle } from './types';
+
+// Matches how the procedural models looked before they could be customized
+export const DEFAULT_CAR_CONFIG: CarConfig = {
+  finish: 'metallic',
+  rimStyle: 'chrome',
+  rimSize: 'medium',
+  tint: 0.5,
+  roofRack: false,
+  spoiler: false
+};
+
+export const PAINT_FINISHES: PaintFinish[] = ['metallic', 'matte', 'pearl'];
+export const RIM_STYLES: RimStyle[] = ['chrome', 'black', 'bronze'];
+export const RIM_SIZES: RimSize[] = ['small', 'medium', 'large'];
+
+// A complete config from anything, such as a car read back from a scene file;
+// unknown or missing fields fall back to the defaults
+export function normalizeCarConfig(value: unknown): CarConfig {
+  const config = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof CarConfig, unknown>>;
+  const pick = <T>(options: T[], candidate: unknown, fallback: T): T =>
+    options.includes(candidate as T) ? (candidate as T) : fallback;
+
+  return {
+    finish: pick(PAINT_FINISHES, config.finish, DEFAULT_CAR_CONFIG.finish),
+    rimStyle: pick(RIM_STYLES, config.rimStyle, DEFAULT_CAR_CONFIG.rimStyle),
+    rimSize: pick(RIM_SIZES, config.rimSize, DEFAULT_CAR_CONFIG.rimSize),
+    tint: typeof config.tint === 'number' && Number.isFinite(config.tint)
+      ? Math.min(1, Math.max(0, config.tint))
+      : DEFAULT_CAR_CONFIG.tint,
+    roofRack: config.roofRack === true,
+    spoiler: config.spoiler === true
+  };
+}
+
+export const toHexColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+export const fromHexColor = (hex: string) => parseInt(hex.slice(1), 16);
@@ -0,0 +1,28 @@
+import { BACKEND_INIT_ERROR } from '../errors';
+import type { TfBackend } from './types';
+
+// Both ship with @tensorflow/tfjs; cpu is the fallback without WebGL
+export const DEFAULT_BACKENDS: TfBackend[] = ['webgl', 'cpu'];
+
+// Tries each backend in order and returns the first one that initialises.
+// A backend is only considered if it has registered itself with tfjs.
+export async function initBackend(preferred: TfBackend[] = DEFAULT_BACKENDS): Promise<TfBackend> {
+  const tf = await import('@tensorflow/tfjs');
+  await tf.ready();
+
+  for (const backend of preferred) {
+    if (!tf.findBackendFactory(backend)) continue;
+    try {
+      if (await tf.setBackend(backend)) {
+        await tf.ready();
+        return backend;
+      }
+    } catch (err) {
+      console.warn(`Backend ${backend} failed to initialise:`, err);
+    }
+  }
+
+  const error = new Error(`No TensorFlow.js backend available (tried ${preferred.join(', ')})`);
+  error.name = BACKEND_INIT_ERROR;
+  throw error;
+}
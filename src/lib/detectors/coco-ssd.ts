@@ -0,0 +1,59 @@
+import type { ObjectDetection } from '@tensorflow-models/coco-ssd';
+import type { Detection } from '../types';
+import { initBackend } from './backend';
+import { storedModelUrl } from './model-cache';
+import type { CocoSsdBase, DetectOptions, DetectorInput, LoadProgress, TfBackend, VehicleDetector } from './types';
+
+// The 80 COCO classes; only the vehicle ones matter to us but the model reports them all
+const COCO_CLASSES = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
+  'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat', 'dog',
+  'horse', 'sheep', 'cow', 'elephant', 'bear', 'zebra', 'giraffe', 'backpack', 'umbrella',
+  'handbag', 'tie', 'suitcase', 'frisbee', 'skis', 'snowboard', 'sports ball', 'kite',
+  'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket', 'bottle',
+  'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
+  'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch', 'potted plant',
+  'bed', 'dining table', 'toilet', 'tv', 'laptop', 'mouse', 'remote', 'keyboard', 'cell phone',
+  'microwave', 'oven', 'toaster', 'sink', 'refrigerator', 'book', 'clock', 'vase', 'scissors',
+  'teddy bear', 'hair drier', 'toothbrush'
+] as const;
+
+// Where @tensorflow-models/coco-ssd fetches each base model from
+function cocoSsdModelUrl(base: CocoSsdBase): string {
+  const prefix = base === 'lite_mobilenet_v2' ? `ssd${base}` : `ssd_${base}`;
+  return `https://storage.googleapis.com/tfjs-models/savedmodel/${prefix}/model.json`;
+}
+
+export class CocoSsdDetector implements VehicleDetector {
+  readonly supportedClasses = COCO_CLASSES;
+  backend: TfBackend | null = null;
+  private model: ObjectDetection | null = null;
+
+  constructor(
+    private base: CocoSsdBase = 'lite_mobilenet_v2',
+    private backends?: TfBackend[]
+  ) {}
+
+  get name() {
+    return `coco-ssd/${this.base}`;
+  }
+
+  async load(onProgress?: (progress: LoadProgress) => void) {
+    onProgress?.({ message: 'Loading AI...' });
+    this.backend = await initBackend(this.backends);
+
+    const [tf, cocoSsd] = await Promise.all([import('@tensorflow/tfjs'), import('@tensorflow-models/coco-ssd')]);
+    const modelUrl = await storedModelUrl(tf, cocoSsdModelUrl(this.base), `coco-ssd-${this.base}`, onProgress);
+    this.model = await cocoSsd.load({ base: this.base, modelUrl });
+  }
+
+  async detect(input: DetectorInput, options: DetectOptions = {}): Promise<Detection[]> {
+    if (!this.model) throw new Error(`${this.name} used before load()`);
+    return this.model.detect(input, options.maxDetections ?? 20, options.minScore ?? 0.5);
+  }
+
+  dispose() {
+    this.model?.dispose();
+    this.model = null;
+  }
+}
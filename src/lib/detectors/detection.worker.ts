@@ -0,0 +1,61 @@
+import type { Tensor3D } from '@tensorflow/tfjs';
+import { createDetector } from './factory';
+import type { VehicleDetector, WorkerRequest, WorkerResponse } from './types';
+
+// The tsconfig targets the DOM lib, so describe the bits of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse): void;
+};
+
+let detector: VehicleDetector | null = null;
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    try {
+      detector?.dispose();
+      detector = createDetector(message.config);
+      await detector.load(progress => scope.postMessage({ type: 'progress', progress }));
+      scope.postMessage({
+        type: 'ready',
+        name: detector.name,
+        backend: detector.backend ?? 'cpu',
+        supportedClasses: [...detector.supportedClasses]
+      });
+    } catch (err) {
+      scope.postMessage({
+        type: 'error',
+        message: err instanceof Error ? err.message : String(err),
+        name: err instanceof Error ? err.name : undefined
+      });
+    }
+    return;
+  }
+
+  const { id, frame, options } = message;
+  if (!detector) {
+    frame.close();
+    scope.postMessage({ type: 'error', id, message: 'Detector not loaded' });
+    return;
+  }
+
+  let pixels: Tensor3D | null = null;
+  try {
+    const tf = await import('@tensorflow/tfjs');
+    pixels = tf.browser.fromPixels(frame);
+    const detections = await detector.detect(pixels, options);
+    scope.postMessage({ type: 'result', id, detections });
+  } catch (err) {
+    scope.postMessage({
+      type: 'error',
+      id,
+      message: err instanceof Error ? err.message : String(err),
+      name: err instanceof Error ? err.name : undefined
+    });
+  } finally {
+    frame.close();
+    pixels?.dispose();
+  }
+};
@@ -0,0 +1,12 @@
+import { CocoSsdDetector } from './coco-ssd';
+import { GraphModelDetector } from './graph-model';
+import type { DetectorConfig, VehicleDetector } from './types';
+
+export function createDetector(config: DetectorConfig): VehicleDetector {
+  switch (config.kind) {
+    case 'coco-ssd':
+      return new CocoSsdDetector(config.base, config.backends);
+    case 'graph-model':
+      return new GraphModelDetector(config.url, config.labels, config.backends, config.firstClassId);
+  }
+}
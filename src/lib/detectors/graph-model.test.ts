@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { detectorConfigFromQuery } from './index';
+import { readDetections } from './graph-model';
+
+// Two detections as a TF Object Detection API export emits them: class 3 is
+// 'car' in its COCO label map, which numbers from 1 with 0 as background
+const outputs = [
+  new Float32Array([0.1, 0.2, 0.5, 0.6, 0, 0, 1, 1]),
+  new Float32Array([0.9, 0.3]),
+  new Float32Array([3, 1])
+];
+const COCO = ['person', 'bicycle', 'car'];
+
+describe('readDetections', () => {
+  it('reads class ids from 1, so the first label is class 1', () => {
+    const [detection] = readDetections(outputs, COCO, 1, 200, 100);
+
+    expect(detection.class).toBe('car');
+    expect(detection.score).toBeCloseTo(0.9, 6);
+    expect(detection.bbox.map(v => Number(v.toFixed(3)))).toEqual([40, 10, 80, 40]);
+  });
+
+  it('reads class ids from 0 for models that count from zero', () => {
+    expect(readDetections(outputs, ['person', 'bicycle', 'car', 'motorcycle'], 0, 200, 100, { minScore: 0.2 })
+      .map(d => d.class)).toEqual(['motorcycle', 'bicycle']);
+  });
+
+  it('names ids past the labels by number', () => {
+    expect(readDetections(outputs, ['person'], 1, 200, 100)[0].class).toBe('class_3');
+  });
+});
+
+describe('detectorConfigFromQuery', () => {
+  it('counts a graph model\'s classes from 1 unless told otherwise', () => {
+    const exported = detectorConfigFromQuery('?detector=/models/v/model.json&labels=car,truck');
+    const zeroBased = detectorConfigFromQuery('?detector=/models/v/model.json&labels=car,truck&firstClassId=0');
+
+    expect(exported).toMatchObject({ kind: 'graph-model', labels: ['car', 'truck'], firstClassId: 1 });
+    expect(zeroBased).toMatchObject({ firstClassId: 0 });
+  });
+});
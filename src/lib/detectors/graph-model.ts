@@ -0,0 +1,102 @@
+import type { GraphModel, Tensor, TypedArray } from '@tensorflow/tfjs';
+import type { BBox, Detection } from '../types';
+import { initBackend } from './backend';
+import { storedModelUrl } from './model-cache';
+import type { DetectOptions, DetectorInput, LoadProgress, TfBackend, VehicleDetector } from './types';
+
+type Tf = typeof import('@tensorflow/tfjs');
+
+// Output node names of a model exported with the TF Object Detection API
+const OUTPUT_NODES = ['detection_boxes', 'detection_scores', 'detection_classes'];
+
+// Class id the TF Object Detection API gives its first label; 0 is background
+export const DEFAULT_FIRST_CLASS_ID = 1;
+
+// Turns the model's outputs into detections in pixels. Boxes are normalized
+// [ymin, xmin, ymax, xmax]; class id `firstClassId` is labels[0].
+export function readDetections(
+  [boxes, scores, classes]: TypedArray[],
+  labels: string[],
+  firstClassId: number,
+  width: number,
+  height: number,
+  options: DetectOptions = {}
+): Detection[] {
+  const minScore = options.minScore ?? 0.5;
+  const maxDetections = options.maxDetections ?? 20;
+  const detections: Detection[] = [];
+
+  for (let i = 0; i < scores.length && detections.length < maxDetections; i++) {
+    if (scores[i] < minScore) continue;
+    const [ymin, xmin, ymax, xmax] = Array.from(boxes.slice(i * 4, i * 4 + 4));
+    const bbox: BBox = [xmin * width, ymin * height, (xmax - xmin) * width, (ymax - ymin) * height];
+    detections.push({
+      bbox,
+      class: labels[classes[i] - firstClassId] ?? `class_${classes[i]}`,
+      score: scores[i]
+    });
+  }
+
+  return detections;
+}
+
+// Runs a custom TF.js graph model, e.g. one served from /public/models,
+// exported with the TF Object Detection API or laid out like one
+export class GraphModelDetector implements VehicleDetector {
+  readonly name: string;
+  backend: TfBackend | null = null;
+  private tf: Tf | null = null;
+  private model: GraphModel | null = null;
+
+  constructor(
+    private url: string,
+    private labels: string[],
+    private backends?: TfBackend[],
+    private firstClassId = DEFAULT_FIRST_CLASS_ID
+  ) {
+    this.name = `graph-model/${url}`;
+  }
+
+  get supportedClasses() {
+    return this.labels;
+  }
+
+  async load(onProgress?: (progress: LoadProgress) => void) {
+    onProgress?.({ message: 'Loading AI...' });
+    this.backend = await initBackend(this.backends);
+    this.tf = await import('@tensorflow/tfjs');
+
+    // Keyed by URL, so a retrained model needs a new URL to replace the stored copy
+    const modelUrl = await storedModelUrl(this.tf, this.url, `graph-model:${this.url}`, onProgress);
+    this.model = await this.tf.loadGraphModel(modelUrl);
+  }
+
+  async detect(input: DetectorInput, options: DetectOptions = {}): Promise<Detection[]> {
+    const tf = this.tf;
+    const model = this.model;
+    if (!tf || !model) throw new Error(`${this.name} used before load()`);
+
+    const batched = tf.tidy(() => {
+      const image = input instanceof tf.Tensor ? input : tf.browser.fromPixels(input);
+      return image.toInt().expandDims(0);
+    });
+    const [, height, width] = batched.shape;
+
+    let outputs: Tensor[] = [];
+    let data: TypedArray[];
+    try {
+      outputs = (await model.executeAsync(batched, OUTPUT_NODES)) as Tensor[];
+      data = await Promise.all(outputs.map(t => t.data()));
+    } finally {
+      batched.dispose();
+      outputs.forEach(t => t.dispose());
+    }
+
+    return readDetections(data, this.labels, this.firstClassId, width, height, options);
+  }
+
+  dispose() {
+    this.model?.dispose();
+    this.model = null;
+  }
+}
@@ -0,0 +1,109 @@
+import type { Detection } from '../types';
+import { DEFAULT_BACKENDS } from './backend';
+import { createDetector } from './factory';
+import { DEFAULT_FIRST_CLASS_ID } from './graph-model';
+import type { CocoSsdBase, DetectorConfig, LoadProgress, TfBackend, VehicleDetector } from './types';
+import { WorkerDetector } from './worker-client';
+
+export type {
+  CocoSsdBase,
+  DetectOptions,
+  DetectorConfig,
+  DetectorInput,
+  LoadProgress,
+  TfBackend,
+  VehicleDetector
+} from './types';
+export { initBackend, DEFAULT_BACKENDS } from './backend';
+export { CocoSsdDetector } from './coco-ssd';
+export { GraphModelDetector, DEFAULT_FIRST_CLASS_ID } from './graph-model';
+export { WorkerDetector } from './worker-client';
+export { createDetector } from './factory';
+
+export const VEHICLE_CLASSES = ['car', 'truck', 'bus', 'motorcycle'];
+
+export const DEFAULT_DETECTOR: DetectorConfig = {
+  kind: 'coco-ssd',
+  base: 'lite_mobilenet_v2',
+  backends: DEFAULT_BACKENDS
+};
+
+export interface VehicleFilter {
+  classes: string[];
+  minScore: number;
+}
+
+export const DEFAULT_VEHICLE_FILTER: VehicleFilter = {
+  classes: VEHICLE_CLASSES,
+  minScore: 0.35
+};
+
+export function filterVehicles(
+  detections: Detection[],
+  filter: VehicleFilter = DEFAULT_VEHICLE_FILTER
+): Detection[] {
+  return detections.filter(d => filter.classes.includes(d.class) && d.score > filter.minScore);
+}
+
+const COCO_BASES: CocoSsdBase[] = ['lite_mobilenet_v2', 'mobilenet_v2', 'mobilenet_v1'];
+const BACKENDS: TfBackend[] = ['webgl', 'cpu'];
+
+// Lets the model and backend be picked at runtime, e.g.
+//   ?detector=mobilenet_v2&backend=cpu
+//   ?detector=/models/vehicles/model.json&labels=car,truck,bus,motorcycle
+// A graph model's class ids count from 1 as TF Object Detection API exports
+// do; &firstClassId=0 is for one that counts from 0.
+export function detectorConfigFromQuery(search: string): DetectorConfig {
+  const params = new URLSearchParams(search);
+  const detector = params.get('detector');
+  const backend = params.get('backend') as TfBackend | null;
+
+  // A forced backend still falls back to cpu rather than failing outright
+  const backends = backend && BACKENDS.includes(backend)
+    ? Array.from(new Set<TfBackend>([backend, 'cpu']))
+    : DEFAULT_BACKENDS;
+
+  if (detector && detector.endsWith('.json')) {
+    return {
+      kind: 'graph-model',
+      url: detector,
+      labels: (params.get('labels') ?? VEHICLE_CLASSES.join(',')).split(','),
+      firstClassId: params.get('firstClassId') === '0' ? 0 : DEFAULT_FIRST_CLASS_ID,
+      backends
+    };
+  }
+
+  const base = COCO_BASES.includes(detector as CocoSsdBase)
+    ? (detector as CocoSsdBase)
+    : 'lite_mobilenet_v2';
+
+  return { kind: 'coco-ssd', base, backends };
+}
+
+export function supportsWorkerDetection(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined';
+}
+
+// Prefers running inference in a worker so the UI and render loops never wait
+// on model.detect, and falls back to the main thread if the worker can't load.
+export async function loadDetector(
+  config: DetectorConfig = DEFAULT_DETECTOR,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<VehicleDetector> {
+  if (supportsWorkerDetection()) {
+    const workerDetector = new WorkerDetector(config);
+    try {
+      await workerDetector.load(onProgress);
+      return workerDetector;
+    } catch (err) {
+      console.warn('Worker detection unavailable, using main thread:', err);
+      workerDetector.dispose();
+    }
+  }
+
+  const detector = createDetector(config);
+  await detector.load(onProgress);
+  return detector;
+}
@@ -0,0 +1,54 @@
+import type { LoadProgress } from './types';
+
+type Tf = typeof import('@tensorflow/tfjs');
+
+const STORE = 'indexeddb://';
+
+async function isStored(tf: Tf, key: string): Promise<boolean> {
+  try {
+    return `${STORE}${key}` in (await tf.io.listModels());
+  } catch {
+    // No IndexedDB here (Node, some private modes)
+    return false;
+  }
+}
+
+// Where to load the graph model at `url` from. The first time, the weights
+// are downloaded and stored in IndexedDB under `key`; after that they load
+// from the device, with or without a connection. If they can't be stored
+// the network URL is returned and the next start downloads them again.
+export async function storedModelUrl(
+  tf: Tf,
+  url: string,
+  key: string,
+  onProgress?: (progress: LoadProgress) => void
+): Promise<string> {
+  // Nowhere to keep it (Node, e.g. the evaluation harness): load straight from the source
+  if (typeof indexedDB === 'undefined') return url;
+
+  const stored = `${STORE}${key}`;
+  if (await isStored(tf, key)) {
+    onProgress?.({ message: 'Loading car detector from this device...', offline: 'stored' });
+    return stored;
+  }
+
+  onProgress?.({ message: 'Downloading car detector...', fraction: 0, offline: 'downloading' });
+  try {
+    const artifacts = await tf.io.http(url, {
+      onProgress: fraction => onProgress?.({
+        message: 'Downloading car detector...',
+        fraction,
+        offline: 'downloading'
+      })
+    }).load!();
+    const [store] = tf.io.getSaveHandlers(stored);
+    if (!store?.save) throw new Error('No IndexedDB model store');
+    await store.save(artifacts);
+    onProgress?.({ message: 'Loading car detector...', offline: 'stored' });
+    return stored;
+  } catch (err) {
+    console.warn(`Could not store ${url} for offline use:`, err);
+    onProgress?.({ message: 'Loading car detector...', offline: 'unavailable' });
+    return url;
+  }
+}
@@ -0,0 +1,68 @@
+import type { Tensor3D } from '@tensorflow/tfjs';
+import type { Detection } from '../types';
+
+export type TfBackend = 'webgl' | 'cpu';
+
+export type DetectorInput =
+  | Tensor3D
+  | ImageData
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | HTMLVideoElement;
+
+export interface DetectOptions {
+  maxDetections?: number;
+  minScore?: number;
+}
+
+// What load() is doing, for the loading screen
+export interface LoadProgress {
+  message: string;
+  // Share of the model weights downloaded so far, while they download
+  fraction?: number;
+  // Whether the weights will be there without a connection: 'stored' once
+  // they are in IndexedDB, 'unavailable' if they couldn't be kept
+  offline?: 'downloading' | 'stored' | 'unavailable';
+}
+
+export interface VehicleDetector {
+  readonly name: string;
+  readonly supportedClasses: readonly string[];
+  // Backend the detector ended up running on, set once load() resolves
+  readonly backend: TfBackend | null;
+  load(onProgress?: (progress: LoadProgress) => void): Promise<void>;
+  detect(input: DetectorInput, options?: DetectOptions): Promise<Detection[]>;
+  dispose(): void;
+}
+
+export type CocoSsdBase = 'lite_mobilenet_v2' | 'mobilenet_v2' | 'mobilenet_v1';
+
+export type DetectorConfig =
+  | {
+      kind: 'coco-ssd';
+      base: CocoSsdBase;
+      backends: TfBackend[];
+    }
+  | {
+      kind: 'graph-model';
+      // model.json of a TF.js graph model, usually served from /public
+      url: string;
+      // Label per class the model outputs, in class id order
+      labels: string[];
+      // Class id of labels[0]: 1 for TF Object Detection API exports, which
+      // keep 0 for background; 0 for models that number classes from zero
+      firstClassId: number;
+      backends: TfBackend[];
+    };
+
+// Messages between WorkerDetector and detection.worker.ts
+export type WorkerRequest =
+  | { type: 'init'; config: DetectorConfig }
+  | { type: 'detect'; id: number; frame: ImageBitmap; options?: DetectOptions };
+
+export type WorkerResponse =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'ready'; name: string; backend: TfBackend; supportedClasses: string[] }
+  | { type: 'result'; id: number; detections: Detection[] }
+  // name is the Error's name, so callers can still tell failures apart
+  | { type: 'error'; id?: number; message: string; name?: string };
@@ -0,0 +1,137 @@
+import type { Detection } from '../types';
+import type {
+  DetectOptions,
+  DetectorConfig,
+  DetectorInput,
+  LoadProgress,
+  TfBackend,
+  VehicleDetector,
+  WorkerRequest,
+  WorkerResponse
+} from './types';
+
+interface PendingRequest {
+  resolve: (detections: Detection[]) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// A frame the worker hasn't answered by then is given up on, so a hung
+// worker surfaces as failed detections instead of a loop stuck waiting
+const REQUEST_TIMEOUT = 15_000;
+
+function workerError(message: string, name?: string): Error {
+  return Object.assign(new Error(message), { name: name ?? 'Error' });
+}
+
+// VehicleDetector that runs the real detector inside a dedicated worker.
+// Each detect() snapshots the input into an ImageBitmap and transfers it,
+// so the caller only pays for the copy, never for inference.
+export class WorkerDetector implements VehicleDetector {
+  name: string;
+  supportedClasses: string[] = [];
+  backend: TfBackend | null = null;
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+
+  constructor(private config: DetectorConfig) {
+    this.name = `worker/${config.kind}`;
+  }
+
+  load(onProgress?: (progress: LoadProgress) => void): Promise<void> {
+    const worker = new Worker(new URL('./detection.worker.ts', import.meta.url), { type: 'module' });
+    this.worker = worker;
+
+    return new Promise((resolve, reject) => {
+      worker.onerror = event => reject(new Error(event.message || 'Detection worker failed to start'));
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress?.(message.progress);
+            break;
+          case 'ready':
+            this.name = `worker/${message.name}`;
+            this.backend = message.backend;
+            this.supportedClasses = message.supportedClasses;
+            // From here on a crash fails the frames in flight; load() is long settled
+            worker.onmessage = e => this.handleMessage(e.data);
+            worker.onerror = e => this.crashed(workerError(e.message || 'Detection worker crashed'));
+            worker.onmessageerror = () => this.crashed(workerError('Detection worker sent an unreadable message'));
+            resolve();
+            break;
+          case 'error':
+            reject(workerError(message.message, message.name));
+            break;
+        }
+      };
+      this.post({ type: 'init', config: this.config });
+    });
+  }
+
+  async detect(input: DetectorInput, options?: DetectOptions): Promise<Detection[]> {
+    if (!this.worker) throw new Error(`${this.name} used before load()`);
+    if ('shape' in input) throw new Error(`${this.name} needs an image source, not a tensor`);
+
+    const frame = await createImageBitmap(input);
+    const id = this.nextRequestId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.take(id)?.reject(workerError(`Detection timed out after ${REQUEST_TIMEOUT / 1000}s`));
+      }, REQUEST_TIMEOUT);
+      this.pending.set(id, { resolve, reject, timer });
+      this.post({ type: 'detect', id, frame, options }, [frame]);
+    });
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(workerError('Detector disposed'));
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    if (message.type !== 'result' && message.type !== 'error') return;
+    if (message.id === undefined) {
+      // An error outside any frame means the worker itself is broken
+      if (message.type === 'error') this.crashed(workerError(message.message, message.name));
+      return;
+    }
+
+    const request = this.take(message.id);
+    if (!request) return;
+
+    if (message.type === 'result') {
+      request.resolve(message.detections);
+    } else {
+      request.reject(workerError(message.message, message.name));
+    }
+  }
+
+  // Removes a request and its timeout; undefined if it already settled
+  private take(id: number): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (!request) return undefined;
+    clearTimeout(request.timer);
+    this.pending.delete(id);
+    return request;
+  }
+
+  private failAll(error: Error) {
+    Array.from(this.pending.keys()).forEach(id => this.take(id)?.reject(error));
+  }
+
+  // The worker is gone: fail what's in flight, and later detect() calls
+  // throw straight away, so the caller sees it and can reload the detector
+  private crashed(error: Error) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll(error);
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+}
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AppError,
+  BACKEND_INIT_ERROR,
+  cameraError,
+  checkEnvironment,
+  detectionError,
+  mediaError,
+  modelError,
+  supportsWebGL
+} from './errors';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('cameraError', () => {
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['PermissionDeniedError', 'permission-denied'],
+    ['SecurityError', 'insecure-context'],
+    ['NotFoundError', 'no-camera'],
+    ['OverconstrainedError', 'no-camera'],
+    ['NotReadableError', 'camera-in-use'],
+    ['AbortError', 'camera-in-use']
+  ])('files a %s under %s', (name, kind) => {
+    const err = new DOMException('getUserMedia failed', name);
+    const appError = cameraError(err);
+
+    expect(appError.kind).toBe(kind);
+    expect(appError.cause).toBe(err);
+  });
+
+  it('keeps the message of anything it does not recognise', () => {
+    const appError = cameraError(new TypeError('getUserMedia is not a function'));
+
+    expect(appError.kind).toBe('unknown');
+    expect(appError.message).toBe('Could not start the camera: getUserMedia is not a function');
+    expect(cameraError('gone').message).toBe('Could not start the camera: gone');
+  });
+});
+
+describe('modelError, detectionError and mediaError', () => {
+  it('tell a backend failure from a failed download', () => {
+    const backend = Object.assign(new Error('No WebGL or WASM backend'), { name: BACKEND_INIT_ERROR });
+
+    expect(modelError(backend)).toMatchObject({ kind: 'backend-init', message: 'No WebGL or WASM backend' });
+    expect(modelError(new Error('404'))).toMatchObject({
+      kind: 'model-download',
+      message: 'The car detector could not be loaded: 404'
+    });
+  });
+
+  it('label detection and media failures', () => {
+    expect(detectionError(new Error('out of memory'))).toMatchObject({ kind: 'detection', message: 'Detection failed: out of memory' });
+    expect(mediaError(new Error('decode failed'))).toMatchObject({ kind: 'unsupported-media' });
+  });
+
+  it('pass an AppError through unchanged', () => {
+    const err = new AppError('no-camera', 'No camera');
+
+    expect([cameraError(err), modelError(err), detectionError(err), mediaError(err)]).toEqual([err, err, err, err]);
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe('AppError');
+  });
+});
+
+describe('checkEnvironment', () => {
+  it('needs a secure context with getUserMedia for the camera', () => {
+    vi.stubGlobal('window', { isSecureContext: false });
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: vi.fn() } });
+    expect(checkEnvironment()?.kind).toBe('insecure-context');
+
+    vi.stubGlobal('window', { isSecureContext: true });
+    expect(checkEnvironment()).toBeNull();
+
+    vi.stubGlobal('navigator', {});
+    expect(checkEnvironment()?.kind).toBe('insecure-context');
+  });
+
+  it('lets files through without a camera', () => {
+    vi.stubGlobal('window', { isSecureContext: false });
+    vi.stubGlobal('navigator', {});
+
+    expect(checkEnvironment(false)).toBeNull();
+  });
+});
+
+describe('supportsWebGL', () => {
+  const withContexts = (contexts: Record<string, unknown>) =>
+    vi.stubGlobal('document', { createElement: () => ({ getContext: (type: string) => contexts[type] ?? null }) });
+
+  it('accepts WebGL 2 or 1', () => {
+    withContexts({ webgl2: {} });
+    expect(supportsWebGL()).toBe(true);
+    withContexts({ webgl: {} });
+    expect(supportsWebGL()).toBe(true);
+  });
+
+  it('is false without a context or when asking throws', () => {
+    withContexts({});
+    expect(supportsWebGL()).toBe(false);
+
+    vi.stubGlobal('document', { createElement: () => { throw new Error('no canvas'); } });
+    expect(supportsWebGL()).toBe(false);
+  });
+});
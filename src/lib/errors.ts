@@ -0,0 +1,87 @@
+// Everything that can stop the app, by what the user can do about it
+export type AppErrorKind =
+  | 'permission-denied'
+  | 'no-camera'
+  | 'camera-in-use'
+  | 'insecure-context'
+  | 'model-download'
+  | 'backend-init'
+  | 'detection'
+  | 'unsupported-media'
+  | 'unknown';
+
+export class AppError extends Error {
+  constructor(readonly kind: AppErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AppError';
+  }
+}
+
+// Thrown by initBackend; kept by name across the detection worker boundary
+export const BACKEND_INIT_ERROR = 'BackendInitError';
+
+const describe = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+// Camera and secure-context problems the app can't run without, checked
+// before anything is requested so the user gets the real reason. A photo
+// or video file needs no camera.
+export function checkEnvironment(needsCamera = true): AppError | null {
+  if (needsCamera && (!window.isSecureContext || !navigator.mediaDevices?.getUserMedia)) {
+    return new AppError('insecure-context', 'The camera is only available over HTTPS.');
+  }
+  return null;
+}
+
+// Without WebGL the app still detects (on the cpu backend), it just
+// can't draw 3D cars
+export function supportsWebGL(): boolean {
+  try {
+    const canvas = document.createElement('canvas');
+    return Boolean(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+  } catch {
+    return false;
+  }
+}
+
+// getUserMedia failures, by DOMException name
+export function cameraError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  const name = err instanceof DOMException || err instanceof Error ? err.name : '';
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return new AppError('permission-denied', 'Camera permission was denied.', { cause: err });
+    case 'SecurityError':
+      return new AppError('insecure-context', 'The browser blocked the camera on this page.', { cause: err });
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return new AppError('no-camera', 'No camera was found on this device.', { cause: err });
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new AppError('camera-in-use', 'The camera is being used by another app.', { cause: err });
+    default:
+      return new AppError('unknown', `Could not start the camera: ${describe(err)}`, { cause: err });
+  }
+}
+
+export function modelError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  if (err instanceof Error && err.name === BACKEND_INIT_ERROR) {
+    return new AppError('backend-init', err.message, { cause: err });
+  }
+  return new AppError('model-download', `The car detector could not be loaded: ${describe(err)}`, { cause: err });
+}
+
+export function detectionError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  return new AppError('detection', `Detection failed: ${describe(err)}`, { cause: err });
+}
+
+// A picked file that isn't a photo or video the browser can decode
+export function mediaError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  return new AppError('unsupported-media', `The file could not be opened: ${describe(err)}`, { cause: err });
+}
@@ -0,0 +1,90 @@
+import type { BBox } from '../types';
+
+// One labeled object. Ignored boxes (COCO crowds, VOC "difficult") neither
+// count as misses nor turn a detection on them into a false positive.
+export interface GroundTruthBox {
+  bbox: BBox;
+  class: string;
+  ignore: boolean;
+}
+
+export interface LabeledImage {
+  // Relative to the dataset's image folder
+  file: string;
+  boxes: GroundTruthBox[];
+}
+
+// Dataset class names that mean one of ours
+export const DEFAULT_CLASS_ALIASES: Record<string, string> = {
+  motorbike: 'motorcycle'
+};
+
+export function normalizeClass(name: string, aliases: Record<string, string> = DEFAULT_CLASS_ALIASES): string {
+  const key = name.trim().toLowerCase();
+  return aliases[key] ?? key;
+}
+
+interface CocoFile {
+  images: { id: number; file_name: string }[];
+  annotations: { image_id: number; category_id: number; bbox: number[]; iscrowd?: number }[];
+  categories: { id: number; name: string }[];
+}
+
+function isCocoFile(json: unknown): json is CocoFile {
+  const file = json as Partial<CocoFile> | null;
+  return Boolean(file && Array.isArray(file.images) && Array.isArray(file.annotations) && Array.isArray(file.categories));
+}
+
+// A COCO instances file (images, annotations, categories). Boxes are already
+// [x, y, width, height] in pixels, like ours.
+export function parseCocoAnnotations(
+  json: unknown,
+  aliases: Record<string, string> = DEFAULT_CLASS_ALIASES
+): LabeledImage[] {
+  if (!isCocoFile(json)) throw new Error('Not a COCO annotation file: expected images, annotations and categories');
+
+  const categories = new Map(json.categories.map(c => [c.id, normalizeClass(c.name, aliases)]));
+  const images = new Map<number, LabeledImage>(
+    json.images.map(image => [image.id, { file: image.file_name, boxes: [] }])
+  );
+
+  json.annotations.forEach(annotation => {
+    const image = images.get(annotation.image_id);
+    const name = categories.get(annotation.category_id);
+    if (!image || !name || annotation.bbox.length !== 4) return;
+    const [x, y, width, height] = annotation.bbox;
+    image.boxes.push({ bbox: [x, y, width, height], class: name, ignore: annotation.iscrowd === 1 });
+  });
+
+  return Array.from(images.values());
+}
+
+function tagText(xml: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`).exec(xml)?.[1];
+}
+
+// One Pascal VOC annotation XML. VOC corners are 1-based and inclusive.
+export function parseVocAnnotation(
+  xml: string,
+  aliases: Record<string, string> = DEFAULT_CLASS_ALIASES
+): LabeledImage {
+  const file = tagText(xml, 'filename');
+  if (!file) throw new Error('Not a VOC annotation: missing <filename>');
+
+  const boxes = Array.from(xml.matchAll(/<object>([\s\S]*?)<\/object>/g), ([, object]): GroundTruthBox | null => {
+    const name = tagText(object, 'name');
+    const box = /<bndbox>([\s\S]*?)<\/bndbox>/.exec(object)?.[1];
+    if (!name || !box) return null;
+
+    const [xmin, ymin, xmax, ymax] = ['xmin', 'ymin', 'xmax', 'ymax'].map(tag => Number(tagText(box, tag)));
+    if ([xmin, ymin, xmax, ymax].some(Number.isNaN)) return null;
+
+    return {
+      bbox: [xmin - 1, ymin - 1, xmax - xmin + 1, ymax - ymin + 1],
+      class: normalizeClass(name, aliases),
+      ignore: tagText(object, 'difficult') === '1'
+    };
+  });
+
+  return { file, boxes: boxes.filter((box): box is GroundTruthBox => box !== null) };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { BBox, Detection } from '../types';
+import type { GroundTruthBox } from './datasets';
+import { averagePrecision, evaluateDetections, matchDetections, precisionRecall } from './metrics';
+
+const box = (bbox: BBox, ignore = false): GroundTruthBox => ({ bbox, class: 'car', ignore });
+const detection = (bbox: BBox, score: number): Detection => ({ bbox, class: 'car', score });
+
+describe('matchDetections', () => {
+  it('gives the box to the highest score and counts a duplicate as a false positive', () => {
+    const truth = box([0, 0, 10, 10]);
+    const matches = matchDetections([detection([1, 0, 10, 10], 0.6), detection([0, 0, 10, 10], 0.9)], [truth], 0.5);
+
+    expect(matches.map(m => [m.detection.score, m.outcome])).toEqual([[0.9, 'tp'], [0.6, 'fp']]);
+    expect(matches[0].box).toBe(truth);
+  });
+
+  it('takes the box a detection overlaps most', () => {
+    const left = box([0, 0, 10, 10]);
+    const right = box([6, 0, 10, 10]);
+    // IoU 8/12 with right, 4/16 with left
+    const [match] = matchDetections([detection([8, 0, 10, 10], 0.9)], [left, right], 0.2);
+
+    expect(match.box).toBe(right);
+  });
+
+  it('misses below the IoU threshold', () => {
+    // Half overlapping: IoU 50 / 150
+    const [match] = matchDetections([detection([5, 0, 10, 10], 0.9)], [box([0, 0, 10, 10])], 0.5);
+
+    expect(match.outcome).toBe('fp');
+    expect(match.box).toBeUndefined();
+  });
+
+  it('lets an ignored box absorb any number of detections', () => {
+    const difficult = box([0, 0, 10, 10], true);
+    const matches = matchDetections([detection([0, 0, 10, 10], 0.9), detection([1, 1, 9, 9], 0.8)], [difficult], 0.5);
+
+    expect(matches.map(m => m.outcome)).toEqual(['ignore', 'ignore']);
+    expect(matches.every(m => m.box === difficult)).toBe(true);
+  });
+
+  it('prefers a real box to an ignored one that overlaps more', () => {
+    const real = box([0, 0, 10, 10]);
+    // IoU 110/120 with the ignored box, 100/110 with the real one
+    const [match] = matchDetections([detection([0, 0, 10, 11], 0.9)], [box([0, 0, 10, 12], true), real], 0.5);
+
+    expect(match.outcome).toBe('tp');
+    expect(match.box).toBe(real);
+  });
+});
+
+describe('precisionRecall', () => {
+  it('makes precision non-increasing along recall', () => {
+    const points = precisionRecall(
+      [{ score: 0.7, tp: true }, { score: 0.9, tp: true }, { score: 0.8, tp: false }],
+      2
+    );
+
+    // Raw precision is 1, 1/2, 2/3; the envelope lifts the middle point
+    expect(points.map(p => p.recall)).toEqual([0.5, 0.5, 1]);
+    expect(points.map(p => p.precision)).toEqual([1, 2 / 3, 2 / 3]);
+  });
+});
+
+describe('averagePrecision', () => {
+  it('is 1 for a perfect ranking', () => {
+    expect(averagePrecision(precisionRecall([{ score: 0.9, tp: true }], 1))).toBe(1);
+  });
+
+  it('is 0 without detections', () => {
+    expect(averagePrecision([])).toBe(0);
+  });
+
+  it('samples the envelope at 101 recall points', () => {
+    const points = precisionRecall(
+      [{ score: 0.9, tp: true }, { score: 0.8, tp: false }, { score: 0.7, tp: true }],
+      2
+    );
+
+    // Recall 0 to 0.50 reads precision 1, 0.51 to 1 reads 2/3
+    expect(averagePrecision(points)).toBeCloseTo((51 + 50 * (2 / 3)) / 101, 10);
+  });
+
+  it('reads zero precision past the highest recall reached', () => {
+    const points = precisionRecall([{ score: 0.9, tp: true }], 2);
+
+    expect(averagePrecision(points)).toBeCloseTo(51 / 101, 10);
+  });
+});
+
+describe('evaluateDetections', () => {
+  it('leaves difficult boxes out of the counts and AP', () => {
+    const result = evaluateDetections(
+      [{
+        file: 'a.jpg',
+        boxes: [box([0, 0, 10, 10]), box([50, 50, 10, 10], true)],
+        detections: [
+          detection([0, 0, 10, 10], 0.9),
+          detection([50, 50, 10, 10], 0.8),
+          detection([0, 0, 10, 9], 0.7)
+        ],
+        latency: 10
+      }],
+      { filter: { classes: ['car'], minScore: 0.5 }, iouThresholds: [0.5] }
+    );
+    const [car] = result.classes;
+
+    expect(car.groundTruth).toBe(1);
+    expect([car.truePositives, car.falsePositives, car.falseNegatives]).toEqual([1, 1, 0]);
+    // The duplicate ranks below the only true positive, so recall 1 is reached at precision 1
+    expect(car.ap['0.50']).toBe(1);
+    expect(result.confusion.counts).toEqual([[1, 0], [1, 0]]);
+  });
+});
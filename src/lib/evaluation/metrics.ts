@@ -0,0 +1,277 @@
+import { DEFAULT_VEHICLE_FILTER, filterVehicles, type VehicleFilter } from '../detectors';
+import { iou } from '../tracker';
+import type { Detection } from '../types';
+import type { GroundTruthBox } from './datasets';
+
+// One image after the detector has run on it
+export interface EvaluatedImage {
+  file: string;
+  boxes: GroundTruthBox[];
+  // Everything the detector reported, any class, down to a low candidate
+  // score so the precision/recall curve covers the whole range
+  detections: Detection[];
+  // Inference time in ms
+  latency: number;
+}
+
+export interface EvaluationOptions {
+  // The classes evaluated and the score the app keeps detections above
+  filter: VehicleFilter;
+  // mAP is reported at each and averaged over all of them
+  iouThresholds: number[];
+}
+
+// The COCO range, 0.50 to 0.95 in steps of 0.05
+export const COCO_IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => Math.round((0.5 + i * 0.05) * 100) / 100);
+
+export const DEFAULT_EVALUATION: EvaluationOptions = {
+  filter: DEFAULT_VEHICLE_FILTER,
+  iouThresholds: COCO_IOU_THRESHOLDS
+};
+
+// Overlap a detection needs to count as found, at the operating point and in the confusion matrix
+export const OPERATING_IOU = 0.5;
+
+export const BACKGROUND = 'background';
+
+export interface Counts {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ClassMetrics extends Counts {
+  class: string;
+  // Boxes that count; ignored ones are left out
+  groundTruth: number;
+  // Average precision by IoU threshold (keyed "0.50"); null without ground truth
+  ap: Record<string, number | null>;
+  // Precision against recall at the first IoU threshold, for plotting
+  curve: { recall: number; precision: number }[];
+}
+
+// Rows are the true class, columns the predicted one; BACKGROUND is a missed
+// box (column) or a detection of nothing (row)
+export interface ConfusionMatrix {
+  labels: string[];
+  counts: number[][];
+}
+
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface EvaluationResult {
+  images: number;
+  operatingPoint: { minScore: number; iou: number };
+  classes: ClassMetrics[];
+  overall: Counts;
+  // Mean AP over classes with ground truth, by IoU threshold
+  map: Record<string, number | null>;
+  // mAP averaged over every threshold, COCO's headline number
+  mapAverage: number | null;
+  confusion: ConfusionMatrix;
+  latency: LatencyStats;
+}
+
+type Outcome = 'tp' | 'fp' | 'ignore';
+
+// Greedy matching the way COCO does it: highest score first, each detection
+// takes the free box it overlaps most. Ignored boxes are only matched when no
+// real one is left and can absorb any number of detections.
+export function matchDetections(
+  detections: Detection[],
+  boxes: GroundTruthBox[],
+  threshold: number
+): { detection: Detection; outcome: Outcome; box?: GroundTruthBox }[] {
+  const sortedBoxes = [...boxes].sort((a, b) => Number(a.ignore) - Number(b.ignore));
+  const taken = new Set<GroundTruthBox>();
+
+  return [...detections]
+    .sort((a, b) => b.score - a.score)
+    .map(detection => {
+      let best: GroundTruthBox | undefined;
+      let bestIou = threshold;
+      for (const box of sortedBoxes) {
+        if (taken.has(box)) continue;
+        if (best && !best.ignore && box.ignore) break;
+        const overlap = iou(detection.bbox, box.bbox);
+        if (overlap < bestIou) continue;
+        best = box;
+        bestIou = overlap;
+      }
+
+      if (!best) return { detection, outcome: 'fp' as const };
+      if (best.ignore) return { detection, outcome: 'ignore' as const, box: best };
+      taken.add(best);
+      return { detection, outcome: 'tp' as const, box: best };
+    });
+}
+
+function counts(truePositives: number, falsePositives: number, falseNegatives: number): Counts {
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1 };
+}
+
+// Precision at each detection, best score first, with precision made
+// non-increasing so the curve is the usual interpolated envelope
+export function precisionRecall(scored: { score: number; tp: boolean }[], positives: number) {
+  const sorted = [...scored].sort((a, b) => b.score - a.score);
+  let tp = 0;
+  const points = sorted.map((entry, i) => {
+    if (entry.tp) tp++;
+    return { recall: positives > 0 ? tp / positives : 0, precision: tp / (i + 1) };
+  });
+  for (let i = points.length - 2; i >= 0; i--) {
+    points[i].precision = Math.max(points[i].precision, points[i + 1].precision);
+  }
+  return points;
+}
+
+// COCO's 101-point interpolated average precision
+export function averagePrecision(points: { recall: number; precision: number }[]): number {
+  let total = 0;
+  let i = 0;
+  for (let r = 0; r <= 100; r++) {
+    while (i < points.length && points[i].recall < r / 100) i++;
+    total += i < points.length ? points[i].precision : 0;
+  }
+  return total / 101;
+}
+
+// At most `max` evenly spread points, keeping the last
+function thin<T>(points: T[], max = 100): T[] {
+  if (points.length <= max) return points;
+  const step = points.length / max;
+  return Array.from({ length: max }, (_, i) => points[Math.min(points.length - 1, Math.round((i + 1) * step) - 1)]);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function latencyStats(times: number[]): LatencyStats {
+  const sorted = [...times].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.length ? sorted.reduce((sum, t) => sum + t, 0) / sorted.length : 0,
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99)
+  };
+}
+
+const thresholdKey = (threshold: number) => threshold.toFixed(2);
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+// Scores a detector run against the ground truth: AP per class at every IoU
+// threshold from all candidate detections, and precision/recall plus the
+// confusion matrix at the app's own operating point (its class filter and
+// minimum score), so a change to either shows up in the numbers.
+export function evaluateDetections(
+  images: EvaluatedImage[],
+  { filter, iouThresholds }: EvaluationOptions = DEFAULT_EVALUATION
+): EvaluationResult {
+  const classes = filter.classes;
+
+  const classMetrics = classes.map((name): ClassMetrics => {
+    const perImage = images.map(image => ({
+      boxes: image.boxes.filter(box => box.class === name),
+      candidates: image.detections.filter(d => d.class === name),
+      kept: filterVehicles(image.detections, filter).filter(d => d.class === name)
+    }));
+    const groundTruth = perImage.reduce((sum, { boxes }) => sum + boxes.filter(box => !box.ignore).length, 0);
+
+    const ap: Record<string, number | null> = {};
+    let curve: { recall: number; precision: number }[] = [];
+    iouThresholds.forEach((threshold, i) => {
+      const scored = perImage.flatMap(({ boxes, candidates }) =>
+        matchDetections(candidates, boxes, threshold)
+          .filter(match => match.outcome !== 'ignore')
+          .map(match => ({ score: match.detection.score, tp: match.outcome === 'tp' }))
+      );
+      const points = precisionRecall(scored, groundTruth);
+      ap[thresholdKey(threshold)] = groundTruth > 0 ? averagePrecision(points) : null;
+      if (i === 0) curve = thin(points);
+    });
+
+    let tp = 0;
+    let fp = 0;
+    perImage.forEach(({ boxes, kept }) => {
+      matchDetections(kept, boxes, OPERATING_IOU).forEach(match => {
+        if (match.outcome === 'tp') tp++;
+        else if (match.outcome === 'fp') fp++;
+      });
+    });
+
+    return { class: name, groundTruth, ap, curve, ...counts(tp, fp, groundTruth - tp) };
+  });
+
+  const map: Record<string, number | null> = {};
+  iouThresholds.forEach(threshold => {
+    const key = thresholdKey(threshold);
+    map[key] = mean(classMetrics.flatMap(c => (c.ap[key] === null ? [] : [c.ap[key] as number])));
+  });
+  const averages = Object.values(map).filter((value): value is number => value !== null);
+
+  const total = classMetrics.reduce(
+    (sum, c) => ({ tp: sum.tp + c.truePositives, fp: sum.fp + c.falsePositives, fn: sum.fn + c.falseNegatives }),
+    { tp: 0, fp: 0, fn: 0 }
+  );
+
+  return {
+    images: images.length,
+    operatingPoint: { minScore: filter.minScore, iou: OPERATING_IOU },
+    classes: classMetrics,
+    overall: counts(total.tp, total.fp, total.fn),
+    map,
+    mapAverage: mean(averages),
+    confusion: confusionMatrix(images, filter),
+    latency: latencyStats(images.map(image => image.latency))
+  };
+}
+
+// Which class each kept detection was given against what the box really is,
+// matching regardless of class so a truck called a car shows up as such
+export function confusionMatrix(images: EvaluatedImage[], filter: VehicleFilter): ConfusionMatrix {
+  const labels = [...filter.classes, BACKGROUND];
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const counts = labels.map(() => labels.map(() => 0));
+  const background = labels.length - 1;
+
+  images.forEach(image => {
+    const boxes = image.boxes.filter(box => index.has(box.class));
+    const matches = matchDetections(filterVehicles(image.detections, filter), boxes, OPERATING_IOU);
+    const found = new Set<GroundTruthBox>();
+
+    matches.forEach(({ detection, outcome, box }) => {
+      const predicted = index.get(detection.class) ?? background;
+      if (outcome === 'fp') counts[background][predicted]++;
+      else if (outcome === 'tp' && box) {
+        found.add(box);
+        counts[index.get(box.class) ?? background][predicted]++;
+      }
+    });
+
+    boxes.forEach(box => {
+      if (!box.ignore && !found.has(box)) counts[index.get(box.class) ?? background][background]++;
+    });
+  });
+
+  return { labels, counts };
+}
@@ -0,0 +1,155 @@
+import type { Detection } from '../types';
+import type { ClassMetrics, EvaluationResult } from './metrics';
+
+export interface EvaluationReport {
+  // ISO timestamp
+  generatedAt: string;
+  detector: string;
+  backend: string | null;
+  dataset: string;
+  result: EvaluationResult;
+  // What the app would have kept on each image, for chasing a bad number to its frames
+  images: { file: string; latency: number; detections: Detection[] }[];
+}
+
+const percent = (value: number | null) => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+const ms = (value: number) => `${value.toFixed(1)} ms`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function table(head: string[], rows: string[][]): string {
+  const cells = (row: string[], tag: 'th' | 'td') => row.map(cell => `<${tag}>${cell}</${tag}>`).join('');
+  return `<table><thead><tr>${cells(head, 'th')}</tr></thead><tbody>${
+    rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('')
+  }</tbody></table>`;
+}
+
+const CURVE_COLORS = ['#e74c3c', '#3498db', '#f39c12', '#9b59b6', '#00b894', '#6c5ce7'];
+
+// Precision/recall curves of every class on one small SVG chart
+function curveChart(classes: ClassMetrics[], iou: string): string {
+  const size = 260;
+  const pad = 30;
+  const x = (recall: number) => pad + recall * (size - pad * 1.5);
+  const y = (precision: number) => size - pad - precision * (size - pad * 1.5);
+
+  const lines = classes
+    .filter(c => c.curve.length)
+    .map((c, i) => {
+      const color = CURVE_COLORS[i % CURVE_COLORS.length];
+      const points = c.curve.map(p => `${x(p.recall).toFixed(1)},${y(p.precision).toFixed(1)}`).join(' ');
+      return `<polyline fill="none" stroke="${color}" stroke-width="2" points="${points}"><title>${escapeHtml(c.class)}</title></polyline>`;
+    })
+    .join('');
+  const legend = classes
+    .map((c, i) => `<span style="color:${CURVE_COLORS[i % CURVE_COLORS.length]}">■</span> ${escapeHtml(c.class)}`)
+    .join(' &nbsp; ');
+
+  return `<figure>
+<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+<rect x="${x(0)}" y="${y(1)}" width="${x(1) - x(0)}" height="${y(0) - y(1)}" fill="none" stroke="#ccc"/>
+<text x="${size / 2}" y="${size - 6}" text-anchor="middle">recall</text>
+<text x="10" y="${size / 2}" text-anchor="middle" transform="rotate(-90 10 ${size / 2})">precision</text>
+${lines}
+</svg>
+<figcaption>Precision/recall at IoU ${iou} &nbsp; ${legend}</figcaption>
+</figure>`;
+}
+
+// A self-contained page: open it straight from disk or attach it to a PR
+export function renderHtmlReport(report: EvaluationReport): string {
+  const { result } = report;
+  const thresholds = Object.keys(result.map);
+  const { confusion, latency, overall } = result;
+
+  const summary = table(
+    ['Images', `mAP@[${thresholds[0]}:${thresholds[thresholds.length - 1]}]`, 'Precision', 'Recall', 'F1', 'Mean latency'],
+    [[
+      String(result.images),
+      percent(result.mapAverage),
+      percent(overall.precision),
+      percent(overall.recall),
+      percent(overall.f1),
+      ms(latency.mean)
+    ]]
+  );
+
+  const perClass = table(
+    ['Class', 'Ground truth', 'TP', 'FP', 'FN', 'Precision', 'Recall', 'F1', ...thresholds.map(t => `AP@${t}`)],
+    result.classes.map(c => [
+      escapeHtml(c.class),
+      String(c.groundTruth),
+      String(c.truePositives),
+      String(c.falsePositives),
+      String(c.falseNegatives),
+      percent(c.precision),
+      percent(c.recall),
+      percent(c.f1),
+      ...thresholds.map(t => percent(c.ap[t]))
+    ])
+  );
+
+  const maps = table(thresholds.map(t => `mAP@${t}`), [thresholds.map(t => percent(result.map[t]))]);
+
+  const confusionTable = table(
+    ['true ↓ / predicted →', ...confusion.labels.map(escapeHtml)],
+    confusion.counts.map((row, i) => [
+      `<b>${escapeHtml(confusion.labels[i])}</b>`,
+      ...row.map((count, j) => (i === j && count ? `<b>${count}</b>` : String(count)))
+    ])
+  );
+
+  const latencyTable = table(
+    ['Runs', 'Mean', 'Min', 'p50', 'p90', 'p99', 'Max', 'Throughput'],
+    [[
+      String(latency.count),
+      ms(latency.mean),
+      ms(latency.min),
+      ms(latency.p50),
+      ms(latency.p90),
+      ms(latency.p99),
+      ms(latency.max),
+      latency.mean > 0 ? `${(1000 / latency.mean).toFixed(1)} fps` : '–'
+    ]]
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Detection evaluation – ${escapeHtml(report.detector)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; margin: 0.5rem 0 1.5rem; }
+th, td { border: 1px solid #ddd; padding: 4px 10px; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+th { background: #f4f4f8; }
+figure { margin: 0; }
+svg text { font-size: 11px; fill: #666; }
+.meta { color: #666; }
+</style>
+</head>
+<body>
+<h1>Detection evaluation</h1>
+<p class="meta">
+${escapeHtml(report.detector)} on ${escapeHtml(report.backend ?? 'unknown backend')} •
+${escapeHtml(report.dataset)} • ${escapeHtml(report.generatedAt)}<br>
+Operating point: score &gt; ${result.operatingPoint.minScore}, IoU ≥ ${result.operatingPoint.iou}
+</p>
+<h2>Summary</h2>
+${summary}
+<h2>Per class</h2>
+${perClass}
+<h2>mAP by IoU</h2>
+${maps}
+${curveChart(result.classes, thresholds[0])}
+<h2>Confusion</h2>
+${confusionTable}
+<h2>Latency</h2>
+${latencyTable}
+</body>
+</html>
+`;
+}
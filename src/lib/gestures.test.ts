@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GestureRecognizer, type GestureChange } from './gestures';
+
+function recognizer() {
+  const handlers = {
+    onStart: vi.fn(),
+    onChange: vi.fn<(change: GestureChange) => void>(),
+    onEnd: vi.fn(),
+    onTap: vi.fn(),
+    onLongPress: vi.fn()
+  };
+  return { gestures: new GestureRecognizer(handlers, { slop: 8, longPressMs: 500 }), handlers };
+}
+
+const lastChange = (onChange: ReturnType<typeof recognizer>['handlers']['onChange']) =>
+  onChange.mock.calls[onChange.mock.calls.length - 1][0];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('tap and drag', () => {
+  it('is a tap when the pointer stays within the slop', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerMove(1, { x: 105, y: 106 });
+    gestures.pointerUp(1, { x: 105, y: 106 });
+
+    expect(handlers.onTap).toHaveBeenCalledWith({ x: 105, y: 106 });
+    expect(handlers.onStart).not.toHaveBeenCalled();
+    expect(handlers.onChange).not.toHaveBeenCalled();
+  });
+
+  it('becomes a drag past the slop and reports the pan from where it went down', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerMove(1, { x: 109, y: 100 });
+    expect(handlers.onStart).toHaveBeenCalledTimes(1);
+    expect(lastChange(handlers.onChange)).toEqual({ pan: { x: 9, y: 0 }, scale: 1, rotation: 0, pointers: 1 });
+
+    gestures.pointerMove(1, { x: 120, y: 90 });
+    expect(lastChange(handlers.onChange).pan).toEqual({ x: 11, y: -10 });
+
+    gestures.pointerUp(1, { x: 120, y: 90 });
+    expect(handlers.onEnd).toHaveBeenCalledTimes(1);
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+
+  it('stays a drag when the pointer comes back inside the slop', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerMove(1, { x: 120, y: 100 });
+    gestures.pointerMove(1, { x: 100, y: 100 });
+    gestures.pointerUp(1, { x: 100, y: 100 });
+
+    expect(handlers.onTap).not.toHaveBeenCalled();
+    expect(handlers.onEnd).toHaveBeenCalled();
+  });
+
+  it('long-presses a pointer held still, and then neither taps nor drags', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    vi.advanceTimersByTime(500);
+    expect(handlers.onLongPress).toHaveBeenCalledWith({ x: 100, y: 100 });
+
+    gestures.pointerMove(1, { x: 150, y: 100 });
+    gestures.pointerUp(1, { x: 150, y: 100 });
+    expect(handlers.onChange).not.toHaveBeenCalled();
+    expect(handlers.onTap).not.toHaveBeenCalled();
+    expect(handlers.onEnd).not.toHaveBeenCalled();
+  });
+
+  it('cancels the long press once the pointer moves past the slop', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerMove(1, { x: 120, y: 100 });
+    vi.advanceTimersByTime(1000);
+
+    expect(handlers.onLongPress).not.toHaveBeenCalled();
+  });
+});
+
+describe('two fingers', () => {
+  it('starts a gesture as soon as the second finger lands', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerDown(2, { x: 200, y: 100 });
+    vi.advanceTimersByTime(1000);
+
+    expect(handlers.onStart).toHaveBeenCalledTimes(1);
+    expect(handlers.onLongPress).not.toHaveBeenCalled();
+  });
+
+  it('reports pinch scale as the ratio of finger spreads', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerDown(2, { x: 200, y: 100 });
+    // Spread 100 to 150, symmetric so the centroid holds
+    gestures.pointerMove(1, { x: 75, y: 100 });
+    gestures.pointerMove(2, { x: 225, y: 100 });
+
+    const [first, second] = handlers.onChange.mock.calls.map(([change]) => change);
+    expect(first.scale).toBeCloseTo(125 / 100);
+    expect(second.scale).toBeCloseTo(150 / 125);
+    expect(first.scale * second.scale).toBeCloseTo(1.5);
+    expect(first.pan.x + second.pan.x).toBeCloseTo(0);
+    expect(second.pointers).toBe(2);
+  });
+
+  it('reports a two-finger twist as clockwise rotation', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerDown(2, { x: 200, y: 100 });
+    // The second finger swings a quarter turn clockwise about the first (y points down)
+    gestures.pointerMove(2, { x: 100, y: 200 });
+
+    const change = lastChange(handlers.onChange);
+    expect(change.rotation).toBeCloseTo(Math.PI / 2);
+    expect(change.scale).toBeCloseTo(1);
+  });
+
+  it('takes the short way round across ±π', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerDown(2, { x: 0, y: 101 });
+    gestures.pointerMove(2, { x: 0, y: 99 });
+
+    expect(Math.abs(lastChange(handlers.onChange).rotation)).toBeLessThan(0.05);
+  });
+
+  it('lets the remaining finger carry on without a jump', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerDown(2, { x: 200, y: 100 });
+    gestures.pointerUp(2, { x: 200, y: 100 });
+    expect(handlers.onEnd).not.toHaveBeenCalled();
+
+    gestures.pointerMove(1, { x: 110, y: 100 });
+    expect(lastChange(handlers.onChange)).toEqual({ pan: { x: 10, y: 0 }, scale: 1, rotation: 0, pointers: 1 });
+
+    gestures.pointerUp(1, { x: 110, y: 100 });
+    expect(handlers.onEnd).toHaveBeenCalledTimes(1);
+    expect(handlers.onTap).not.toHaveBeenCalled();
+  });
+});
+
+describe('cancel and reset', () => {
+  it('ends a started gesture when the browser takes the pointer', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerMove(1, { x: 150, y: 100 });
+    gestures.pointerCancel(1);
+
+    expect(handlers.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not tap when a pending pointer is cancelled', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.pointerCancel(1);
+
+    expect(handlers.onTap).not.toHaveBeenCalled();
+    expect(handlers.onEnd).not.toHaveBeenCalled();
+  });
+
+  it('reports nothing after a reset', () => {
+    const { gestures, handlers } = recognizer();
+
+    gestures.pointerDown(1, { x: 100, y: 100 });
+    gestures.reset();
+    gestures.pointerMove(1, { x: 150, y: 100 });
+    gestures.pointerUp(1, { x: 150, y: 100 });
+    vi.advanceTimersByTime(1000);
+
+    expect(Object.values(handlers).every(handler => handler.mock.calls.length === 0)).toBe(true);
+    expect(gestures.active).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+import { normalizeAngle } from './heading';
+import type { ScreenPoint } from './types';
+
+// What the fingers did since the previous change
+export interface GestureChange {
+  // Movement of the centroid in CSS px
+  pan: ScreenPoint;
+  // Ratio of the finger spread to its previous value; 1 with a single pointer
+  scale: number;
+  // Radians the line between the first two fingers turned, clockwise on screen
+  rotation: number;
+  // Pointers down, so callers can tell a drag from a pinch
+  pointers: number;
+}
+
+export interface GestureHandlers {
+  // A drag, pinch or twist has begun
+  onStart?: () => void;
+  onChange?: (change: GestureChange) => void;
+  // The last pointer of a started gesture lifted
+  onEnd?: () => void;
+  onTap?: (point: ScreenPoint) => void;
+  // A single pointer held still; the gesture ends there
+  onLongPress?: (point: ScreenPoint) => void;
+}
+
+export interface GestureOptions {
+  longPressMs: number;
+  // How far (CSS px) a pointer may wander and still be a tap or long press
+  slop: number;
+}
+
+export const DEFAULT_GESTURES: GestureOptions = {
+  longPressMs: 500,
+  slop: 8
+};
+
+type GestureState = 'idle' | 'pending' | 'active' | 'held';
+
+interface Baseline {
+  centroid: ScreenPoint;
+  spread: number;
+  angle: number;
+}
+
+// Turns raw pointer downs, moves and ups into drags, pinches, twists, taps
+// and long presses. It knows nothing about the DOM: feed it pointer ids and
+// positions from whatever event source there is (pointer, touch or mouse
+// events, or a test). Handlers can be swapped at any time.
+export class GestureRecognizer {
+  private pointers = new Map<number, ScreenPoint>();
+  private state: GestureState = 'idle';
+  private origin: ScreenPoint = { x: 0, y: 0 };
+  private baseline: Baseline | null = null;
+  private longPressTimer: ReturnType<typeof setTimeout> | null = null;
+  private options: GestureOptions;
+
+  constructor(public handlers: GestureHandlers = {}, options: Partial<GestureOptions> = {}) {
+    this.options = { ...DEFAULT_GESTURES, ...options };
+  }
+
+  get active(): boolean {
+    return this.state === 'active';
+  }
+
+  pointerDown(id: number, point: ScreenPoint) {
+    this.pointers.set(id, point);
+
+    if (this.pointers.size === 1) {
+      this.state = 'pending';
+      this.origin = point;
+      this.startLongPress();
+    } else if (this.state === 'pending') {
+      // A second finger makes it a pinch/twist straight away
+      this.clearLongPress();
+      this.state = 'active';
+      this.handlers.onStart?.();
+    }
+    this.baseline = this.measure();
+  }
+
+  pointerMove(id: number, point: ScreenPoint) {
+    if (!this.pointers.has(id)) return;
+    this.pointers.set(id, point);
+
+    if (this.state === 'pending') {
+      if (Math.hypot(point.x - this.origin.x, point.y - this.origin.y) <= this.options.slop) return;
+      this.clearLongPress();
+      this.state = 'active';
+      this.handlers.onStart?.();
+    }
+    if (this.state !== 'active') return;
+
+    const previous = this.baseline;
+    const current = this.measure();
+    this.baseline = current;
+    if (!previous || !current) return;
+
+    this.handlers.onChange?.({
+      pan: { x: current.centroid.x - previous.centroid.x, y: current.centroid.y - previous.centroid.y },
+      scale: previous.spread > 0 && current.spread > 0 ? current.spread / previous.spread : 1,
+      rotation: this.pointers.size > 1 ? normalizeAngle(current.angle - previous.angle) : 0,
+      pointers: this.pointers.size
+    });
+  }
+
+  pointerUp(id: number, point: ScreenPoint) {
+    if (!this.pointers.has(id)) return;
+    this.pointers.delete(id);
+
+    if (this.pointers.size > 0) {
+      // Re-measure so the remaining fingers don't jump
+      this.baseline = this.measure();
+      return;
+    }
+
+    const state = this.state;
+    this.finish();
+    if (state === 'pending') this.handlers.onTap?.(point);
+    else if (state === 'active') this.handlers.onEnd?.();
+  }
+
+  // The browser took the pointer away (scrolling, a system gesture); a
+  // started gesture still ends normally so its changes can be kept
+  pointerCancel(id: number) {
+    if (!this.pointers.has(id)) return;
+    this.pointers.delete(id);
+    if (this.pointers.size > 0) {
+      this.baseline = this.measure();
+      return;
+    }
+    const state = this.state;
+    this.finish();
+    if (state === 'active') this.handlers.onEnd?.();
+  }
+
+  // Drops every pointer without reporting anything
+  reset() {
+    this.pointers.clear();
+    this.finish();
+  }
+
+  private finish() {
+    this.clearLongPress();
+    this.state = 'idle';
+    this.baseline = null;
+  }
+
+  private startLongPress() {
+    this.clearLongPress();
+    this.longPressTimer = setTimeout(() => {
+      this.longPressTimer = null;
+      if (this.state !== 'pending') return;
+      this.state = 'held';
+      this.handlers.onLongPress?.(this.origin);
+    }, this.options.longPressMs);
+  }
+
+  private clearLongPress() {
+    if (this.longPressTimer !== null) clearTimeout(this.longPressTimer);
+    this.longPressTimer = null;
+  }
+
+  // Centroid of every pointer; spread and angle of the first two
+  private measure(): Baseline | null {
+    const points = [...this.pointers.values()];
+    if (points.length === 0) return null;
+
+    const centroid = {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    };
+    if (points.length < 2) return { centroid, spread: 0, angle: 0 };
+
+    const [a, b] = points;
+    return {
+      centroid,
+      spread: Math.hypot(b.x - a.x, b.y - a.y),
+      angle: Math.atan2(b.y - a.y, b.x - a.x)
+    };
+  }
+}
@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_CAMERA_FOV,
+  DEFAULT_CAMERA_HEIGHT,
+  DEFAULT_PITCH,
+  DEFAULT_VERTICAL_FOV,
+  GroundPlaneEstimator,
+  focalLength,
+  groundDistance,
+  groundToScreen,
+  horizonY,
+  pitchFromOrientation,
+  requestOrientationAccess,
+  screenToGround,
+  viewportFov,
+  type GroundPlane
+} from './ground-plane';
+
+const plane: GroundPlane = { pitch: 0.2, cameraHeight: 1.4, fov: 50, viewportWidth: 800, viewportHeight: 600 };
+const level: GroundPlane = { ...plane, pitch: 0 };
+
+// The box a vehicle `height` metres tall makes `distance` metres straight
+// ahead of a level camera
+function vehicleBox(cameraHeight: number, height: number, distance: number) {
+  const f = focalLength(level);
+  const top = 300 - (f * (height - cameraHeight)) / distance;
+  const bottom = 300 + (f * cameraHeight) / distance;
+  return { x: 350, y: top, width: 100, height: bottom - top };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ground projection', () => {
+  it('puts the horizon at the center for a level camera and higher as it tilts down', () => {
+    expect(horizonY(level)).toBe(300);
+    expect(horizonY(plane)).toBeLessThan(300);
+  });
+
+  it('maps ground points to the screen and back', () => {
+    for (const point of [{ x: 0, z: 5 }, { x: -2, z: 12 }, { x: 3, z: 30 }]) {
+      const screen = groundToScreen(plane, point)!;
+      const ground = screenToGround(plane, screen)!;
+      expect(ground.x).toBeCloseTo(point.x, 6);
+      expect(ground.z).toBeCloseTo(point.z, 6);
+    }
+  });
+
+  it('draws farther points higher and closer to the center', () => {
+    const near = groundToScreen(plane, { x: 2, z: 5 })!;
+    const far = groundToScreen(plane, { x: 2, z: 20 })!;
+
+    expect(far.y).toBeLessThan(near.y);
+    expect(far.x - 400).toBeLessThan(near.x - 400);
+  });
+
+  it('finds no ground above the horizon or behind the camera', () => {
+    expect(screenToGround(plane, { x: 400, y: horizonY(plane) - 1 })).toBeNull();
+    expect(groundToScreen(plane, { x: 0, z: -1 })).toBeNull();
+  });
+
+  it('measures distance from the camera, not from the point below it', () => {
+    expect(groundDistance(plane, { x: 0, z: 0 })).toBe(1.4);
+    expect(groundDistance({ ...plane, cameraHeight: 3 }, { x: 4, z: 0 })).toBe(5);
+  });
+});
+
+describe('viewportFov', () => {
+  it('falls back to the default before the video has a size', () => {
+    expect(viewportFov(null, 0, 0, 800, 600)).toBe(DEFAULT_VERTICAL_FOV);
+  });
+
+  it('follows the side of the video the viewport shows, and narrows as the lens zooms in', () => {
+    const full = viewportFov(null, 1280, 720, 1280, 720);
+    const cropped = viewportFov(null, 1280, 720, 720, 720);
+    const zoomed = viewportFov({ getSettings: () => ({ zoom: 2 }) } as unknown as MediaStreamTrack, 1280, 720, 1280, 720);
+
+    // 69° across the long side leaves about 42° on the short side
+    expect(full).toBeCloseTo(42.3, 1);
+    // Cropping the sides away leaves the height as it was
+    expect(cropped).toBeCloseTo(full, 6);
+    // A portrait video runs its long side up the screen
+    expect(viewportFov(null, 720, 1280, 720, 1280)).toBeCloseTo(69, 6);
+    expect(zoomed).toBeLessThan(full / 1.5);
+  });
+
+  it('takes the lens from its calibration, then from the track, then the default', () => {
+    const reporting = { getSettings: () => ({ fieldOfView: 80 }) } as unknown as MediaStreamTrack;
+
+    // Portrait, so the viewport height is the lens's long side
+    expect(viewportFov(reporting, 720, 1280, 720, 1280, 62)).toBeCloseTo(62, 6);
+    expect(viewportFov(reporting, 720, 1280, 720, 1280)).toBeCloseTo(80, 6);
+    expect(viewportFov(null, 720, 1280, 720, 1280)).toBeCloseTo(DEFAULT_CAMERA_FOV, 6);
+  });
+});
+
+describe('pitchFromOrientation', () => {
+  it('is zero for an upright phone and grows as it tips toward the ground', () => {
+    expect(pitchFromOrientation(90, 0, 0)).toBe(0);
+    expect(pitchFromOrientation(60, 0, 0)).toBeCloseTo(Math.PI / 6, 10);
+  });
+
+  it('reads the tilt from gamma in landscape', () => {
+    expect(pitchFromOrientation(0, -60, 90)).toBeCloseTo(Math.PI / 6, 10);
+    expect(pitchFromOrientation(0, 60, 270)).toBeCloseTo(Math.PI / 6, 10);
+  });
+});
+
+describe('requestOrientationAccess', () => {
+  it('is granted where the browser does not ask', async () => {
+    vi.stubGlobal('DeviceOrientationEvent', class {});
+    expect(await requestOrientationAccess()).toBe(true);
+  });
+
+  it('follows the answer where it does, and treats an error as a refusal', async () => {
+    vi.stubGlobal('DeviceOrientationEvent', { requestPermission: async () => 'denied' });
+    expect(await requestOrientationAccess()).toBe(false);
+
+    vi.stubGlobal('DeviceOrientationEvent', { requestPermission: () => Promise.reject(new Error('no gesture')) });
+    expect(await requestOrientationAccess()).toBe(false);
+  });
+});
+
+describe('GroundPlaneEstimator', () => {
+  it('starts from the assumed pitch and camera height', () => {
+    expect(new GroundPlaneEstimator(50).estimate(800, 600)).toEqual({
+      pitch: DEFAULT_PITCH,
+      cameraHeight: DEFAULT_CAMERA_HEIGHT,
+      fov: 50,
+      viewportWidth: 800,
+      viewportHeight: 600
+    });
+  });
+
+  it('takes the pitch from the sensor and the camera height from vehicles', () => {
+    const estimator = new GroundPlaneEstimator(50);
+    estimator.observeOrientation(0, 0);
+    for (let i = 0; i < 10; i++) estimator.observeVehicle(vehicleBox(2, 1.5, 10 + i), 1.5, i * 100, 800, 600);
+
+    const estimate = estimator.estimate(800, 600);
+    expect(estimate.pitch).toBe(0);
+    expect(estimate.cameraHeight).toBeCloseTo(2, 6);
+  });
+
+  it('places the horizon from vehicles when there is no sensor', () => {
+    const estimator = new GroundPlaneEstimator(50);
+    for (let i = 0; i < 10; i++) {
+      estimator.observeVehicle(vehicleBox(DEFAULT_CAMERA_HEIGHT, 1.5, 10 + i), 1.5, i * 100, 800, 600);
+    }
+
+    const estimate = estimator.estimate(800, 600);
+    expect(estimate.pitch).toBeCloseTo(0, 6);
+    expect(estimate.cameraHeight).toBe(DEFAULT_CAMERA_HEIGHT);
+  });
+
+  it('keeps implausible readings within limits and ignores flat boxes', () => {
+    const estimator = new GroundPlaneEstimator(50);
+    estimator.observeOrientation(3, 0);
+    estimator.observeVehicle({ x: 0, y: 400, width: 100, height: 0 }, 1.5, 100, 800, 600);
+
+    expect(estimator.estimate(800, 600)).toMatchObject({ pitch: 1.3, cameraHeight: DEFAULT_CAMERA_HEIGHT });
+  });
+
+  it('starts from a saved calibration and refines it from there', () => {
+    const estimator = new GroundPlaneEstimator(50);
+    estimator.observeVehicle(vehicleBox(DEFAULT_CAMERA_HEIGHT, 1.5, 10), 1.5, 0, 800, 600);
+    estimator.calibrate({ pitch: 0.4, cameraHeight: 2.5 }, 100);
+    expect(estimator.estimate(800, 600)).toMatchObject({ pitch: 0.4, cameraHeight: 2.5 });
+
+    for (let i = 1; i <= 50; i++) estimator.observeVehicle(vehicleBox(2.5, 1.5, 10), 1.5, 100 + i * 100, 800, 600);
+    expect(estimator.estimate(800, 600).pitch).toBeLessThan(0.4);
+  });
+
+  it('keeps the sensor pitch over a saved one', () => {
+    const estimator = new GroundPlaneEstimator(50);
+    estimator.observeOrientation(0.1, 0);
+    estimator.calibrate({ pitch: 0.4, cameraHeight: 9 }, 100);
+
+    // The height is still kept within limits
+    expect(estimator.estimate(800, 600)).toMatchObject({ pitch: 0.1, cameraHeight: 5 });
+  });
+
+  it('goes back to the assumptions after a reset', () => {
+    const estimator = new GroundPlaneEstimator(50);
+    estimator.observeOrientation(0.5, 0);
+    estimator.reset();
+
+    expect(estimator.estimate(800, 600)).toMatchObject({ pitch: DEFAULT_PITCH, cameraHeight: DEFAULT_CAMERA_HEIGHT });
+  });
+});
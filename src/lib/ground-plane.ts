@@ -0,0 +1,226 @@
+import { OneEuroFilter, DEFAULT_FLOOR_SMOOTHING, type FilterOptions } from './smoothing';
+import { currentZoom, reportedFieldOfView } from './camera';
+import type { CarPosition, ScreenPoint } from './types';
+
+// Pinhole camera above a flat ground, tilted down by `pitch` and otherwise
+// level. The principal point is the viewport center. Ground coordinates are
+// metres: x to the right, z straight ahead along the ground.
+export interface GroundPlane {
+  // Downward tilt of the optical axis in radians; negative looks up
+  pitch: number;
+  // Height of the camera above the ground, in metres
+  cameraHeight: number;
+  // Vertical field of view in degrees
+  fov: number;
+  viewportWidth: number;
+  viewportHeight: number;
+}
+
+export interface GroundPoint {
+  x: number;
+  z: number;
+}
+
+// Matches the AR scene's camera until a real field of view is known
+export const DEFAULT_VERTICAL_FOV = 50;
+// A phone held at chest height
+export const DEFAULT_CAMERA_HEIGHT = 1.4;
+export const DEFAULT_PITCH = 0.2;
+
+// Field of view across the long side of a phone's main camera at 1x zoom,
+// about a 26mm equivalent lens. Only a fallback: phones range from about 60°
+// to over 80°, which skews distances and sizes by up to ~20%, so a lens
+// calibration (CameraSettings.fieldOfView) or a reported value wins.
+export const DEFAULT_CAMERA_FOV = 69;
+
+const PITCH_LIMITS: [number, number] = [-0.3, 1.3];
+const HEIGHT_LIMITS: [number, number] = [0.3, 5];
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+export function focalLength(plane: GroundPlane): number {
+  return plane.viewportHeight / 2 / Math.tan((plane.fov * Math.PI) / 360);
+}
+
+// Screen row where the ground meets the sky; may lie off screen
+export function horizonY(plane: GroundPlane): number {
+  return plane.viewportHeight / 2 - focalLength(plane) * Math.tan(plane.pitch);
+}
+
+// Where the viewing ray through a screen point meets the ground, or null above the horizon
+export function screenToGround(plane: GroundPlane, point: ScreenPoint): GroundPoint | null {
+  const f = focalLength(plane);
+  const nx = (point.x - plane.viewportWidth / 2) / f;
+  const ny = (plane.viewportHeight / 2 - point.y) / f;
+  const cos = Math.cos(plane.pitch);
+  const sin = Math.sin(plane.pitch);
+
+  // Ray direction with the camera looking down -z, rotated into the level frame
+  const dy = ny * cos - sin;
+  if (dy >= -1e-6) return null;
+  const t = -plane.cameraHeight / dy;
+  return { x: t * nx, z: t * (ny * sin + cos) };
+}
+
+// Position of a ground point relative to the camera in its own axes
+// (x right, y up, looking down -z), in metres
+export function groundToCamera(plane: GroundPlane, point: GroundPoint): [number, number, number] {
+  const cos = Math.cos(plane.pitch);
+  const sin = Math.sin(plane.pitch);
+  return [
+    point.x,
+    -plane.cameraHeight * cos + point.z * sin,
+    -plane.cameraHeight * sin - point.z * cos
+  ];
+}
+
+// Screen position of a ground point, or null if it is behind the camera
+export function groundToScreen(plane: GroundPlane, point: GroundPoint): ScreenPoint | null {
+  const [x, y, z] = groundToCamera(plane, point);
+  if (z > -1e-3) return null;
+  const f = focalLength(plane);
+  return {
+    x: plane.viewportWidth / 2 + (f * x) / -z,
+    y: plane.viewportHeight / 2 - (f * y) / -z
+  };
+}
+
+// Straight-line distance from the camera to a ground point, in metres
+export function groundDistance(plane: GroundPlane, point: GroundPoint): number {
+  return Math.hypot(point.x, point.z, plane.cameraHeight);
+}
+
+// Vertical field of view of the viewport when it shows the camera stream
+// with object-fit: cover. `lensFov` is the calibrated field of view across
+// the long side at 1x; without one the track's own report is used, then
+// DEFAULT_CAMERA_FOV. Zoom narrows the lens where the track reports it.
+export function viewportFov(
+  track: MediaStreamTrack | null,
+  videoWidth: number,
+  videoHeight: number,
+  viewportWidth: number,
+  viewportHeight: number,
+  lensFov?: number
+): number {
+  if (!videoWidth || !videoHeight || !viewportWidth || !viewportHeight) return DEFAULT_VERTICAL_FOV;
+
+  const fov = lensFov ?? reportedFieldOfView(track) ?? DEFAULT_CAMERA_FOV;
+  const halfTan = Math.tan((fov * Math.PI) / 360) / Math.max(currentZoom(track), 1e-3);
+  const videoFocal = Math.max(videoWidth, videoHeight) / 2 / halfTan;
+
+  // Cover scales the video up until both sides fill the viewport
+  const cover = Math.max(viewportWidth / videoWidth, viewportHeight / videoHeight);
+  return (2 * Math.atan(viewportHeight / 2 / (videoFocal * cover)) * 180) / Math.PI;
+}
+
+// Camera pitch from DeviceOrientationEvent angles (degrees) and the screen
+// orientation angle. An upright phone facing the horizon has zero pitch.
+export function pitchFromOrientation(beta: number, gamma: number, screenAngle: number): number {
+  const landscape = screenAngle === 90 || screenAngle === 270 || screenAngle === -90;
+  const tilt = landscape ? Math.abs(gamma) : beta;
+  return ((90 - tilt) * Math.PI) / 180;
+}
+
+// Reports camera pitch from the orientation sensor where the browser exposes
+// one. Returns a function that stops watching.
+export function watchDevicePitch(onChange: (pitch: number) => void): () => void {
+  if (typeof window === 'undefined' || !('DeviceOrientationEvent' in window)) return () => {};
+
+  const handleOrientation = (e: DeviceOrientationEvent) => {
+    if (e.beta === null || e.gamma === null) return;
+    onChange(pitchFromOrientation(e.beta, e.gamma, screen.orientation?.angle ?? 0));
+  };
+
+  window.addEventListener('deviceorientation', handleOrientation);
+  return () => window.removeEventListener('deviceorientation', handleOrientation);
+}
+
+// iOS only delivers orientation events after asking from a user gesture
+export async function requestOrientationAccess(): Promise<boolean> {
+  const OrientationEvent = (globalThis as {
+    DeviceOrientationEvent?: { requestPermission?: () => Promise<'granted' | 'denied'> };
+  }).DeviceOrientationEvent;
+  if (!OrientationEvent?.requestPermission) return true;
+  try {
+    return (await OrientationEvent.requestPermission()) === 'granted';
+  } catch {
+    return false;
+  }
+}
+
+// Fuses the orientation sensor with detected vehicles into a ground plane.
+// A vehicle box spans the vehicle's known height and its bottom touches the
+// ground, so given the horizon it yields the camera height, and given the
+// camera height it yields the horizon (and so the pitch). The sensor, when
+// present, owns the pitch and vehicles calibrate the height; without it an
+// assumed height lets vehicles place the horizon instead.
+export class GroundPlaneEstimator {
+  private pitchFilter: OneEuroFilter;
+  private heightFilter: OneEuroFilter;
+  private sensorPitch: number | null = null;
+  private pitch = DEFAULT_PITCH;
+  private cameraHeight = DEFAULT_CAMERA_HEIGHT;
+
+  constructor(private fov = DEFAULT_VERTICAL_FOV, options: FilterOptions = DEFAULT_FLOOR_SMOOTHING) {
+    this.pitchFilter = new OneEuroFilter(options);
+    this.heightFilter = new OneEuroFilter(options);
+  }
+
+  setFov(fov: number) {
+    this.fov = fov;
+  }
+
+  observeOrientation(pitch: number, timestamp: number) {
+    this.sensorPitch = this.pitchFilter.filter(clamp(pitch, PITCH_LIMITS), timestamp);
+    this.pitch = this.sensorPitch;
+  }
+
+  // Feeds one ground-standing vehicle box in screen pixels and its real height in metres
+  observeVehicle(box: CarPosition, realHeight: number, timestamp: number, viewportWidth: number, viewportHeight: number) {
+    if (box.height <= 0) return;
+
+    const bottom = box.y + box.height;
+    const plane = this.estimate(viewportWidth, viewportHeight);
+
+    if (this.sensorPitch !== null) {
+      const height = (realHeight * (bottom - horizonY(plane))) / box.height;
+      this.cameraHeight = this.heightFilter.filter(clamp(height, HEIGHT_LIMITS), timestamp);
+    } else {
+      const horizon = bottom - (this.cameraHeight * box.height) / realHeight;
+      const pitch = Math.atan((viewportHeight / 2 - horizon) / focalLength(plane));
+      this.pitch = this.pitchFilter.filter(clamp(pitch, PITCH_LIMITS), timestamp);
+    }
+  }
+
+  // Starts from a saved calibration; live sensor and vehicle evidence refine it from there
+  calibrate({ pitch, cameraHeight }: Pick<GroundPlane, 'pitch' | 'cameraHeight'>, timestamp: number) {
+    this.heightFilter.reset();
+    this.cameraHeight = this.heightFilter.filter(clamp(cameraHeight, HEIGHT_LIMITS), timestamp);
+    if (this.sensorPitch === null) {
+      this.pitchFilter.reset();
+      this.pitch = this.pitchFilter.filter(clamp(pitch, PITCH_LIMITS), timestamp);
+    }
+  }
+
+  estimate(viewportWidth: number, viewportHeight: number): GroundPlane {
+    return {
+      pitch: this.pitch,
+      cameraHeight: this.cameraHeight,
+      fov: this.fov,
+      viewportWidth,
+      viewportHeight
+    };
+  }
+
+  reset() {
+    this.pitchFilter.reset();
+    this.heightFilter.reset();
+    this.sensorPitch = null;
+    this.pitch = DEFAULT_PITCH;
+    this.cameraHeight = DEFAULT_CAMERA_HEIGHT;
+  }
+}
+
+export function defaultGroundPlane(viewportWidth: number, viewportHeight: number): GroundPlane {
+  return new GroundPlaneEstimator().estimate(viewportWidth, viewportHeight);
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import crops from './__fixtures__/heading-crops.json';
+import { HeadingTracker, estimateHeading, normalizeAngle, type Viewpoint } from './heading';
+
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+// Degrees between two yaws, the short way round
+const yawError = (radians: number, expected: number) => Math.abs(degrees(normalizeAngle(radians - (expected * Math.PI) / 180)));
+
+// Boxes around vehicles rendered at known headings by
+// scripts/render-heading-crops.ts. The bounds are what the box-aspect
+// baseline manages on them; tighten them as it improves.
+describe('estimateHeading on rendered vehicles', () => {
+  const estimates = crops.map(crop => {
+    const estimate = estimateHeading(crop.box, crop.class, {
+      velocity: crop.velocity as [number, number] | undefined,
+      pitch: crop.pitch
+    });
+    return { crop, estimate, error: yawError(estimate.yaw, crop.yaw) };
+  });
+
+  it.each(crops.map((crop, i) => ({ name: crop.name, i })))('never turns $name into a mirror image', ({ i }) => {
+    expect(estimates[i].error).toBeLessThan(45);
+  });
+
+  it('is within 15° on the median vehicle', () => {
+    const errors = estimates.map(({ error }) => error).sort((a, b) => a - b);
+
+    expect(errors[Math.floor(errors.length / 2)]).toBeLessThan(15);
+  });
+
+  it('names the viewpoint of most vehicles', () => {
+    const right = estimates.filter(({ crop, estimate }) => estimate.viewpoint === (crop.viewpoint as Viewpoint));
+
+    expect(right.length / crops.length).toBeGreaterThanOrEqual(0.8);
+  });
+});
+
+describe('estimateHeading', () => {
+  it('is unsure of a side view, which several angles explain', () => {
+    const side = estimateHeading({ width: 300, height: 100 }, 'car');
+    const headOn = estimateHeading({ width: 120, height: 100 }, 'car');
+
+    expect(side.confidence).toBeLessThan(0.2);
+    expect(headOn.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('takes front or rear from a viewpoint hint', () => {
+    const estimate = estimateHeading({ width: 300, height: 100 }, 'car', { viewpoint: 'rear' });
+
+    expect(estimate.viewpoint).toBe('rear');
+    // At least 70° off the side view, facing away
+    expect(degrees(estimate.yaw)).toBeGreaterThanOrEqual(70 - 1e-9);
+    expect(degrees(estimate.yaw)).toBeLessThanOrEqual(90);
+  });
+
+  it('keeps a side hint near a side view', () => {
+    const estimate = estimateHeading({ width: 120, height: 100 }, 'car', { viewpoint: 'side' });
+
+    expect(estimate.viewpoint).toBe('side');
+    expect(Math.abs(degrees(estimate.yaw))).toBeLessThanOrEqual(20 + 1e-9);
+  });
+
+  it('keeps the previous direction for a parked vehicle', () => {
+    const estimate = estimateHeading({ width: 300, height: 100 }, 'car', { previous: Math.PI });
+
+    expect(yawError(estimate.yaw, 180)).toBeLessThan(5);
+  });
+
+  it('falls back to car proportions for an unknown class', () => {
+    expect(estimateHeading({ width: 240, height: 100 }, 'tractor')).toEqual(
+      estimateHeading({ width: 240, height: 100 }, 'car')
+    );
+  });
+});
+
+describe('HeadingTracker', () => {
+  it('starts at the estimate and then eases toward new ones', () => {
+    const tracker = new HeadingTracker(0.3);
+    const first = tracker.update(1, { width: 120, height: 100 }, 'car');
+    expect(yawError(first, -90)).toBeLessThan(1);
+
+    const second = tracker.update(1, { width: 240, height: 100 }, 'car');
+    expect(degrees(second)).toBeGreaterThan(-90);
+    expect(degrees(second)).toBeLessThan(-64);
+  });
+
+  it('forgets vehicles that are not retained', () => {
+    const tracker = new HeadingTracker();
+    tracker.update(1, { width: 120, height: 100 }, 'car');
+    tracker.update(2, { width: 120, height: 100 }, 'car');
+    tracker.retain([2]);
+
+    // A fresh start takes the new estimate as is
+    const yaw = tracker.update(1, { width: 240, height: 100 }, 'car');
+    expect(yaw).toBe(estimateHeading({ width: 240, height: 100 }, 'car').yaw);
+  });
+});
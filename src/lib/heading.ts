@@ -0,0 +1,147 @@
+import { vehicleDimensions } from './vehicle-estimate';
+
+// Which side of the vehicle faces the camera
+export type Viewpoint = 'front' | 'front-three-quarter' | 'side' | 'rear-three-quarter' | 'rear';
+
+// Anything with pixel dimensions: an ImageData crop, a canvas or a screen box
+export interface CropLike {
+  width: number;
+  height: number;
+}
+
+export interface HeadingHints {
+  // Tracker velocity in px/ms; tells which way the vehicle is going
+  velocity?: [number, number];
+  // Camera pitch in radians; a downward view adds the roof to the box height
+  pitch?: number;
+  // From a viewpoint model run on the crop, if one is added; decides front versus rear
+  viewpoint?: Viewpoint;
+  // Previous yaw for this vehicle, used to break ties between equal fits
+  previous?: number;
+}
+
+export interface HeadingEstimate {
+  // Model yaw relative to the line of sight: 0 faces right, π faces left,
+  // -π/2 faces the camera and π/2 faces away
+  yaw: number;
+  viewpoint: Viewpoint;
+  // 0-1; low when the box shape fits several headings about equally well
+  confidence: number;
+}
+
+// px/ms below which a vehicle counts as parked
+const MOVING_SPEED = 0.02;
+const STEPS = 90;
+
+// Box aspect (width / height) a vehicle of the given size shows at `angle`
+// away from a side view, seen from `pitch` above
+function expectedAspect(angle: number, pitch: number, length: number, width: number, height: number) {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const across = length * cos + width * sin;
+  const along = length * sin + width * cos;
+  return across / (height * Math.cos(pitch) + along * Math.sin(Math.max(0, pitch)));
+}
+
+export function viewpointFor(angle: number, towardCamera: boolean): Viewpoint {
+  const degrees = (angle * 180) / Math.PI;
+  if (degrees < 25) return 'side';
+  if (degrees > 65) return towardCamera ? 'front' : 'rear';
+  return towardCamera ? 'front-three-quarter' : 'rear-three-quarter';
+}
+
+// Bbox aspect-ratio baseline. The box shape gives the angle away from a side
+// view; motion (or a classifier's viewpoint) picks which of the four mirror
+// images it is. Parked vehicles with no classifier default to facing the camera.
+export function estimateHeading(crop: CropLike, vehicleClass: string, hints: HeadingHints = {}): HeadingEstimate {
+  const { length, width, height } = vehicleDimensions(vehicleClass);
+  const pitch = hints.pitch ?? 0;
+  const aspect = crop.height > 0 ? crop.width / crop.height : 0;
+
+  const [vx, vy] = hints.velocity ?? [0, 0];
+  const moving = Math.hypot(vx, vy) > MOVING_SPEED;
+
+  const facingRight = moving && Math.abs(vx) > Math.abs(vy) * 0.3
+    ? vx > 0
+    : hints.previous !== undefined
+      ? Math.cos(hints.previous) >= 0
+      : true;
+
+  const towardCamera = hints.viewpoint
+    ? hints.viewpoint === 'front' || hints.viewpoint === 'front-three-quarter'
+    : moving
+      ? vy >= 0
+      : hints.previous !== undefined
+        ? Math.sin(hints.previous) <= 0
+        : true;
+
+  const yawFor = (angle: number) => {
+    const turn = towardCamera ? -angle : angle;
+    return facingRight ? turn : Math.PI - turn;
+  };
+
+  // Score every angle in the quarter turn by how well it explains the box
+  const angles = Array.from({ length: STEPS + 1 }, (_, i) => (i / STEPS) * (Math.PI / 2));
+  const errors = angles.map(angle => {
+    const error = Math.abs(Math.log(expectedAspect(angle, pitch, length, width, height) / Math.max(aspect, 1e-3)));
+    return hints.previous === undefined ? error : error + 0.02 * Math.abs(angleBetween(yawFor(angle), hints.previous));
+  });
+  const bestIndex = errors.indexOf(Math.min(...errors));
+  const bestError = errors[bestIndex];
+  let best = angles[bestIndex];
+
+  // The best clearly different angle; close to bestError means the shape is ambiguous
+  const runnerUpError = Math.min(...errors.filter((_, i) => Math.abs(angles[i] - best) > Math.PI / 12));
+
+  // A viewpoint classifier overrides a side view the box shape can't see
+  if (hints.viewpoint === 'front' || hints.viewpoint === 'rear') best = Math.max(best, (70 * Math.PI) / 180);
+  if (hints.viewpoint === 'side') best = Math.min(best, (20 * Math.PI) / 180);
+
+  const separation = Number.isFinite(runnerUpError) ? runnerUpError - bestError : 1;
+  return {
+    yaw: normalizeAngle(yawFor(best)),
+    viewpoint: hints.viewpoint ?? viewpointFor(best, towardCamera),
+    confidence: Math.max(0, Math.min(1, separation * 4)) * Math.exp(-bestError * 3)
+  };
+}
+
+export function normalizeAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+function angleBetween(a: number, b: number): number {
+  return normalizeAngle(a - b);
+}
+
+// Keeps a smoothed heading per tracked vehicle so the overlay doesn't flip
+// between mirror images from frame to frame
+export class HeadingTracker {
+  private headings = new Map<number, number>();
+
+  constructor(private smoothing = 0.3) {}
+
+  update(id: number, crop: CropLike, vehicleClass: string, hints: Omit<HeadingHints, 'previous'> = {}): number {
+    const previous = this.headings.get(id);
+    const { yaw, confidence } = estimateHeading(crop, vehicleClass, { ...hints, previous });
+    if (previous === undefined) {
+      this.headings.set(id, yaw);
+      return yaw;
+    }
+
+    const next = normalizeAngle(previous + angleBetween(yaw, previous) * this.smoothing * (0.5 + confidence / 2));
+    this.headings.set(id, next);
+    return next;
+  }
+
+  // Forgets vehicles the tracker has dropped
+  retain(ids: Iterable<number>) {
+    const keep = new Set(ids);
+    Array.from(this.headings.keys()).forEach(id => {
+      if (!keep.has(id)) this.headings.delete(id);
+    });
+  }
+
+  reset() {
+    this.headings.clear();
+  }
+}
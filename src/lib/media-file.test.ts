@@ -0,0 +1,150 @@
+import { resolveObjectURL } from 'node:buffer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  fetchMediaFile,
+  formatTimecode,
+  frameReady,
+  frameSize,
+  mediaFromQuery,
+  mediaFromUrl,
+  openMediaFile,
+  releaseMedia,
+  seekTo,
+  stepFrame
+} from './media-file';
+
+// Just enough of the DOM media elements for instanceof checks
+class FakeVideo {
+  videoWidth = 1280;
+  videoHeight = 720;
+  readyState = 0;
+  seeking = false;
+  currentTime = 0;
+  duration = 10;
+  paused = false;
+  pause() {
+    this.paused = true;
+  }
+}
+class FakeImage {
+  naturalWidth = 0;
+  naturalHeight = 0;
+  complete = false;
+}
+
+const video = (props: Partial<FakeVideo> = {}) => Object.assign(new FakeVideo(), props) as unknown as HTMLVideoElement;
+const image = (props: Partial<FakeImage> = {}) => Object.assign(new FakeImage(), props) as unknown as HTMLImageElement;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('openMediaFile', () => {
+  it('opens photos and videos by type, or by extension when the type is missing', () => {
+    const photo = openMediaFile(new File(['x'], 'street.jpg', { type: 'image/jpeg' }));
+    const clip = openMediaFile(new File(['x'], 'CLIP.MOV'));
+    releaseMedia(photo);
+    releaseMedia(clip);
+
+    expect(photo).toMatchObject({ kind: 'image', name: 'street.jpg', url: expect.stringMatching(/^blob:/) });
+    expect(clip.kind).toBe('video');
+  });
+
+  it('refuses anything else', () => {
+    expect(() => openMediaFile(new File(['x'], 'notes.txt', { type: 'text/plain' }))).toThrow('notes.txt is not a photo or video');
+  });
+
+  it('frees the file once released', () => {
+    const media = openMediaFile(new File(['x'], 'street.png', { type: 'image/png' }));
+    expect(resolveObjectURL(media.url)).toBeDefined();
+
+    releaseMedia(media);
+    expect(resolveObjectURL(media.url)).toBeUndefined();
+  });
+});
+
+describe('mediaFromUrl and mediaFromQuery', () => {
+  it('names media by the last part of its path', () => {
+    expect(mediaFromUrl('/fixtures/street.mp4?v=2#t=3')).toEqual({ kind: 'video', name: 'street.mp4', url: '/fixtures/street.mp4?v=2#t=3' });
+    expect(mediaFromUrl('https://example.com/cars/parked.webp')).toMatchObject({ kind: 'image', name: 'parked.webp' });
+    expect(mediaFromUrl('/fixtures/readme.md')).toBeNull();
+  });
+
+  it('reads the media parameter', () => {
+    expect(mediaFromQuery('?debug=1&media=%2Ffixtures%2Fstreet.mp4')).toMatchObject({ kind: 'video', url: '/fixtures/street.mp4' });
+    expect(mediaFromQuery('?debug=1')).toBeNull();
+  });
+});
+
+describe('fetchMediaFile', () => {
+  it('downloads the media into a file of its own', async () => {
+    const fetch = vi.fn(async () => new Response(new Blob(['frames'], { type: 'video/mp4' })));
+    vi.stubGlobal('fetch', fetch);
+
+    const media = await fetchMediaFile({ kind: 'video', name: 'street.mp4', url: '/fixtures/street.mp4' });
+    const blob = resolveObjectURL(media.url);
+    releaseMedia(media);
+
+    expect(fetch).toHaveBeenCalledWith('/fixtures/street.mp4');
+    expect(media).toMatchObject({ kind: 'video', name: 'street.mp4' });
+    expect(blob?.type).toBe('video/mp4');
+    expect(await blob?.text()).toBe('frames');
+  });
+
+  it('fails with the status when the server has no such file', async () => {
+    vi.stubGlobal('fetch', async () => new Response('Not found', { status: 404 }));
+
+    await expect(fetchMediaFile({ kind: 'image', name: 'missing.jpg', url: '/missing.jpg' }))
+      .rejects.toThrow('missing.jpg could not be loaded (HTTP 404)');
+  });
+});
+
+describe('frameSize and frameReady', () => {
+  it('read videos and photos by their own properties', () => {
+    vi.stubGlobal('HTMLVideoElement', FakeVideo);
+    vi.stubGlobal('HTMLMediaElement', { HAVE_CURRENT_DATA: 2 });
+
+    expect(frameSize(video())).toEqual({ width: 1280, height: 720 });
+    expect(frameSize(image({ naturalWidth: 4032, naturalHeight: 3024 }))).toEqual({ width: 4032, height: 3024 });
+
+    expect(frameReady(video({ readyState: 1 }))).toBe(false);
+    expect(frameReady(video({ readyState: 2 }))).toBe(true);
+    expect(frameReady(video({ readyState: 4, seeking: true }))).toBe(false);
+    expect(frameReady(image({ complete: true, naturalWidth: 0 }))).toBe(false);
+    expect(frameReady(image({ complete: true, naturalWidth: 640 }))).toBe(true);
+  });
+});
+
+describe('stepFrame and seekTo', () => {
+  it('pauses and steps a frame at a time', () => {
+    const clip = video({ currentTime: 1 });
+    stepFrame(clip, 3);
+
+    expect(clip.paused).toBe(true);
+    expect(clip.currentTime).toBeCloseTo(1.1, 10);
+    stepFrame(clip, -1, 10);
+    expect(clip.currentTime).toBeCloseTo(1, 10);
+  });
+
+  it('stays within the clip', () => {
+    const clip = video();
+    seekTo(clip, -2);
+    expect(clip.currentTime).toBe(0);
+    seekTo(clip, 12);
+    expect(clip.currentTime).toBe(10);
+
+    // A stream still loading has no duration yet
+    const loading = video({ duration: Infinity });
+    seekTo(loading, 42);
+    expect(loading.currentTime).toBe(42);
+  });
+});
+
+describe('formatTimecode', () => {
+  it('shows minutes and tenths of a second', () => {
+    expect(formatTimecode(83.4)).toBe('1:23.4');
+    expect(formatTimecode(5)).toBe('0:05.0');
+    expect(formatTimecode(NaN)).toBe('0:00.0');
+    expect(formatTimecode(-3)).toBe('0:00.0');
+  });
+});
@@ -0,0 +1,90 @@
+export type MediaKind = 'image' | 'video';
+
+// A photo or clip opened in place of the camera
+export interface MediaFile {
+  kind: MediaKind;
+  name: string;
+  url: string;
+}
+
+// Anything the pipeline takes frames from: the camera or file video, or a photo
+export type FrameSource = HTMLVideoElement | HTMLImageElement;
+
+export const MEDIA_ACCEPT = 'image/*,video/*';
+
+// Browsers don't expose a file's frame rate, so stepping assumes the usual phone one
+export const DEFAULT_FRAME_RATE = 30;
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|bmp)$/i;
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|ogv)$/i;
+
+function kindOf(type: string, name: string): MediaKind | null {
+  if (type.startsWith('image/') || IMAGE_EXTENSIONS.test(name)) return 'image';
+  if (type.startsWith('video/') || VIDEO_EXTENSIONS.test(name)) return 'video';
+  return null;
+}
+
+// A file the user picked. Pass it to releaseMedia once it's closed.
+export function openMediaFile(file: File): MediaFile {
+  const kind = kindOf(file.type, file.name);
+  if (!kind) throw new Error(`${file.name} is not a photo or video`);
+  return { kind, name: file.name, url: URL.createObjectURL(file) };
+}
+
+// Media at a URL, e.g. a test fixture passed as ?media=/fixtures/street.mp4
+export function mediaFromUrl(url: string): MediaFile | null {
+  const path = url.split(/[?#]/)[0];
+  const kind = kindOf('', path);
+  return kind ? { kind, name: path.split('/').pop() || url, url } : null;
+}
+
+export function mediaFromQuery(search: string): MediaFile | null {
+  const url = new URLSearchParams(search).get('media');
+  return url ? mediaFromUrl(url) : null;
+}
+
+// Downloads media at a URL so it opens like a picked file, whose frames
+// stay readable wherever it came from. Pass the result to releaseMedia.
+export async function fetchMediaFile(media: MediaFile): Promise<MediaFile> {
+  const response = await fetch(media.url);
+  if (!response.ok) throw new Error(`${media.name} could not be loaded (HTTP ${response.status})`);
+  const blob = await response.blob();
+  return openMediaFile(new File([blob], media.name, { type: blob.type }));
+}
+
+export function releaseMedia(media: MediaFile) {
+  if (media.url.startsWith('blob:')) URL.revokeObjectURL(media.url);
+}
+
+export function frameSize(source: FrameSource): { width: number; height: number } {
+  return source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+}
+
+// Whether there is a frame to draw right now; a paused or seeked video has one too
+export function frameReady(source: FrameSource): boolean {
+  if (source instanceof HTMLVideoElement) {
+    return source.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && !source.seeking;
+  }
+  return source.complete && source.naturalWidth > 0;
+}
+
+// Pauses and moves `frames` frames forward (or back, if negative)
+export function stepFrame(video: HTMLVideoElement, frames: number, frameRate = DEFAULT_FRAME_RATE) {
+  video.pause();
+  seekTo(video, video.currentTime + frames / frameRate);
+}
+
+export function seekTo(video: HTMLVideoElement, time: number) {
+  const end = Number.isFinite(video.duration) ? video.duration : time;
+  video.currentTime = Math.min(end, Math.max(0, time));
+}
+
+// 83.4 → "1:23.4"
+export function formatTimecode(seconds: number): string {
+  const safe = Number.isFinite(seconds) ? Math.max(0, seconds) : 0;
+  const minutes = Math.floor(safe / 60);
+  const rest = (safe - minutes * 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${rest}`;
+}
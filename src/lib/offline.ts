@@ -0,0 +1,75 @@
+// Must match SHELL_CACHE and ASSET_CACHE in public/sw.js
+const SHELL_CACHE = 'shell-v1';
+const ASSET_CACHE = 'assets-v1';
+
+// Installs public/sw.js. Development builds skip it so stale chunks are
+// never served over hot reloads.
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register('/sw.js');
+  } catch (err) {
+    console.warn('Service worker registration failed:', err);
+    return null;
+  }
+}
+
+// Puts assets in the service worker's cache ahead of time so they are there
+// offline even if they were never shown. Missing files are skipped; resolves
+// with how many are cached.
+async function precacheAssets(urls: string[]): Promise<number> {
+  if (typeof caches === 'undefined') return 0;
+  const cache = await caches.open(ASSET_CACHE);
+
+  const cached = await Promise.all(urls.map(async url => {
+    if (await cache.match(url)) return true;
+    try {
+      const response = await fetch(url);
+      // A missing file comes back as the app's HTML 404 page
+      if (!response.ok || (response.headers.get('content-type') ?? '').includes('text/html')) return false;
+      await cache.put(url, response);
+      return true;
+    } catch {
+      return false;
+    }
+  }));
+  return cached.filter(Boolean).length;
+}
+
+// The build chunks and styles this page has loaded so far. The first visit
+// fetches them before the service worker is there to see the requests.
+function loadedBuildAssets(): string[] {
+  const urls = new Set<string>();
+  performance.getEntriesByType('resource').forEach(entry => urls.add(entry.name));
+  document.querySelectorAll<HTMLScriptElement>('script[src]').forEach(script => urls.add(script.src));
+  document.querySelectorAll<HTMLLinkElement>('link[href]').forEach(link => urls.add(link.href));
+
+  return Array.from(urls).filter(url => {
+    const { origin, pathname } = new URL(url, location.href);
+    return origin === location.origin && pathname.startsWith('/_next/static/');
+  });
+}
+
+// Once the service worker is active, stores the page and every build asset it
+// has loaded, so the next visit starts without a connection. Resolves true
+// only if all of them are cached.
+export async function cacheAppShell(): Promise<boolean> {
+  if (typeof caches === 'undefined' || !('serviceWorker' in navigator)) return false;
+  await navigator.serviceWorker.ready;
+
+  const assets = loadedBuildAssets();
+  const [stored, page] = await Promise.all([
+    precacheAssets(assets),
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      if (await cache.match('/')) return true;
+      try {
+        await cache.add('/');
+        return true;
+      } catch {
+        return false;
+      }
+    })()
+  ]);
+  return page && stored === assets.length;
+}
@@ -0,0 +1,175 @@
+import { paintComposite, type CaptureSources } from './capture';
+
+export interface RecordingOptions {
+  fps: number;
+  videoBitsPerSecond: number;
+  // Long side of the recorded frame in pixels
+  maxSize: number;
+  watermark: boolean;
+}
+
+export const DEFAULT_RECORDING: RecordingOptions = {
+  fps: 30,
+  videoBitsPerSecond: 4_000_000,
+  maxSize: 1280,
+  watermark: true
+};
+
+export interface RecordingProgress {
+  // Milliseconds since recording started
+  elapsed: number;
+  // Encoded bytes so far, which is close to the final file size
+  bytes: number;
+}
+
+// Preferred first: MP4 plays everywhere a clip gets shared to, WebM is what
+// Chrome and Firefox can encode
+const RECORDING_TYPES = [
+  'video/mp4;codecs=avc1',
+  'video/mp4',
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm'
+];
+
+export function supportedRecordingType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export function supportsRecording(): boolean {
+  return supportedRecordingType() !== null && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+}
+
+// Records the composited view: every frame it asks for the current sources,
+// so whatever is on screen right now (scan boxes, AR cars, floor grid) is
+// what gets recorded, across mode changes.
+export class ViewRecorder {
+  private canvas = document.createElement('canvas');
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private bytes = 0;
+  private startedAt = 0;
+  private frameId: number | null = null;
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+  private options: RecordingOptions;
+
+  constructor(
+    private sources: () => CaptureSources | null,
+    options: Partial<RecordingOptions> = {},
+    private onProgress?: (progress: RecordingProgress) => void
+  ) {
+    this.options = { ...DEFAULT_RECORDING, ...options };
+  }
+
+  get recording(): boolean {
+    return this.recorder?.state === 'recording';
+  }
+
+  get mimeType(): string {
+    return this.recorder?.mimeType ?? '';
+  }
+
+  start() {
+    if (this.recorder) return;
+    const mimeType = supportedRecordingType();
+    if (!mimeType) throw new Error('Recording is not supported in this browser');
+
+    // The stream needs a sized canvas with something on it before it starts
+    this.paint();
+    const stream = this.canvas.captureStream(this.options.fps);
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: this.options.videoBitsPerSecond
+    });
+    recorder.ondataavailable = e => {
+      if (e.data.size === 0) return;
+      this.chunks.push(e.data);
+      this.bytes += e.data.size;
+    };
+
+    this.chunks = [];
+    this.bytes = 0;
+    this.startedAt = performance.now();
+    this.recorder = recorder;
+    recorder.start(1000);
+
+    const draw = () => {
+      this.paint();
+      this.frameId = requestAnimationFrame(draw);
+    };
+    this.frameId = requestAnimationFrame(draw);
+
+    this.progressTimer = setInterval(() => {
+      this.onProgress?.({ elapsed: performance.now() - this.startedAt, bytes: this.bytes });
+    }, 500);
+  }
+
+  // Resolves with the finished clip
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) return Promise.reject(new Error('Not recording'));
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        recorder.stream.getTracks().forEach(track => track.stop());
+        resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+        this.chunks = [];
+      };
+      this.cleanup();
+
+      // The browser may have stopped it already (a track ended, the encoder
+      // failed); stop() is then a no-op and onstop never comes
+      if (recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      recorder.onstop = finish;
+      recorder.onerror = event => {
+        recorder.stream.getTracks().forEach(track => track.stop());
+        this.chunks = [];
+        reject(new Error('Recording failed', { cause: (event as Event & { error?: unknown }).error ?? event }));
+      };
+      recorder.stop();
+    });
+  }
+
+  // Abandons the recording without producing a clip
+  cancel() {
+    const recorder = this.recorder;
+    this.cleanup();
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = () => recorder.stream.getTracks().forEach(track => track.stop());
+      recorder.stop();
+    }
+    this.chunks = [];
+  }
+
+  private cleanup() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    if (this.progressTimer) clearInterval(this.progressTimer);
+    this.frameId = null;
+    this.progressTimer = null;
+    this.recorder = null;
+  }
+
+  private paint() {
+    const sources = this.sources();
+    if (!sources) return;
+    try {
+      paintComposite(this.canvas, sources, { watermark: this.options.watermark, maxSize: this.options.maxSize });
+    } catch {
+      // No camera frame right now (e.g. switching cameras); keep the last one
+    }
+  }
+}
+
+export function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
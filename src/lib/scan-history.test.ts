@@ -0,0 +1,114 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DB_NAME, DB_VERSION, ScanHistory, type NewScanRecord } from './scan-history';
+
+const scan = (vehicleType: string, timestamp: number): NewScanRecord => ({
+  vehicleType,
+  score: 0.9,
+  timestamp,
+  thumbnail: new Blob(['jpeg'], { type: 'image/jpeg' }),
+  notes: ''
+});
+
+function openRaw(factory: IDBFactory, version?: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = factory.open(DB_NAME, version);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let factory: IDBFactory;
+
+beforeEach(() => {
+  factory = new IDBFactory();
+});
+
+describe('ScanHistory.open', () => {
+  it('runs every migration on a new database', async () => {
+    const history = await ScanHistory.open(factory);
+    history.close();
+
+    const db = await openRaw(factory);
+    expect(db.version).toBe(DB_VERSION);
+    const scans = db.transaction('scans').objectStore('scans');
+    expect(scans.keyPath).toBe('id');
+    expect(scans.autoIncrement).toBe(true);
+    expect(Array.from(scans.indexNames).sort()).toEqual(['timestamp', 'vehicleType']);
+    db.close();
+  });
+
+  it('keeps existing scans when reopened', async () => {
+    const first = await ScanHistory.open(factory);
+    await first.add(scan('car', 1));
+    first.close();
+
+    const second = await ScanHistory.open(factory);
+    expect(await second.list()).toHaveLength(1);
+    second.close();
+  });
+
+  it('steps aside for a newer schema in another tab', async () => {
+    const history = await ScanHistory.open(factory);
+
+    // Would block forever if the open connection didn't close itself
+    const newer = await openRaw(factory, DB_VERSION + 1);
+    expect(newer.version).toBe(DB_VERSION + 1);
+    newer.close();
+    await expect(history.list()).rejects.toThrow();
+  });
+});
+
+describe('ScanHistory', () => {
+  let history: ScanHistory;
+
+  beforeEach(async () => {
+    history = await ScanHistory.open(factory);
+  });
+
+  it('assigns ids and reads a scan back', async () => {
+    const added = await history.add(scan('car', 1));
+
+    expect(added.id).toEqual(expect.any(Number));
+    expect(await history.get(added.id)).toMatchObject({ id: added.id, vehicleType: 'car', timestamp: 1 });
+  });
+
+  it('lists newest first whatever the insertion order', async () => {
+    await history.add(scan('car', 2));
+    await history.add(scan('truck', 3));
+    await history.add(scan('bus', 1));
+
+    expect((await history.list()).map(record => record.timestamp)).toEqual([3, 2, 1]);
+  });
+
+  it('filters by vehicle type', async () => {
+    await history.add(scan('car', 1));
+    await history.add(scan('truck', 2));
+    await history.add(scan('car', 3));
+
+    const cars = await history.list('car');
+    expect(cars.map(record => [record.vehicleType, record.timestamp])).toEqual([['car', 3], ['car', 1]]);
+    expect(await history.list('motorcycle')).toEqual([]);
+  });
+
+  it('updates fields and keeps the rest', async () => {
+    const { id } = await history.add(scan('car', 1));
+    await history.update(id, { notes: 'Blue hatchback' });
+
+    expect(await history.get(id)).toMatchObject({ id, vehicleType: 'car', timestamp: 1, notes: 'Blue hatchback' });
+  });
+
+  it('throws updating a scan that does not exist', async () => {
+    await expect(history.update(42, { notes: 'x' })).rejects.toThrow('No scan 42');
+    expect(await history.list()).toEqual([]);
+  });
+
+  it('deletes a scan', async () => {
+    const kept = await history.add(scan('car', 1));
+    const removed = await history.add(scan('car', 2));
+    await history.delete(removed.id);
+
+    expect(await history.get(removed.id)).toBeUndefined();
+    expect((await history.list()).map(record => record.id)).toEqual([kept.id]);
+  });
+});
@@ -0,0 +1,165 @@
+import type { FrameSource } from './media-file';
+import type { BBox } from './types';
+
+// Schema of one logged scan. Bump DB_VERSION and append a migration when it changes.
+export interface ScanRecord {
+  id: number;
+  vehicleType: string;
+  score: number;
+  // ms since the epoch
+  timestamp: number;
+  // JPEG crop of the detection box
+  thumbnail: Blob;
+  location?: ScanLocation;
+  notes: string;
+}
+
+export interface ScanLocation {
+  latitude: number;
+  longitude: number;
+  // metres
+  accuracy: number;
+}
+
+export type NewScanRecord = Omit<ScanRecord, 'id'>;
+
+export const DB_NAME = 'car-ar-scanner';
+const SCANS = 'scans';
+
+// migrations[n] upgrades a database at version n to version n + 1
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+const MIGRATIONS: Migration[] = [
+  db => {
+    const scans = db.createObjectStore(SCANS, { keyPath: 'id', autoIncrement: true });
+    scans.createIndex('timestamp', 'timestamp');
+    scans.createIndex('vehicleType', 'vehicleType');
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+// The scan log. Takes the IDBFactory to use so it can run against an
+// in-memory implementation such as fake-indexeddb.
+export class ScanHistory {
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(factory: IDBFactory = indexedDB, name = DB_NAME): Promise<ScanHistory> {
+    const req = factory.open(name, DB_VERSION);
+    req.onupgradeneeded = e => {
+      const transaction = req.transaction;
+      if (!transaction) return;
+      for (let version = e.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](req.result, transaction);
+      }
+    };
+    const db = await request(req);
+    // Another tab upgrading the schema needs this connection out of the way
+    db.onversionchange = () => db.close();
+    return new ScanHistory(db);
+  }
+
+  async add(record: NewScanRecord): Promise<ScanRecord> {
+    const transaction = this.db.transaction(SCANS, 'readwrite');
+    const id = await request(transaction.objectStore(SCANS).add(record));
+    await transactionDone(transaction);
+    return { ...record, id: id as number };
+  }
+
+  async get(id: number): Promise<ScanRecord | undefined> {
+    return request(this.db.transaction(SCANS).objectStore(SCANS).get(id));
+  }
+
+  // Newest first, optionally only one vehicle type
+  async list(vehicleType?: string): Promise<ScanRecord[]> {
+    const store = this.db.transaction(SCANS).objectStore(SCANS);
+    const records: ScanRecord[] = vehicleType
+      ? await request(store.index('vehicleType').getAll(vehicleType))
+      : await request(store.getAll());
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async update(id: number, changes: Partial<Omit<ScanRecord, 'id'>>): Promise<void> {
+    const transaction = this.db.transaction(SCANS, 'readwrite');
+    const store = transaction.objectStore(SCANS);
+    const existing: ScanRecord | undefined = await request(store.get(id));
+    if (!existing) throw new Error(`No scan ${id}`);
+    store.put({ ...existing, ...changes, id });
+    await transactionDone(transaction);
+  }
+
+  async delete(id: number): Promise<void> {
+    const transaction = this.db.transaction(SCANS, 'readwrite');
+    transaction.objectStore(SCANS).delete(id);
+    await transactionDone(transaction);
+  }
+
+  close() {
+    this.db.close();
+  }
+}
+
+let shared: Promise<ScanHistory> | null = null;
+
+// One connection for the whole page
+export function scanHistory(): Promise<ScanHistory> {
+  if (!shared) {
+    shared = ScanHistory.open();
+    shared.catch(() => {
+      shared = null;
+    });
+  }
+  return shared;
+}
+
+// Crops a detection out of the current frame as a small JPEG
+export function cropThumbnail(video: FrameSource, [x, y, width, height]: BBox, maxSize = 240): Promise<Blob> {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = Object.assign(document.createElement('canvas'), {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  });
+  canvas.getContext('2d')?.drawImage(video, x, y, width, height, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode thumbnail'))), 'image/jpeg', 0.8);
+  });
+}
+
+// The current position if the user has already allowed it; never prompts
+export async function currentLocation(timeout = 3000): Promise<ScanLocation | undefined> {
+  if (!navigator.geolocation || !navigator.permissions) return undefined;
+  try {
+    const status = await navigator.permissions.query({ name: 'geolocation' });
+    if (status.state !== 'granted') return undefined;
+    const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, { timeout, maximumAge: 60_000 });
+    });
+    const { latitude, longitude, accuracy } = position.coords;
+    return { latitude, longitude, accuracy };
+  } catch {
+    return undefined;
+  }
+}
+
+// Asks for location access from a user gesture; true if scans can be tagged
+export function requestLocationAccess(): Promise<boolean> {
+  if (!navigator.geolocation) return Promise.resolve(false);
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(() => resolve(true), () => resolve(false), { timeout: 10_000 });
+  });
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CAR_CONFIG } from './car-config';
+import { groundToScreen, screenToGround, type GroundPlane } from './ground-plane';
+import { type SavedScene, deleteScene, exportScene, listScenes, parseScene, restoreCars, saveScene, storeScene } from './scenes';
+import type { PlacedCar } from './types';
+
+const floor: GroundPlane = { pitch: 0.2, cameraHeight: 1.4, fov: 50, viewportWidth: 800, viewportHeight: 600 };
+
+const cars: PlacedCar[] = [
+  { id: 1, x: 300, y: 450, rotation: 0.5, scale: 1, color: 0xff0000 },
+  { id: 2, x: 500, y: 400, rotation: -1.2, scale: 1.5, color: 0x3498db, config: { finish: 'matte', rimStyle: 'black', rimSize: 'large', tint: 0.4, roofRack: true, spoiler: false } }
+];
+
+// localStorage backed by a Map
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.useFakeTimers({ now: 1_000 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('saved scenes', () => {
+  it('saves and lists scenes newest first', () => {
+    saveScene('driveway', cars, floor);
+    vi.setSystemTime(2_000);
+    saveScene('street', cars.slice(0, 1), floor);
+
+    expect(listScenes().map(scene => scene.name)).toEqual(['street', 'driveway']);
+    expect(listScenes()[1]).toEqual({ version: 1, name: 'driveway', savedAt: 1_000, floor, cars });
+  });
+
+  it('replaces a scene saved under the same name and deletes by name', () => {
+    saveScene('driveway', cars, floor);
+    saveScene('driveway', cars.slice(1), floor);
+    expect(listScenes()).toHaveLength(1);
+    expect(listScenes()[0].cars).toEqual(cars.slice(1));
+
+    deleteScene('driveway');
+    expect(listScenes()).toEqual([]);
+  });
+
+  it('starts empty when storage holds something else', () => {
+    localStorage.setItem('car-ar-scanner:scenes', 'not json');
+    expect(listScenes()).toEqual([]);
+  });
+});
+
+describe('scene files', () => {
+  it('exports and imports a scene unchanged', async () => {
+    const scene = saveScene('driveway', cars, floor);
+    const imported = parseScene(await exportScene(scene).text());
+
+    expect(imported).toEqual(scene);
+    storeScene({ ...imported, name: 'copy' });
+    expect(listScenes().map(s => s.name).sort()).toEqual(['copy', 'driveway']);
+  });
+
+  it('fills in what an older or edited file leaves out', () => {
+    const scene: Partial<SavedScene> = saveScene('driveway', [{ ...cars[1], config: { finish: 'chrome' } as never }], floor);
+    delete scene.savedAt;
+    vi.setSystemTime(2_000);
+    const imported = parseScene(JSON.stringify(scene));
+
+    expect(imported.savedAt).toBe(2_000);
+    expect(imported.cars[0].config).toEqual(DEFAULT_CAR_CONFIG);
+  });
+
+  it('says why a file is not a scene', () => {
+    const scene = { version: 1, name: 'driveway', savedAt: 1, floor, cars };
+
+    expect(() => parseScene('{')).toThrow('Not a scene file: invalid JSON');
+    expect(() => parseScene(JSON.stringify({ ...scene, version: 2 }))).toThrow('Not a scene file');
+    expect(() => parseScene(JSON.stringify({ ...scene, floor: { ...floor, fov: null } }))).toThrow('Scene file has no floor calibration');
+    expect(() => parseScene(JSON.stringify({ ...scene, cars: [{ ...cars[0], x: '300' }] }))).toThrow('Scene file has malformed cars');
+    expect(() => parseScene(JSON.stringify({ ...scene, cars: [null] }))).toThrow('Scene file has malformed cars');
+    expect(() => parseScene(JSON.stringify({ ...scene, cars: [cars[0], 7] }))).toThrow('Scene file has malformed cars');
+  });
+});
+
+describe('restoreCars', () => {
+  it('keeps each car on its spot on the ground under a new floor and screen', () => {
+    const scene = saveScene('driveway', cars, floor);
+    const plane: GroundPlane = { pitch: 0.35, cameraHeight: 1.6, fov: 60, viewportWidth: 400, viewportHeight: 800 };
+    const restored = restoreCars(scene, plane);
+
+    expect(restored).toHaveLength(2);
+    restored.forEach((car, i) => {
+      const expected = groundToScreen(plane, screenToGround(floor, cars[i])!)!;
+      expect(car.x).toBeCloseTo(expected.x, 6);
+      expect(car.y).toBeCloseTo(expected.y, 6);
+      expect(car).toEqual({ ...cars[i], id: car.id, x: car.x, y: car.y });
+    });
+  });
+
+  it('gives loaded cars fresh ids', () => {
+    vi.setSystemTime(50_000);
+    const restored = restoreCars(saveScene('driveway', cars, floor), floor);
+
+    expect(restored.map(car => car.id)).toEqual([50_000, 50_001]);
+  });
+
+  it('drops cars that were placed above the horizon', () => {
+    const scene = saveScene('driveway', [...cars, { ...cars[0], id: 3, y: 100 }], floor);
+
+    expect(restoreCars(scene, floor).map(car => car.y)).toEqual([expect.closeTo(450), expect.closeTo(400)]);
+  });
+});
@@ -0,0 +1,104 @@
+import { groundToScreen, screenToGround, type GroundPlane } from './ground-plane';
+import { normalizeCarConfig } from './car-config';
+import type { PlacedCar } from './types';
+
+// A saved Place Mode layout. Car positions are screen points on `floor`, the
+// ground plane they were placed on, so they can be re-projected onto whatever
+// plane and screen size they are loaded into.
+export interface SavedScene {
+  version: 1;
+  name: string;
+  // ms since the epoch
+  savedAt: number;
+  floor: GroundPlane;
+  cars: PlacedCar[];
+}
+
+const STORAGE_KEY = 'car-ar-scanner:scenes';
+
+function readAll(): Record<string, SavedScene> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeAll(scenes: Record<string, SavedScene>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(scenes));
+}
+
+// Newest first
+export function listScenes(): SavedScene[] {
+  return Object.values(readAll()).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+// Saving under an existing name replaces that scene
+export function saveScene(name: string, cars: PlacedCar[], floor: GroundPlane): SavedScene {
+  const scene: SavedScene = { version: 1, name, savedAt: Date.now(), floor, cars };
+  writeAll({ ...readAll(), [name]: scene });
+  return scene;
+}
+
+export function deleteScene(name: string) {
+  const scenes = readAll();
+  delete scenes[name];
+  writeAll(scenes);
+}
+
+export function storeScene(scene: SavedScene) {
+  writeAll({ ...readAll(), [scene.name]: scene });
+}
+
+export function exportScene(scene: SavedScene): Blob {
+  return new Blob([JSON.stringify(scene, null, 2)], { type: 'application/json' });
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Parses an exported scene, throwing if it isn't one
+export function parseScene(json: string): SavedScene {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a scene file: invalid JSON');
+  }
+
+  const scene = data as Partial<SavedScene>;
+  const floor = scene?.floor as Partial<GroundPlane> | undefined;
+  if (scene?.version !== 1 || typeof scene.name !== 'string' || !Array.isArray(scene.cars)) {
+    throw new Error('Not a scene file');
+  }
+  if (!floor || !['pitch', 'cameraHeight', 'fov', 'viewportWidth', 'viewportHeight'].every(key =>
+    isNumber(floor[key as keyof GroundPlane])
+  )) {
+    throw new Error('Scene file has no floor calibration');
+  }
+  const carsValid = scene.cars.every((car: unknown) =>
+    car !== null && typeof car === 'object'
+    && ['id', 'x', 'y', 'rotation', 'scale', 'color'].every(key => isNumber((car as Record<string, unknown>)[key]))
+  );
+  if (!carsValid) throw new Error('Scene file has malformed cars');
+
+  return {
+    version: 1,
+    name: scene.name,
+    savedAt: isNumber(scene.savedAt) ? scene.savedAt : Date.now(),
+    floor: floor as GroundPlane,
+    cars: scene.cars.map(car => (car.config ? { ...car, config: normalizeCarConfig(car.config) } : car))
+  };
+}
+
+// The scene's cars moved from its floor onto `plane`, keeping their spots on
+// the ground. Cars that would land above the horizon are dropped. Ids are
+// fresh so a loaded scene never collides with cars already placed.
+export function restoreCars(scene: SavedScene, plane: GroundPlane): PlacedCar[] {
+  const firstId = Date.now();
+  return scene.cars.flatMap((car, i) => {
+    const ground = screenToGround(scene.floor, { x: car.x, y: car.y });
+    const screen = ground && groundToScreen(plane, ground);
+    return screen ? [{ ...car, id: firstId + i, x: screen.x, y: screen.y }] : [];
+  });
+}
@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SCHEDULE, DetectionScheduler, FrameDiffer, watchPowerHints } from './scheduler';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('DetectionScheduler', () => {
+  it('runs on a moving scene once the interval has passed', () => {
+    const scheduler = new DetectionScheduler();
+    expect(scheduler.shouldRun(0, true)).toBe(true);
+    scheduler.markRun(0);
+
+    expect(scheduler.shouldRun(DEFAULT_SCHEDULE.interval - 1, true)).toBe(false);
+    expect(scheduler.shouldRun(DEFAULT_SCHEDULE.interval, true)).toBe(true);
+  });
+
+  it('re-checks a static scene only every staticInterval', () => {
+    const scheduler = new DetectionScheduler();
+    scheduler.markRun(0);
+
+    expect(scheduler.shouldRun(200, false)).toBe(false);
+    expect(scheduler.shouldRun(DEFAULT_SCHEDULE.staticInterval, false)).toBe(true);
+  });
+
+  it('stretches the interval to keep inference within its budget', () => {
+    const scheduler = new DetectionScheduler({ budget: 0.5 });
+    scheduler.recordInference(100);
+    expect(scheduler.interval).toBe(200);
+
+    scheduler.recordInference(5000);
+    expect(scheduler.interval).toBe(DEFAULT_SCHEDULE.maxInterval);
+  });
+
+  it('steps resolution down on slow inference and back up when it is fast again', () => {
+    const scheduler = new DetectionScheduler();
+    for (let i = 0; i < 4; i++) scheduler.recordInference(200);
+    // Not judged until the samples settle
+    expect(scheduler.inputScale).toBe(1);
+    scheduler.recordInference(200);
+    expect(scheduler.inputScale).toBe(0.75);
+
+    for (let i = 0; i < 5; i++) scheduler.recordInference(200);
+    expect(scheduler.inputScale).toBe(0.5);
+    // Already at the smallest step
+    for (let i = 0; i < 5; i++) scheduler.recordInference(200);
+    expect(scheduler.inputScale).toBe(0.5);
+
+    for (let i = 0; i < 30; i++) scheduler.recordInference(10);
+    expect(scheduler.inputScale).toBe(1);
+  });
+
+  it('multiplies the interval by the power factor, never below 1', () => {
+    const scheduler = new DetectionScheduler();
+    scheduler.setPowerFactor(3);
+    expect(scheduler.interval).toBe(DEFAULT_SCHEDULE.interval * 3);
+
+    scheduler.setPowerFactor(0.5);
+    expect(scheduler.interval).toBe(DEFAULT_SCHEDULE.interval);
+  });
+});
+
+describe('FrameDiffer', () => {
+  // An OffscreenCanvas whose pixels are whatever gray the last drawn "frame" was
+  class FakeCanvas {
+    private gray = 0;
+    constructor(private width: number, private height: number) {}
+    getContext() {
+      return {
+        drawImage: (source: { gray: number }) => {
+          this.gray = source.gray;
+        },
+        getImageData: () => ({ data: new Uint8ClampedArray(this.width * this.height * 4).fill(this.gray) })
+      };
+    }
+  }
+  const frame = (gray: number) => ({ gray }) as unknown as CanvasImageSource;
+
+  it('reports the mean luminance change between frames', () => {
+    vi.stubGlobal('OffscreenCanvas', FakeCanvas);
+    const differ = new FrameDiffer();
+
+    expect(differ.difference(frame(100))).toBe(Infinity);
+    expect(differ.difference(frame(100))).toBe(0);
+    expect(differ.difference(frame(110))).toBe(10);
+
+    differ.reset();
+    expect(differ.difference(frame(110))).toBe(Infinity);
+  });
+});
+
+describe('watchPowerHints', () => {
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('slows down on a low battery and recovers when charging', async () => {
+    const battery = Object.assign(new EventTarget(), { charging: false, level: 0.1 });
+    vi.stubGlobal('navigator', { getBattery: async () => battery });
+    const onChange = vi.fn();
+
+    const stop = watchPowerHints(onChange);
+    await flush();
+    expect(onChange).toHaveBeenLastCalledWith(3);
+
+    battery.charging = true;
+    battery.dispatchEvent(new Event('chargingchange'));
+    expect(onChange).toHaveBeenLastCalledWith(1);
+
+    stop();
+    battery.level = 0.3;
+    battery.charging = false;
+    battery.dispatchEvent(new Event('levelchange'));
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('slows down under CPU pressure and disconnects when stopped', () => {
+    vi.stubGlobal('navigator', {});
+    let callback: (records: { state: string }[]) => void = () => {};
+    const disconnect = vi.fn();
+    vi.stubGlobal('PressureObserver', class {
+      constructor(cb: typeof callback) {
+        callback = cb;
+      }
+      observe = async () => {};
+      disconnect = disconnect;
+    });
+    const onChange = vi.fn();
+
+    const stop = watchPowerHints(onChange);
+    callback([{ state: 'nominal' }, { state: 'serious' }]);
+    expect(onChange).toHaveBeenLastCalledWith(2);
+    callback([{ state: 'critical' }]);
+    expect(onChange).toHaveBeenLastCalledWith(4);
+
+    stop();
+    expect(disconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+export interface ScheduleOptions {
+  // Base time between inferences, in ms
+  interval: number;
+  maxInterval: number;
+  // Share of wall-clock time inference may use; the interval stretches to stay under it
+  budget: number;
+  // Mean per-pixel luminance change (0-255) that counts as the scene moving
+  motionThreshold: number;
+  // A static scene is still re-checked this often, in ms
+  staticInterval: number;
+  // Input resolution steps as a fraction of the video size, largest first
+  inputScales: number[];
+  // Average inference time (ms) above which resolution steps down, and below which it steps back up
+  slowInference: number;
+  fastInference: number;
+}
+
+export const DEFAULT_SCHEDULE: ScheduleOptions = {
+  interval: 66,
+  maxInterval: 1000,
+  budget: 0.6,
+  motionThreshold: 3,
+  staticInterval: 500,
+  inputScales: [1, 0.75, 0.5],
+  slowInference: 120,
+  fastInference: 50
+};
+
+// Samples to wait after a resolution change before judging it
+const SETTLE_SAMPLES = 5;
+
+// Decides when the next inference should run and at what input resolution,
+// based on measured inference time, scene motion and power hints.
+export class DetectionScheduler {
+  private options: ScheduleOptions;
+  private lastRun = -Infinity;
+  private averageInference: number | null = null;
+  private scaleIndex = 0;
+  private samplesSinceChange = 0;
+  private powerFactor = 1;
+
+  constructor(options: Partial<ScheduleOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULE, ...options };
+  }
+
+  get inputScale(): number {
+    return this.options.inputScales[this.scaleIndex] ?? 1;
+  }
+
+  get interval(): number {
+    const budgeted = this.averageInference !== null
+      ? this.averageInference / this.options.budget
+      : 0;
+    return Math.min(this.options.maxInterval, Math.max(this.options.interval, budgeted) * this.powerFactor);
+  }
+
+  get motionThreshold(): number {
+    return this.options.motionThreshold;
+  }
+
+  // Whether enough time has passed since the last inference to consider another
+  due(now: number): boolean {
+    return now - this.lastRun >= this.interval;
+  }
+
+  shouldRun(now: number, moved: boolean): boolean {
+    if (!this.due(now)) return false;
+    return moved || now - this.lastRun >= this.options.staticInterval;
+  }
+
+  markRun(now: number) {
+    this.lastRun = now;
+  }
+
+  recordInference(duration: number) {
+    this.averageInference = this.averageInference === null
+      ? duration
+      : this.averageInference * 0.8 + duration * 0.2;
+
+    this.samplesSinceChange++;
+    if (this.samplesSinceChange < SETTLE_SAMPLES) return;
+
+    const lastIndex = this.options.inputScales.length - 1;
+    if (this.averageInference > this.options.slowInference && this.scaleIndex < lastIndex) {
+      this.scaleIndex++;
+      this.samplesSinceChange = 0;
+    } else if (this.averageInference < this.options.fastInference && this.scaleIndex > 0) {
+      this.scaleIndex--;
+      this.samplesSinceChange = 0;
+    }
+  }
+
+  // Multiplier on the interval, > 1 when the device should be spared
+  setPowerFactor(factor: number) {
+    this.powerFactor = Math.max(1, factor);
+  }
+}
+
+// Cheap motion check: compares tiny grayscale thumbnails of consecutive frames
+export class FrameDiffer {
+  private canvas: OffscreenCanvas | HTMLCanvasElement | null = null;
+  private ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null = null;
+  private previous: Uint8ClampedArray | null = null;
+
+  constructor(private width = 32, private height = 24) {}
+
+  // Mean absolute luminance change since the previous call; Infinity on the first frame
+  difference(source: CanvasImageSource): number {
+    const ctx = this.context();
+    if (!ctx) return Infinity;
+
+    ctx.drawImage(source, 0, 0, this.width, this.height);
+    const { data } = ctx.getImageData(0, 0, this.width, this.height);
+
+    const luma = new Uint8ClampedArray(this.width * this.height);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    }
+
+    const previous = this.previous;
+    this.previous = luma;
+    if (!previous) return Infinity;
+
+    let total = 0;
+    for (let i = 0; i < luma.length; i++) {
+      total += Math.abs(luma[i] - previous[i]);
+    }
+    return total / luma.length;
+  }
+
+  reset() {
+    this.previous = null;
+  }
+
+  private context() {
+    if (!this.ctx) {
+      this.canvas = typeof OffscreenCanvas !== 'undefined'
+        ? new OffscreenCanvas(this.width, this.height)
+        : Object.assign(document.createElement('canvas'), { width: this.width, height: this.height });
+      this.ctx = this.canvas.getContext('2d', { willReadFrequently: true }) as
+        | OffscreenCanvasRenderingContext2D
+        | CanvasRenderingContext2D
+        | null;
+    }
+    return this.ctx;
+  }
+}
+
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number;
+}
+
+interface PressureRecord {
+  state: 'nominal' | 'fair' | 'serious' | 'critical';
+}
+
+interface PressureObserverLike {
+  observe(source: 'cpu'): Promise<void>;
+  disconnect(): void;
+}
+
+type PressureObserverConstructor = new (callback: (records: PressureRecord[]) => void) => PressureObserverLike;
+
+// Reports an interval multiplier from the Battery Status and Compute Pressure
+// APIs where the browser has them. Returns a function that stops watching.
+export function watchPowerHints(onChange: (factor: number) => void): () => void {
+  let batteryFactor = 1;
+  let thermalFactor = 1;
+  let stopped = false;
+  const cleanups: (() => void)[] = [];
+
+  const report = () => {
+    if (!stopped) onChange(batteryFactor * thermalFactor);
+  };
+
+  const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+  if (nav.getBattery) {
+    nav.getBattery().then(battery => {
+      if (stopped) return;
+      const update = () => {
+        batteryFactor = battery.charging ? 1 : battery.level < 0.2 ? 3 : battery.level < 0.5 ? 1.5 : 1;
+        report();
+      };
+      update();
+      battery.addEventListener('levelchange', update);
+      battery.addEventListener('chargingchange', update);
+      cleanups.push(() => {
+        battery.removeEventListener('levelchange', update);
+        battery.removeEventListener('chargingchange', update);
+      });
+    }).catch(() => {});
+  }
+
+  const PressureObserver = (globalThis as { PressureObserver?: PressureObserverConstructor }).PressureObserver;
+  if (PressureObserver) {
+    const observer = new PressureObserver(records => {
+      const state = records[records.length - 1]?.state;
+      thermalFactor = state === 'critical' ? 4 : state === 'serious' ? 2 : 1;
+      report();
+    });
+    observer.observe('cpu').catch(() => {});
+    cleanups.push(() => observer.disconnect());
+  }
+
+  return () => {
+    stopped = true;
+    cleanups.forEach(cleanup => cleanup());
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { BoxSmoother, DEFAULT_SMOOTHING, OneEuroFilter } from './smoothing';
+
+// 30 fps
+const FRAME = 1000 / 30;
+
+describe('OneEuroFilter', () => {
+  it('passes the first value through', () => {
+    expect(new OneEuroFilter().filter(42, 0)).toBe(42);
+  });
+
+  it('damps jitter around a steady value', () => {
+    const filter = new OneEuroFilter();
+    const outputs = Array.from({ length: 60 }, (_, i) => filter.filter(100 + (i % 2 ? 4 : -4), i * FRAME));
+    const spread = Math.max(...outputs.slice(30)) - Math.min(...outputs.slice(30));
+
+    expect(spread).toBeLessThan(4);
+  });
+
+  it('lags less on fast motion as beta rises', () => {
+    const lagAfterRamp = (beta: number) => {
+      const filter = new OneEuroFilter({ ...DEFAULT_SMOOTHING, beta });
+      let value = 0;
+      for (let i = 0; i <= 30; i++) value = filter.filter(i * 20, i * FRAME);
+      return 600 - value;
+    };
+
+    expect(lagAfterRamp(0.05)).toBeLessThan(lagAfterRamp(0));
+  });
+
+  it('ignores a sample that is not newer than the last', () => {
+    const filter = new OneEuroFilter();
+    filter.filter(10, 100);
+
+    expect(filter.filter(500, 100)).toBe(10);
+    expect(filter.filter(500, 50)).toBe(10);
+  });
+
+  it('predicts along the trend and starts fresh after a reset', () => {
+    const filter = new OneEuroFilter();
+    for (let i = 0; i < 30; i++) filter.filter(i * 10, i * FRAME);
+    const last = filter.filter(300, 30 * FRAME);
+
+    expect(filter.predict(31 * FRAME)).toBeGreaterThan(last);
+    filter.reset();
+    expect(filter.predict(32 * FRAME)).toBeNull();
+    expect(filter.filter(7, 33 * FRAME)).toBe(7);
+  });
+});
+
+describe('BoxSmoother', () => {
+  it('keeps the center still while the box grows around it', () => {
+    const smoother = new BoxSmoother();
+    let box = smoother.update({ x: 100, y: 100, width: 100, height: 50 }, 0);
+    for (let i = 1; i <= 10; i++) {
+      const grow = i * 10;
+      box = smoother.update({ x: 100 - grow / 2, y: 100 - grow / 4, width: 100 + grow, height: 50 + grow / 2 }, i * FRAME);
+    }
+
+    expect(box.x + box.width / 2).toBeCloseTo(150, 6);
+    expect(box.y + box.height / 2).toBeCloseTo(125, 6);
+    expect(box.width).toBeGreaterThan(100);
+  });
+
+  it('coasts for maxCoastFrames after a miss and then gives up', () => {
+    const smoother = new BoxSmoother({ ...DEFAULT_SMOOTHING, maxCoastFrames: 2 });
+    expect(smoother.coast(0)).toBeNull();
+
+    let box = smoother.update({ x: 0, y: 0, width: 50, height: 50 }, 0);
+    for (let i = 1; i < 10; i++) box = smoother.update({ x: i * 10, y: 0, width: 50, height: 50 }, i * FRAME);
+
+    const first = smoother.coast(10 * FRAME);
+    expect(first?.x).toBeGreaterThan(box.x);
+    expect(first?.width).toBe(box.width);
+    expect(smoother.coast(11 * FRAME)).not.toBeNull();
+    expect(smoother.coast(12 * FRAME)).toBeNull();
+
+    // A new detection resets the count
+    smoother.update({ x: 100, y: 0, width: 50, height: 50 }, 13 * FRAME);
+    expect(smoother.coast(14 * FRAME)).not.toBeNull();
+  });
+});
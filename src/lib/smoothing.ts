@@ -0,0 +1,124 @@
+import type { CarPosition } from './types';
+
+export interface FilterOptions {
+  // Cutoff frequency (Hz) when the signal is still; lower means less jitter
+  minCutoff: number;
+  // How quickly the cutoff rises with speed; higher means less lag on fast motion
+  beta: number;
+  derivativeCutoff: number;
+}
+
+export interface SmoothingOptions extends FilterOptions {
+  // Frames the overlay keeps moving along its predicted path after a missed detection
+  maxCoastFrames: number;
+}
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = {
+  minCutoff: 1.2,
+  beta: 0.01,
+  derivativeCutoff: 1,
+  maxCoastFrames: 6
+};
+
+export const DEFAULT_FLOOR_SMOOTHING: FilterOptions = {
+  minCutoff: 0.3,
+  beta: 0.5,
+  derivativeCutoff: 1
+};
+
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+// One-Euro filter (Casiez et al. 2012): an adaptive low-pass that smooths
+// heavily while the value is steady and loosens up as it starts moving.
+// Timestamps are in milliseconds.
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime: number | null = null;
+
+  constructor(private options: FilterOptions = DEFAULT_SMOOTHING) {}
+
+  filter(raw: number, timestamp: number): number {
+    if (this.value === null || this.lastTime === null) {
+      this.value = raw;
+      this.lastTime = timestamp;
+      return raw;
+    }
+
+    const dt = (timestamp - this.lastTime) / 1000;
+    if (dt <= 0) return this.value;
+    this.lastTime = timestamp;
+
+    const rawDerivative = (raw - this.value) / dt;
+    this.derivative += smoothingFactor(this.options.derivativeCutoff, dt) * (rawDerivative - this.derivative);
+
+    const cutoff = this.options.minCutoff + this.options.beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (raw - this.value);
+    return this.value;
+  }
+
+  // Advance along the current trend without a measurement
+  predict(timestamp: number): number | null {
+    if (this.value === null || this.lastTime === null) return this.value;
+    const dt = (timestamp - this.lastTime) / 1000;
+    if (dt > 0) {
+      this.value += this.derivative * dt;
+      this.lastTime = timestamp;
+    }
+    return this.value;
+  }
+
+  reset() {
+    this.value = null;
+    this.derivative = 0;
+    this.lastTime = null;
+  }
+}
+
+// Smooths a screen-space box. Center and size are filtered separately so a
+// box that grows as the car approaches doesn't read as sideways motion.
+export class BoxSmoother {
+  private centerX: OneEuroFilter;
+  private centerY: OneEuroFilter;
+  private width: OneEuroFilter;
+  private height: OneEuroFilter;
+  private last: CarPosition | null = null;
+  private coastedFrames = 0;
+
+  constructor(private options: SmoothingOptions = DEFAULT_SMOOTHING) {
+    this.centerX = new OneEuroFilter(options);
+    this.centerY = new OneEuroFilter(options);
+    this.width = new OneEuroFilter(options);
+    this.height = new OneEuroFilter(options);
+  }
+
+  update(box: CarPosition, timestamp: number): CarPosition {
+    this.coastedFrames = 0;
+    const width = this.width.filter(box.width, timestamp);
+    const height = this.height.filter(box.height, timestamp);
+    const cx = this.centerX.filter(box.x + box.width / 2, timestamp);
+    const cy = this.centerY.filter(box.y + box.height / 2, timestamp);
+    this.last = { x: cx - width / 2, y: cy - height / 2, width, height };
+    return this.last;
+  }
+
+  // Called on frames where the detection was missed. Returns null once the
+  // dropout has lasted longer than maxCoastFrames.
+  coast(timestamp: number): CarPosition | null {
+    if (!this.last) return null;
+    this.coastedFrames++;
+    if (this.coastedFrames > this.options.maxCoastFrames) return null;
+
+    const cx = this.centerX.predict(timestamp) ?? this.last.x + this.last.width / 2;
+    const cy = this.centerY.predict(timestamp) ?? this.last.y + this.last.height / 2;
+    this.last = {
+      ...this.last,
+      x: cx - this.last.width / 2,
+      y: cy - this.last.height / 2
+    };
+    return this.last;
+  }
+}
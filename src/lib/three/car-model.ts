@@ -0,0 +1,190 @@
+import * as THREE from 'three';
+import { addBox, addGlass, addLight, addPanel, addWheel, beginModel } from './parts';
+
+export type VehicleType = 'car' | 'truck' | 'bus' | 'motorcycle';
+
+// Model units are roughly 1.2 per metre; every model faces +x and sits on y = 0.
+// userData.length is the bumper-to-bumper length, used to fit models to a box.
+export const SEDAN_LENGTH = 6;
+export const MODEL_UNITS_PER_METRE = 1.2;
+
+export function createVehicleModel(type: string, color: number): THREE.Group {
+  switch (type) {
+    case 'truck': return createTruck(color);
+    case 'bus': return createBus(color);
+    case 'motorcycle': return createMotorcycle(color);
+    default: return createDetailedCar(color);
+  }
+}
+
+// ===== CREATE DETAILED 3D CAR =====
+export function createDetailedCar(color: number): THREE.Group {
+  const { group: car, parts, body } = beginModel(color);
+  const { dark } = parts.materials;
+  car.userData.vehicleType = 'car';
+  car.userData.length = SEDAN_LENGTH;
+
+  // Body
+  addPanel(car, parts, body, [5.5, 1, 2.4], [0, 0.6, 0]);
+  addPanel(car, parts, body, [5.3, 0.5, 2.5], [0, 1.2, 0]);
+  addPanel(car, parts, body, [1.8, 0.5, 2.3], [2.1, 1.05, 0], [0, 0, -0.12]);
+  addPanel(car, parts, body, [1.3, 0.5, 2.3], [-2.3, 1.05, 0], [0, 0, 0.1]);
+
+  // Cabin
+  addPanel(car, parts, body, [3, 1.3, 2.2], [-0.1, 2.05, 0]);
+  addPanel(car, parts, body, [2.8, 0.18, 2.1], [-0.1, 2.75, 0]);
+
+  // Windows
+  addGlass(car, parts, [2, 1.1], [1.2, 2.1, 0], [0.3, Math.PI / 2, 0]);
+  addGlass(car, parts, [2, 1.1], [-1.5, 2.1, 0], [-0.25, -Math.PI / 2, 0]);
+  addGlass(car, parts, [2.7, 1], [-0.1, 2.15, 1.11]);
+  addGlass(car, parts, [2.7, 1], [-0.1, 2.15, -1.11], [0, Math.PI, 0]);
+
+  // Wheels
+  [1.7, -1.7].forEach(x => {
+    [1.3, -1.3].forEach(z => addWheel(car, parts, { x, z, radius: 0.5, width: 0.38 }));
+  });
+
+  // Lights
+  addLight(car, parts, 'head', [0.12, 0.3, 0.7], [2.76, 0.75, 0.7]);
+  addLight(car, parts, 'head', [0.12, 0.3, 0.7], [2.76, 0.75, -0.7]);
+  addLight(car, parts, 'tail', [0.12, 0.28, 0.6], [-2.76, 0.75, 0.7]);
+  addLight(car, parts, 'tail', [0.12, 0.28, 0.6], [-2.76, 0.75, -0.7]);
+
+  // Bumpers
+  addBox(car, parts, dark, [0.3, 0.35, 2.6], [2.85, 0.28, 0]);
+  addBox(car, parts, dark, [0.3, 0.35, 2.6], [-2.85, 0.28, 0]);
+
+  // Grille
+  addBox(car, parts, dark, [0.08, 0.5, 1.6], [2.77, 0.55, 0]);
+
+  return car;
+}
+
+// ===== PICKUP TRUCK =====
+function createTruck(color: number): THREE.Group {
+  const { group: truck, parts, body } = beginModel(color);
+  const { dark } = parts.materials;
+  truck.userData.vehicleType = 'truck';
+  truck.userData.length = 7.4;
+
+  // Chassis and lower body
+  addPanel(truck, parts, body, [7, 0.9, 2.5], [0, 0.95, 0]);
+
+  // Cab and hood
+  addPanel(truck, parts, body, [2.6, 1.5, 2.4], [1.2, 2.15, 0]);
+  addPanel(truck, parts, body, [1.6, 0.5, 2.4], [2.7, 1.6, 0]);
+
+  // Bed walls and tailgate
+  addPanel(truck, parts, body, [3.3, 0.7, 0.12], [-1.75, 1.75, 1.19]);
+  addPanel(truck, parts, body, [3.3, 0.7, 0.12], [-1.75, 1.75, -1.19]);
+  addPanel(truck, parts, body, [0.12, 0.7, 2.5], [-3.4, 1.75, 0]);
+  addBox(truck, parts, dark, [3.2, 0.05, 2.3], [-1.75, 1.42, 0]);
+
+  // Windows
+  addGlass(truck, parts, [2.1, 1], [2.51, 2.35, 0], [0.2, Math.PI / 2, 0]);
+  addGlass(truck, parts, [1.9, 0.7], [-0.11, 2.45, 0], [0, -Math.PI / 2, 0]);
+  addGlass(truck, parts, [2.1, 0.85], [1.25, 2.4, 1.21]);
+  addGlass(truck, parts, [2.1, 0.85], [1.25, 2.4, -1.21], [0, Math.PI, 0]);
+
+  // Wheels
+  [2.3, -2.2].forEach(x => {
+    [1.25, -1.25].forEach(z => addWheel(truck, parts, { x, z, radius: 0.65, width: 0.45 }));
+  });
+
+  // Lights
+  addLight(truck, parts, 'head', [0.12, 0.35, 0.6], [3.52, 1.25, 0.85]);
+  addLight(truck, parts, 'head', [0.12, 0.35, 0.6], [3.52, 1.25, -0.85]);
+  addLight(truck, parts, 'tail', [0.12, 0.45, 0.25], [-3.47, 1.55, 1.05]);
+  addLight(truck, parts, 'tail', [0.12, 0.45, 0.25], [-3.47, 1.55, -1.05]);
+
+  // Bumpers and grille
+  addBox(truck, parts, dark, [0.3, 0.45, 2.6], [3.55, 0.65, 0]);
+  addBox(truck, parts, dark, [0.3, 0.45, 2.6], [-3.55, 0.65, 0]);
+  addBox(truck, parts, dark, [0.08, 0.6, 1.4], [3.52, 1.35, 0]);
+
+  return truck;
+}
+
+// ===== CITY BUS =====
+function createBus(color: number): THREE.Group {
+  const { group: bus, parts, body } = beginModel(color);
+  const { dark } = parts.materials;
+  bus.userData.vehicleType = 'bus';
+  bus.userData.length = 14.2;
+
+  // Body and roof
+  addPanel(bus, parts, body, [14, 3, 3], [0, 2.1, 0]);
+  addPanel(bus, parts, body, [13.6, 0.2, 2.8], [0, 3.7, 0]);
+
+  // Skirt
+  addBox(bus, parts, dark, [14.05, 0.35, 3.05], [0, 0.75, 0]);
+
+  // Windscreen and rear window
+  addGlass(bus, parts, [2.6, 1.7], [7.01, 2.5, 0], [0, Math.PI / 2, 0]);
+  addGlass(bus, parts, [2.2, 1], [-7.01, 2.8, 0], [0, -Math.PI / 2, 0]);
+
+  // Passenger windows, with the door on the kerb side up front
+  for (let i = 0; i < 6; i++) {
+    const x = -5.6 + i * 2;
+    addGlass(bus, parts, [1.7, 1.15], [x, 2.75, 1.51]);
+    addGlass(bus, parts, [1.7, 1.15], [x, 2.75, -1.51], [0, Math.PI, 0]);
+  }
+  addGlass(bus, parts, [1.1, 2.3], [6.1, 2.0, 1.51]);
+
+  // Wheels
+  [4.6, -4.1].forEach(x => {
+    [1.35, -1.35].forEach(z => addWheel(bus, parts, { x, z, radius: 0.6, width: 0.5 }));
+  });
+
+  // Lights
+  addLight(bus, parts, 'head', [0.12, 0.3, 0.5], [7.06, 1.1, 1.1]);
+  addLight(bus, parts, 'head', [0.12, 0.3, 0.5], [7.06, 1.1, -1.1]);
+  addLight(bus, parts, 'tail', [0.12, 0.6, 0.3], [-7.06, 1.4, 1.2]);
+  addLight(bus, parts, 'tail', [0.12, 0.6, 0.3], [-7.06, 1.4, -1.2]);
+
+  // Destination sign
+  addLight(bus, parts, 'head', [0.08, 0.35, 1.8], [7.04, 3.45, 0]);
+
+  // Bumpers
+  addBox(bus, parts, dark, [0.25, 0.4, 3.05], [7.1, 0.7, 0]);
+  addBox(bus, parts, dark, [0.25, 0.4, 3.05], [-7.1, 0.7, 0]);
+
+  return bus;
+}
+
+// ===== MOTORCYCLE =====
+function createMotorcycle(color: number): THREE.Group {
+  const { group: bike, parts, body } = beginModel(color);
+  const { dark, chrome } = parts.materials;
+  bike.userData.vehicleType = 'motorcycle';
+  bike.userData.length = 2.6;
+
+  // Wheels
+  addWheel(bike, parts, { x: 0.9, z: 0, radius: 0.42, width: 0.16 });
+  addWheel(bike, parts, { x: -0.9, z: 0, radius: 0.42, width: 0.2 });
+
+  // Frame, tank and tail
+  addPanel(bike, parts, body, [1.2, 0.22, 0.28], [0, 0.8, 0], [0, 0, -0.15]);
+  addPanel(bike, parts, body, [0.7, 0.35, 0.45], [0.25, 1.12, 0]);
+  addPanel(bike, parts, body, [0.5, 0.18, 0.3], [-0.85, 1.05, 0], [0, 0, 0.2]);
+
+  // Seat and engine
+  addBox(bike, parts, dark, [0.8, 0.12, 0.38], [-0.35, 1.08, 0]);
+  addBox(bike, parts, dark, [0.55, 0.45, 0.4], [0.05, 0.6, 0]);
+
+  // Front forks, handlebar and exhaust
+  addBox(bike, parts, chrome, [0.07, 0.95, 0.07], [0.75, 0.85, 0.12], [0, 0, -0.4]);
+  addBox(bike, parts, chrome, [0.07, 0.95, 0.07], [0.75, 0.85, -0.12], [0, 0, -0.4]);
+  addBox(bike, parts, chrome, [0.07, 0.07, 0.8], [0.6, 1.35, 0]);
+  addBox(bike, parts, chrome, [0.8, 0.1, 0.1], [-0.45, 0.45, 0.24], [0, 0, 0.1]);
+
+  // Windscreen
+  addGlass(bike, parts, [0.35, 0.35], [0.85, 1.5, 0], [0.35, Math.PI / 2, 0]);
+
+  // Lights
+  addLight(bike, parts, 'head', [0.12, 0.18, 0.2], [0.95, 1.2, 0]);
+  addLight(bike, parts, 'tail', [0.08, 0.1, 0.18], [-1.1, 1.05, 0]);
+
+  return bike;
+}
@@ -0,0 +1,106 @@
+import * as THREE from 'three';
+import { DEFAULT_CAR_CONFIG } from '../car-config';
+import type { CarConfig } from '../types';
+import { acquireParts, addBox, releaseCarResources, setCarPaint, setGlassTint, setRims } from './parts';
+
+export type Accessory = 'roofRack' | 'spoiler';
+
+// Where accessories mount on a model, in the model's own frame
+interface Mounts {
+  // Painted panels that reach the top of the body
+  roof: THREE.Box3;
+  // Body surface just in from the rear, where a spoiler stands
+  deck: THREE.Vector3;
+  // Across the body
+  width: number;
+}
+
+// Panels topping out within this fraction of the body height count as roof
+const ROOF_TOLERANCE = 0.03;
+// How far in from the rear the spoiler stands, as a fraction of the length
+const DECK_INSET = 0.07;
+
+// Reads the mounts off the painted panels rather than fixed coordinates, so
+// accessories sit on whatever shape the model has: a procedural vehicle or a
+// catalog asset, which only matches the procedural length
+function findMounts(car: THREE.Object3D): Mounts {
+  car.updateWorldMatrix(true, true);
+  const toCar = car.matrixWorld.clone().invert();
+  const panels: THREE.Mesh[] = [];
+  car.traverse(object => {
+    if (object instanceof THREE.Mesh && object.userData.part === 'body') panels.push(object);
+  });
+
+  const boxes = panels.map(panel => {
+    if (!panel.geometry.boundingBox) panel.geometry.computeBoundingBox();
+    return panel.geometry.boundingBox!.clone().applyMatrix4(toCar.clone().multiply(panel.matrixWorld));
+  });
+  const body = boxes.reduce((union, box) => union.union(box), new THREE.Box3());
+  const size = body.getSize(new THREE.Vector3());
+  const roof = boxes
+    .filter(box => box.max.y >= body.max.y - size.y * ROOF_TOLERANCE)
+    .reduce((union, box) => union.union(box), new THREE.Box3());
+
+  // Drop onto the body from above at the deck position
+  const x = body.min.x + size.x * DECK_INSET;
+  const raycaster = new THREE.Raycaster(
+    car.localToWorld(new THREE.Vector3(x, body.max.y + 1, 0)),
+    new THREE.Vector3(0, -1, 0).transformDirection(car.matrixWorld)
+  );
+  const hit = raycaster.intersectObjects(panels, false)[0];
+  const deck = hit ? car.worldToLocal(hit.point.clone()) : new THREE.Vector3(x, body.max.y, 0);
+
+  return { roof, deck, width: size.z };
+}
+
+const ACCESSORIES: Record<Accessory, (group: THREE.Group, mounts: Mounts) => void> = {
+  roofRack: (group, { roof }) => {
+    const parts = acquireParts(group);
+    const { chrome, dark } = parts.materials;
+    const center = roof.getCenter(new THREE.Vector3());
+    const size = roof.getSize(new THREE.Vector3());
+    const top = roof.max.y;
+
+    // Two rails on feet along the roof, with two crossbars over them
+    [0.4, -0.4].forEach(side => {
+      const z = side * size.z;
+      addBox(group, parts, chrome, [size.x * 0.93, 0.08, 0.08], [center.x, top + 0.18, z]);
+      [0.36, -0.36].forEach(end => addBox(group, parts, dark, [0.1, 0.2, 0.1], [center.x + end * size.x, top + 0.06, z]));
+    });
+    [0.29, -0.29].forEach(end => addBox(group, parts, dark, [0.08, 0.06, size.z * 0.9], [center.x + end * size.x, top + 0.22, 0]));
+  },
+  spoiler: (group, { deck, width }) => {
+    const parts = acquireParts(group);
+    addBox(group, parts, parts.materials.dark, [0.55, 0.07, width * 0.92], [deck.x, deck.y + 0.45, 0], [0, 0, 0.12]);
+    [0.32, -0.32].forEach(side => {
+      addBox(group, parts, parts.materials.dark, [0.14, 0.45, 0.1], [deck.x + 0.05, deck.y + 0.2, side * width]);
+    });
+  }
+};
+
+// Adds or removes an accessory in place
+export function setAccessory(car: THREE.Object3D, accessory: Accessory, enabled: boolean) {
+  const existing = car.children.find(child => child.userData.accessory === accessory);
+  if (enabled === Boolean(existing)) return;
+
+  if (existing) {
+    car.remove(existing);
+    releaseCarResources(existing);
+    return;
+  }
+
+  const group = new THREE.Group();
+  group.userData.accessory = accessory;
+  ACCESSORIES[accessory](group, findMounts(car));
+  car.add(group);
+}
+
+// Brings a model in line with a car's paint and config. Only what changed
+// is touched, so this is cheap enough to call every frame.
+export function applyCarConfig(car: THREE.Object3D, color: number, config: CarConfig = DEFAULT_CAR_CONFIG) {
+  setCarPaint(car, color, config.finish);
+  setGlassTint(car, config.tint);
+  setRims(car, config.rimStyle, config.rimSize);
+  setAccessory(car, 'roofRack', config.roofRack);
+  setAccessory(car, 'spoiler', config.spoiler);
+}
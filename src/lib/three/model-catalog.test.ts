@@ -0,0 +1,203 @@
+import { readFile } from 'node:fs/promises';
+import { resolveObjectURL } from 'node:buffer';
+import { join } from 'node:path';
+import * as THREE from 'three';
+import { GLTFLoader, type GLTF } from 'three/addons/loaders/GLTFLoader.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SEDAN_LENGTH } from './car-model';
+import { applyCarConfig } from './customize';
+import { MODEL_CATALOG, catalogEntry, loadVehicleAsset, resolveViewerSource } from './model-catalog';
+import { carResources, releaseCarResources } from './parts';
+
+const PUBLIC_DIR = join(__dirname, '..', '..', '..', 'public');
+
+const bodyMaterial = (model: THREE.Object3D) => {
+  let material: THREE.MeshStandardMaterial | undefined;
+  model.traverse(object => {
+    if (!material && object instanceof THREE.Mesh && object.userData.part === 'body') material = object.material;
+  });
+  return material;
+};
+
+const parseGlb = (data: ArrayBuffer) => new Promise<GLTF>((resolve, reject) => new GLTFLoader().parse(data, '', resolve, reject));
+
+// GLTFExporter reads its output back through FileReader, which Node doesn't have
+class NodeFileReader {
+  result: ArrayBuffer | null = null;
+  onloadend: (() => void) | null = null;
+  readAsArrayBuffer(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = buffer;
+      this.onloadend?.();
+    });
+  }
+}
+
+beforeEach(() => {
+  // There is no server under Node: catalog URLs are read from public/
+  vi.spyOn(GLTFLoader.prototype, 'load').mockImplementation(function (this: GLTFLoader, url, onLoad, onProgress, onError) {
+    readFile(join(PUBLIC_DIR, url)).then(file => {
+      onProgress?.({ loaded: file.byteLength, total: file.byteLength } as ProgressEvent);
+      const data = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+      this.parse(data, '', onLoad, onError);
+    }, onError);
+  });
+  vi.stubGlobal('FileReader', NodeFileReader);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  carResources.disposeAll();
+});
+
+describe('loadVehicleAsset', () => {
+  it('loads the shipped car facing +x on the ground at the procedural length', async () => {
+    const onProgress = vi.fn();
+    const model = await loadVehicleAsset('car', 0xff0000, onProgress);
+    const box = new THREE.Box3().setFromObject(model);
+    const size = box.getSize(new THREE.Vector3());
+
+    expect(onProgress).toHaveBeenLastCalledWith(1);
+    expect(size.x).toBeCloseTo(SEDAN_LENGTH, 5);
+    // Authored with x along its length
+    expect(size.x).toBeGreaterThan(size.z * 2);
+    expect(box.min.y).toBeCloseTo(0, 5);
+    expect(box.getCenter(new THREE.Vector3()).x).toBeCloseTo(0, 5);
+  });
+
+  it('paints the meshes whose material is the paint and leaves the rest', async () => {
+    const model = await loadVehicleAsset('car', 0x3498db);
+    const others: THREE.Material[] = [];
+    model.traverse(object => {
+      if (object instanceof THREE.Mesh && object.userData.part !== 'body') others.push(object.material);
+    });
+
+    expect(bodyMaterial(model)?.color.getHex()).toBe(0x3498db);
+    expect(others.map(material => material.name)).toEqual(expect.arrayContaining(['glass', 'tyre', 'rim']));
+    expect(others.every(material => material.name !== 'paint')).toBe(true);
+  });
+
+  it('takes a full config: paint, tint and rims all change', async () => {
+    const model = await loadVehicleAsset('car', 0xffffff);
+    const meshes = (part: string) => model.getObjectsByProperty('type', 'Mesh').filter(object => object.userData.part === part) as THREE.Mesh[];
+    const glass = meshes('glass');
+    const rims = meshes('rim');
+    const rimRadius = (rim: THREE.Mesh) => new THREE.Box3().setFromObject(rim).getSize(new THREE.Vector3()).x;
+    expect(glass.length).toBeGreaterThan(0);
+    expect(rims).toHaveLength(4);
+    const loaded = { glass: glass[0].material, rim: rims[0].material, radius: rimRadius(rims[0]) };
+
+    applyCarConfig(model, 0x00ff00, { finish: 'matte', rimStyle: 'bronze', rimSize: 'large', tint: 1, roofRack: false, spoiler: false });
+    const large = rimRadius(rims[0]);
+    applyCarConfig(model, 0x00ff00, { finish: 'matte', rimStyle: 'bronze', rimSize: 'small', tint: 1, roofRack: false, spoiler: false });
+    const small = rimRadius(rims[0]);
+
+    expect(bodyMaterial(model)?.color.getHex()).toBe(0x00ff00);
+    expect(glass.every(mesh => mesh.material !== loaded.glass && (mesh.material as THREE.MeshStandardMaterial).opacity === 1)).toBe(true);
+    expect(rims.every(rim => rim.material !== loaded.rim && (rim.material as THREE.MeshStandardMaterial).color.getHex() === 0xb08d57)).toBe(true);
+    // Rims grow and shrink within the same tyre
+    expect(large).toBeGreaterThan(loaded.radius);
+    expect(small).toBeLessThan(loaded.radius);
+  });
+
+  it('shares the geometry between instances', async () => {
+    const [a, b] = await Promise.all([loadVehicleAsset('car', 0xffffff), loadVehicleAsset('car', 0x000000)]);
+    const geometries = (model: THREE.Object3D) => {
+      const found: THREE.BufferGeometry[] = [];
+      model.traverse(object => {
+        if (object instanceof THREE.Mesh) found.push(object.geometry);
+      });
+      return found;
+    };
+
+    const shared = geometries(b);
+    expect(geometries(a).every((geometry, i) => geometry === shared[i])).toBe(true);
+    expect(bodyMaterial(a)).not.toBe(bodyMaterial(b));
+  });
+
+  it('stands the roof rack on the roof and the spoiler on the boot lid', async () => {
+    const model = await loadVehicleAsset('car', 0xffffff);
+    applyCarConfig(model, 0xffffff, { finish: 'metallic', rimStyle: 'chrome', rimSize: 'medium', tint: 0.5, roofRack: true, spoiler: true });
+    model.updateWorldMatrix(true, true);
+    const accessory = (name: string) => new THREE.Box3().setFromObject(model.children.find(child => child.userData.accessory === name)!);
+    const panels = model.getObjectsByProperty('type', 'Mesh').filter(object => object.userData.part === 'body');
+    const bodyTop = (x: number) => new THREE.Raycaster(new THREE.Vector3(x, 10, 0), new THREE.Vector3(0, -1, 0)).intersectObjects(panels, false)[0].point.y;
+
+    const rack = accessory('roofRack');
+    const spoiler = accessory('spoiler');
+    const roofTop = panels.reduce((box, panel) => box.union(new THREE.Box3().setFromObject(panel)), new THREE.Box3()).max.y;
+
+    // Feet sink a little into the panel they stand on
+    expect(rack.min.y).toBeGreaterThan(roofTop - 0.1);
+    expect(rack.min.y).toBeLessThan(roofTop);
+    expect(spoiler.min.y).toBeGreaterThan(bodyTop(spoiler.max.x) - 0.1);
+    expect(spoiler.min.y).toBeLessThan(bodyTop(spoiler.max.x));
+  });
+
+  it('loads again after a failed load', async () => {
+    const load = vi.mocked(GLTFLoader.prototype.load);
+    const fromDisk = load.getMockImplementation()!;
+    load.mockImplementationOnce((url, onLoad, onProgress, onError) => onError?.(new Error('offline')));
+
+    await expect(loadVehicleAsset('car', 0xffffff)).rejects.toThrow('offline');
+    load.mockImplementation(fromDisk);
+    const model = await loadVehicleAsset('car', 0xffffff);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    releaseCarResources(model);
+  });
+
+  it('loads a fresh template once the last instance is released', async () => {
+    const load = vi.mocked(GLTFLoader.prototype.load);
+    const first = await loadVehicleAsset('car', 0xffffff);
+    const second = await loadVehicleAsset('car', 0xffffff);
+    releaseCarResources(first);
+    releaseCarResources(second);
+
+    const third = await loadVehicleAsset('car', 0xffffff);
+    releaseCarResources(third);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(carResources.stats()).toEqual({ resources: 0, references: 0 });
+  });
+
+  it('rejects for classes without an asset, which keep their procedural model', async () => {
+    expect(catalogEntry('bus')).toBeUndefined();
+    await expect(loadVehicleAsset('bus', 0xffffff)).rejects.toThrow('No 3D asset for bus');
+  });
+});
+
+describe('resolveViewerSource', () => {
+  it('points at the catalog file when it is there', async () => {
+    const fetch = vi.fn(async () => new Response(null, { headers: { 'content-type': 'model/gltf-binary' } }));
+    vi.stubGlobal('fetch', fetch);
+
+    expect(await resolveViewerSource('car', 0xffffff)).toEqual({ url: MODEL_CATALOG.car?.url });
+    expect(fetch).toHaveBeenCalledWith('/models/car.glb', { method: 'HEAD' });
+  });
+
+  it('exports the procedural model when the file is missing', async () => {
+    // A missing file comes back as the app's HTML 404 page
+    vi.stubGlobal('fetch', async () => new Response('<html></html>', { status: 404, headers: { 'content-type': 'text/html' } }));
+
+    const source = await resolveViewerSource('car', 0xffffff);
+    const blob = resolveObjectURL(source.url);
+    const gltf = await parseGlb(await blob!.arrayBuffer());
+    source.revoke?.();
+
+    expect(source.url).toMatch(/^blob:/);
+    expect(gltf.scene.getObjectsByProperty('type', 'Mesh').length).toBeGreaterThan(0);
+  });
+
+  it('exports the procedural model without asking for classes not in the catalog', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    const source = await resolveViewerSource('bus', 0xffffff);
+    source.revoke?.();
+
+    expect(source.url).toMatch(/^blob:/);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
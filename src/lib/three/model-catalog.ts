@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { createVehicleModel, type VehicleType } from './car-model';
+import { RIM_RADIUS, holdResource, releaseCarResources, setCarColor } from './parts';
+
+export interface CatalogEntry {
+  // GLB file under /public
+  url: string;
+  // Turn (radians about y) that makes the asset face +x like the procedural models
+  rotationY: number;
+}
+
+// GLB assets that replace the procedural models, built into public/models by
+// `npm run models` (scripts/build-models.ts). Classes without an entry keep
+// their procedural model, and so does any class whose file fails to load.
+export const MODEL_CATALOG: Partial<Record<VehicleType, CatalogEntry>> = {
+  car: { url: '/models/car.glb', rotationY: 0 }
+};
+
+// Material names that mark a mesh as one of the parts the configurator
+// swaps: paint follows setCarPaint, glass setGlassTint and rims setRims.
+// These are the names scripts/build-models.ts gives its materials.
+const PART_MATERIALS: [string, RegExp][] = [
+  ['body', /paint|body/i],
+  ['glass', /glass/i],
+  ['rim', /\brim/i]
+];
+const TYRE_MATERIAL = /tyre|tire/i;
+
+const templates = new Map<string, Promise<THREE.Group>>();
+
+export function catalogEntry(type: string): CatalogEntry | undefined {
+  return MODEL_CATALOG[type as VehicleType];
+}
+
+function loadTemplate(type: string, onProgress?: (fraction: number) => void): Promise<THREE.Group> {
+  const entry = catalogEntry(type);
+  if (!entry) return Promise.reject(new Error(`No 3D asset for ${type}`));
+  let template = templates.get(entry.url);
+
+  if (!template) {
+    template = new Promise<THREE.Group>((resolve, reject) => {
+      new GLTFLoader().load(
+        entry.url,
+        gltf => resolve(normalizeTemplate(gltf.scene, type, entry)),
+        event => {
+          if (event.total) onProgress?.(event.loaded / event.total);
+        },
+        reject
+      );
+    });
+    templates.set(entry.url, template);
+    // A failed load is tried again next time, e.g. once the device is back online
+    template.catch(() => templates.delete(entry.url));
+  }
+
+  return template;
+}
+
+// Wraps the asset so it faces +x, rests on y = 0 and is as long as the
+// procedural model it replaces
+function normalizeTemplate(scene: THREE.Group, type: string, entry: CatalogEntry): THREE.Group {
+  const reference = createVehicleModel(type, 0xffffff);
+  const length: number = reference.userData.length;
+  releaseCarResources(reference);
+
+  scene.rotation.y = entry.rotationY;
+  const box = new THREE.Box3().setFromObject(scene);
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+  const scale = size.x > 0 ? length / size.x : 1;
+
+  scene.scale.setScalar(scale);
+  scene.position.set(-center.x * scale, -box.min.y * scale, -center.z * scale);
+
+  scene.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const part = PART_MATERIALS.find(([, pattern]) => materialNames(object).some(name => pattern.test(name)))?.[0];
+    if (!part) return;
+    object.userData.part = part;
+    if (part === 'rim') object.userData.wheelRadius = rimWheelRadius(object);
+  });
+
+  const template = new THREE.Group();
+  template.add(scene);
+  template.userData.vehicleType = type;
+  template.userData.length = length;
+  return template;
+}
+
+function materialNames(mesh: THREE.Mesh): string[] {
+  const materials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+  return materials.map(material => material.name);
+}
+
+function cylinderRadius(mesh: THREE.Mesh): number {
+  mesh.geometry.computeBoundingBox();
+  const box = mesh.geometry.boundingBox!;
+  return (box.max.x - box.min.x) / 2;
+}
+
+// setRims scales a rim to wheelRadius * RIM_RADIUS[size] across its axle,
+// which for a procedural rim (a unit cylinder) is the tyre radius. An asset
+// rim is a cylinder along its local y at its authored size, so its wheel
+// radius is the tyre's in units of the rim: the tyre sharing its wheel node,
+// or if there is none, as if it were authored at the medium size.
+function rimWheelRadius(rim: THREE.Mesh): number {
+  const tyre = rim.parent?.children.find(
+    (sibling): sibling is THREE.Mesh => sibling instanceof THREE.Mesh && materialNames(sibling).some(name => TYRE_MATERIAL.test(name))
+  );
+  const rimRadius = cylinderRadius(rim);
+  return tyre ? cylinderRadius(tyre) / rimRadius : 1 / RIM_RADIUS.medium;
+}
+
+function disposeTree(root: THREE.Object3D) {
+  root.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    object.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+    materials.forEach(material => {
+      Object.values(material).forEach(value => {
+        if (value instanceof THREE.Texture) value.dispose();
+      });
+      material.dispose();
+    });
+  });
+}
+
+// Loads the catalog GLB for a vehicle class and returns a painted instance.
+// Instances share the template's buffers; rejects if there is no asset.
+export async function loadVehicleAsset(
+  type: string,
+  color: number,
+  onProgress?: (fraction: number) => void
+): Promise<THREE.Group> {
+  const loading = loadTemplate(type, onProgress);
+  const template = await loading;
+  const model = template.clone(true);
+  const url = catalogEntry(type)!.url;
+  // Once the last instance is released the template's buffers are freed, so
+  // it leaves the cache and the next instance loads a fresh one
+  holdResource(model, `gltf:${url}`, () => ({
+    dispose: () => {
+      if (templates.get(url) === loading) templates.delete(url);
+      disposeTree(template);
+    }
+  }));
+  setCarColor(model, color);
+  return model;
+}
+
+// A URL <model-viewer> can show for this vehicle: the catalog GLB when it is
+// there, otherwise the procedural model exported to an in-memory GLB
+export async function resolveViewerSource(type: string, color: number): Promise<{ url: string; revoke?: () => void }> {
+  const entry = catalogEntry(type);
+
+  if (entry) {
+    try {
+      const response = await fetch(entry.url, { method: 'HEAD' });
+      const contentType = response.headers.get('content-type') ?? '';
+      if (response.ok && !contentType.includes('text/html')) return { url: entry.url };
+    } catch {
+      // Offline or blocked: fall through to the procedural model
+    }
+  }
+
+  const model = createVehicleModel(type, color);
+  try {
+    const glb = await new GLTFExporter().parseAsync(model, { binary: true });
+    const url = URL.createObjectURL(new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' }));
+    return { url, revoke: () => URL.revokeObjectURL(url) };
+  } finally {
+    releaseCarResources(model);
+  }
+}
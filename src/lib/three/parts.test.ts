@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { applyCarConfig, setAccessory } from './customize';
+import { createVehicleModel, type VehicleType } from './car-model';
+import {
+  carResources,
+  createCarShadow,
+  releaseCarResources,
+  setCarColor,
+  setCarPaint,
+  setGlassTint,
+  setRims
+} from './parts';
+import { ResourceRegistry } from './resources';
+
+const VEHICLES: VehicleType[] = ['car', 'truck', 'bus', 'motorcycle'];
+
+const materialOf = (car: THREE.Object3D, part: string) => {
+  let material: THREE.Material | undefined;
+  car.traverse(object => {
+    if (!material && object instanceof THREE.Mesh && object.userData.part === part) material = object.material;
+  });
+  return material!;
+};
+
+afterEach(() => {
+  carResources.disposeAll();
+});
+
+describe('ResourceRegistry', () => {
+  it('shares one resource per key and disposes it with the last release', () => {
+    const registry = new ResourceRegistry();
+    const dispose = vi.fn();
+    const create = vi.fn(() => ({ dispose }));
+
+    const first = registry.acquire('a', create);
+    const second = registry.acquire('a', create);
+    expect(second).toBe(first);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(registry.stats()).toEqual({ resources: 1, references: 2 });
+
+    registry.release('a');
+    expect(dispose).not.toHaveBeenCalled();
+    registry.release('a');
+    expect(dispose).toHaveBeenCalledTimes(1);
+    expect(registry.stats()).toEqual({ resources: 0, references: 0 });
+  });
+});
+
+describe('car resources', () => {
+  it.each(VEHICLES)('are all given back when a customized %s is released', type => {
+    const car = createVehicleModel(type, 0xff0000);
+    const shadow = createCarShadow();
+    car.add(shadow);
+
+    applyCarConfig(car, 0x00ff00, { finish: 'matte', rimStyle: 'black', rimSize: 'large', tint: 0.9, roofRack: true, spoiler: true });
+    // Every slot swapped again, and an accessory taken off
+    setCarPaint(car, 0x0000ff, 'pearl');
+    setCarColor(car, 0xffffff);
+    setGlassTint(car, 0.1);
+    setRims(car, 'bronze', 'small');
+    setAccessory(car, 'roofRack', false);
+
+    releaseCarResources(car);
+    expect(carResources.stats()).toEqual({ resources: 0, references: 0 });
+  });
+
+  it('disposes a swapped-out material nobody else uses', () => {
+    const car = createVehicleModel('car', 0xff0000);
+    const paint = materialOf(car, 'body');
+    const glass = materialOf(car, 'glass');
+    const rim = materialOf(car, 'rim');
+    const disposed = [paint, glass, rim].map(material => vi.spyOn(material, 'dispose'));
+
+    setCarPaint(car, 0x00ff00, 'matte');
+    // The first tint and rim swaps hold their own materials; the next ones give those back
+    setGlassTint(car, 0.2);
+    setRims(car, 'black', 'medium');
+    const tinted = vi.spyOn(materialOf(car, 'glass'), 'dispose');
+    const blackRim = vi.spyOn(materialOf(car, 'rim'), 'dispose');
+    setGlassTint(car, 0.8);
+    setRims(car, 'bronze', 'medium');
+
+    expect(disposed[0]).toHaveBeenCalledTimes(1);
+    expect(tinted).toHaveBeenCalledTimes(1);
+    expect(blackRim).toHaveBeenCalledTimes(1);
+    // Shared parts stay while the car is alive
+    expect(disposed[1]).not.toHaveBeenCalled();
+    expect(disposed[2]).not.toHaveBeenCalled();
+
+    releaseCarResources(car);
+    expect(carResources.stats()).toEqual({ resources: 0, references: 0 });
+  });
+
+  it('keeps a paint shared with another car when one is repainted', () => {
+    const a = createVehicleModel('car', 0xff0000);
+    const b = createVehicleModel('car', 0xff0000);
+    const shared = materialOf(a, 'body');
+    expect(materialOf(b, 'body')).toBe(shared);
+    const dispose = vi.spyOn(shared, 'dispose');
+
+    setCarColor(a, 0x00ff00);
+    expect(dispose).not.toHaveBeenCalled();
+    expect(materialOf(b, 'body')).toBe(shared);
+
+    releaseCarResources(b);
+    expect(dispose).toHaveBeenCalledTimes(1);
+    releaseCarResources(a);
+    expect(carResources.stats()).toEqual({ resources: 0, references: 0 });
+  });
+
+  it('takes no extra reference when a slot is set to what it already is', () => {
+    const car = createVehicleModel('car', 0xff0000);
+    applyCarConfig(car, 0xff0000);
+    const before = carResources.stats();
+
+    applyCarConfig(car, 0xff0000);
+    expect(carResources.stats()).toEqual(before);
+
+    releaseCarResources(car);
+    expect(carResources.stats()).toEqual({ resources: 0, references: 0 });
+  });
+});
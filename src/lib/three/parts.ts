@@ -0,0 +1,331 @@
+import * as THREE from 'three';
+import { ResourceRegistry, type Disposable } from './resources';
+import type { PaintFinish, RimSize, RimStyle } from '../types';
+
+// Parts library shared by every vehicle model. Geometries are unit-sized and
+// scaled per mesh, so a bus wheel and a motorcycle wheel are the same buffers.
+// Everything is reference counted in carResources and freed when the last
+// model using it is released.
+export interface Parts {
+  geometries: {
+    box: THREE.BoxGeometry;
+    plane: THREE.PlaneGeometry;
+    tire: THREE.CylinderGeometry;
+    rim: THREE.CylinderGeometry;
+    hub: THREE.CylinderGeometry;
+    shadow: THREE.CircleGeometry;
+  };
+  materials: {
+    glass: THREE.MeshStandardMaterial;
+    wheel: THREE.MeshStandardMaterial;
+    rim: THREE.MeshStandardMaterial;
+    chrome: THREE.MeshStandardMaterial;
+    headlight: THREE.MeshStandardMaterial;
+    taillight: THREE.MeshStandardMaterial;
+    dark: THREE.MeshStandardMaterial;
+    shadow: THREE.MeshBasicMaterial;
+  };
+}
+
+export type Vec3 = [number, number, number];
+
+export const carResources = new ResourceRegistry();
+
+const PARTS_KEY = 'car-parts';
+const bodyKey = (color: number, finish: PaintFinish) => `car-body:${color}:${finish}`;
+
+// How each paint finish catches the light
+export const FINISH_MATERIAL: Record<PaintFinish, { metalness: number; roughness: number }> = {
+  metallic: { metalness: 0.9, roughness: 0.15 },
+  matte: { metalness: 0.1, roughness: 0.85 },
+  pearl: { metalness: 0.55, roughness: 0.3 }
+};
+
+const RIM_MATERIAL: Record<RimStyle, { color: number; metalness: number; roughness: number }> = {
+  chrome: { color: 0xdddddd, metalness: 0.98, roughness: 0.02 },
+  black: { color: 0x1c1c1c, metalness: 0.7, roughness: 0.35 },
+  bronze: { color: 0xb08d57, metalness: 0.85, roughness: 0.25 }
+};
+
+// Rim radius as a fraction of the tire radius
+export const RIM_RADIUS: Record<RimSize, number> = {
+  small: 0.52,
+  medium: 0.64,
+  large: 0.78
+};
+
+function createParts(): Parts & { dispose(): void } {
+  const parts: Parts = {
+    geometries: {
+      box: new THREE.BoxGeometry(1, 1, 1),
+      plane: new THREE.PlaneGeometry(1, 1),
+      tire: new THREE.CylinderGeometry(1, 1, 1, 32),
+      rim: new THREE.CylinderGeometry(1, 1, 1, 24),
+      hub: new THREE.CylinderGeometry(1, 1, 1, 16),
+      shadow: new THREE.CircleGeometry(1, 32)
+    },
+    materials: {
+      glass: new THREE.MeshStandardMaterial({
+        color: 0x88ddff,
+        metalness: 0.98,
+        roughness: 0.02,
+        transparent: true,
+        opacity: 0.6
+      }),
+      wheel: new THREE.MeshStandardMaterial({
+        color: 0x111111,
+        metalness: 0.2,
+        roughness: 0.9
+      }),
+      rim: new THREE.MeshStandardMaterial({
+        color: 0xdddddd,
+        metalness: 0.98,
+        roughness: 0.02
+      }),
+      chrome: new THREE.MeshStandardMaterial({
+        color: 0xffffff,
+        metalness: 1,
+        roughness: 0.02
+      }),
+      headlight: new THREE.MeshStandardMaterial({
+        color: 0xffffee,
+        emissive: 0xffffee,
+        emissiveIntensity: 2
+      }),
+      taillight: new THREE.MeshStandardMaterial({
+        color: 0xff0000,
+        emissive: 0xff0000,
+        emissiveIntensity: 1.5
+      }),
+      dark: new THREE.MeshStandardMaterial({
+        color: 0x1a1a1a,
+        metalness: 0.6,
+        roughness: 0.4
+      }),
+      shadow: new THREE.MeshBasicMaterial({
+        color: 0x000000,
+        transparent: true,
+        opacity: 0.3
+      })
+    }
+  };
+
+  return {
+    ...parts,
+    dispose() {
+      Object.values(parts.geometries).forEach(geometry => geometry.dispose());
+      Object.values(parts.materials).forEach(material => material.dispose());
+    }
+  };
+}
+
+function trackKey(owner: THREE.Object3D, key: string) {
+  owner.userData.resourceKeys = [...(owner.userData.resourceKeys ?? []), key];
+}
+
+// Acquires a shared resource on behalf of `owner`; releaseCarResources(owner) gives it back
+export function holdResource<T extends Disposable>(owner: THREE.Object3D, key: string, create: () => T): T {
+  trackKey(owner, key);
+  return carResources.acquire(key, create);
+}
+
+function acquireBodyMaterial(owner: THREE.Object3D, color: number, finish: PaintFinish): THREE.MeshStandardMaterial {
+  return holdResource(owner, bodyKey(color, finish), () => new THREE.MeshStandardMaterial({
+    color: color,
+    ...FINISH_MATERIAL[finish]
+  }));
+}
+
+// The shared parts, held on behalf of `owner` (e.g. an accessory added later)
+export function acquireParts(owner: THREE.Object3D): Parts {
+  return holdResource(owner, PARTS_KEY, createParts);
+}
+
+// Starts a vehicle model: an empty group holding references to the shared
+// parts and to the body paint for `color`
+export function beginModel(color: number): {
+  group: THREE.Group;
+  parts: Parts;
+  body: THREE.MeshStandardMaterial;
+} {
+  const group = new THREE.Group();
+  trackKey(group, PARTS_KEY);
+  const parts = carResources.acquire(PARTS_KEY, createParts);
+  const body = acquireBodyMaterial(group, color, 'metallic');
+  group.userData.color = color;
+  group.userData.finish = 'metallic';
+  group.userData.bodyKey = bodyKey(color, 'metallic');
+  return { group, parts, body };
+}
+
+export function addBox(
+  group: THREE.Group,
+  parts: Parts,
+  material: THREE.Material,
+  size: Vec3,
+  position: Vec3,
+  rotation: Vec3 = [0, 0, 0]
+): THREE.Mesh {
+  const mesh = new THREE.Mesh(parts.geometries.box, material);
+  mesh.scale.set(...size);
+  mesh.position.set(...position);
+  mesh.rotation.set(...rotation);
+  group.add(mesh);
+  return mesh;
+}
+
+// A painted body panel; repainted by setCarColor
+export function addPanel(
+  group: THREE.Group,
+  parts: Parts,
+  body: THREE.MeshStandardMaterial,
+  size: Vec3,
+  position: Vec3,
+  rotation?: Vec3
+): THREE.Mesh {
+  const mesh = addBox(group, parts, body, size, position, rotation);
+  mesh.userData.part = 'body';
+  return mesh;
+}
+
+export function addGlass(
+  group: THREE.Group,
+  parts: Parts,
+  size: [number, number],
+  position: Vec3,
+  rotation: Vec3 = [0, 0, 0]
+): THREE.Mesh {
+  const mesh = new THREE.Mesh(parts.geometries.plane, parts.materials.glass);
+  mesh.scale.set(size[0], size[1], 1);
+  mesh.position.set(...position);
+  mesh.rotation.set(...rotation);
+  mesh.userData.part = 'glass';
+  group.add(mesh);
+  return mesh;
+}
+
+// Tire, rim and hub on an axle along z, resting on the ground by default
+export function addWheel(
+  group: THREE.Group,
+  parts: Parts,
+  { x, z, radius, width, y = radius }: { x: number; z: number; radius: number; width: number; y?: number }
+) {
+  const { geometries: g, materials: m } = parts;
+  const layers: [THREE.CylinderGeometry, THREE.Material, number, number, string][] = [
+    [g.tire, m.wheel, radius, width, 'tire'],
+    [g.rim, m.rim, radius * 0.64, width + 0.02, 'rim'],
+    [g.hub, m.chrome, radius * 0.24, width + 0.04, 'hub']
+  ];
+
+  layers.forEach(([geometry, material, r, w, part]) => {
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.scale.set(r, w, r);
+    mesh.position.set(x, y, z);
+    mesh.rotation.x = Math.PI / 2;
+    mesh.userData.part = part;
+    mesh.userData.wheelRadius = radius;
+    group.add(mesh);
+  });
+}
+
+export function addLight(
+  group: THREE.Group,
+  parts: Parts,
+  kind: 'head' | 'tail',
+  size: Vec3,
+  position: Vec3
+): THREE.Mesh {
+  const material = kind === 'head' ? parts.materials.headlight : parts.materials.taillight;
+  return addBox(group, parts, material, size, position);
+}
+
+// Soft contact shadow under a car
+export function createCarShadow(radius = 3): THREE.Mesh {
+  const { geometries, materials } = carResources.acquire(PARTS_KEY, createParts);
+  const shadow = new THREE.Mesh(geometries.shadow, materials.shadow);
+  trackKey(shadow, PARTS_KEY);
+  shadow.scale.set(radius, radius, 1);
+  shadow.rotation.x = -Math.PI / 2;
+  shadow.position.y = 0.01;
+  return shadow;
+}
+
+// Points every mesh tagged `part` at the shared material under `key`,
+// giving back the one it replaces. `slot` is the userData field that
+// remembers the current key.
+function swapPartMaterial(
+  car: THREE.Object3D,
+  part: string,
+  slot: string,
+  key: string,
+  create: () => THREE.Material
+) {
+  const previous = car.userData[slot] as string | undefined;
+  if (previous === key) return;
+
+  const material = holdResource(car, key, create);
+  car.traverse(object => {
+    if (object instanceof THREE.Mesh && object.userData.part === part) {
+      object.material = material;
+    }
+  });
+
+  if (previous !== undefined) {
+    const keys: string[] = car.userData.resourceKeys;
+    keys.splice(keys.indexOf(previous), 1);
+    carResources.release(previous);
+  }
+  car.userData[slot] = key;
+}
+
+// Repaints a model in place by pointing its body meshes at the shared
+// material for the new color and finish; nothing is rebuilt
+export function setCarPaint(car: THREE.Object3D, color: number, finish: PaintFinish) {
+  swapPartMaterial(car, 'body', 'bodyKey', bodyKey(color, finish), () => new THREE.MeshStandardMaterial({
+    color,
+    ...FINISH_MATERIAL[finish]
+  }));
+  car.userData.color = color;
+  car.userData.finish = finish;
+}
+
+// Repaints keeping the current finish
+export function setCarColor(car: THREE.Object3D, color: number) {
+  setCarPaint(car, color, car.userData.finish ?? 'metallic');
+}
+
+// Darker, more opaque glass as tint goes from 0 to 1
+export function setGlassTint(car: THREE.Object3D, tint: number) {
+  // Shared materials in 5% steps
+  const level = Math.round(tint * 20) / 20;
+  swapPartMaterial(car, 'glass', 'glassKey', `car-glass:${level}`, () => new THREE.MeshStandardMaterial({
+    // Clear blue glass darkens towards smoked black past the default tint
+    color: new THREE.Color(0x88ddff).lerp(new THREE.Color(0x0b1014), Math.max(0, level - 0.5) * 2),
+    metalness: 0.98,
+    roughness: 0.02,
+    transparent: true,
+    opacity: 0.2 + level * 0.8
+  }));
+}
+
+export function setRims(car: THREE.Object3D, style: RimStyle, size: RimSize) {
+  swapPartMaterial(car, 'rim', 'rimKey', `car-rim:${style}`, () => new THREE.MeshStandardMaterial(RIM_MATERIAL[style]));
+
+  if (car.userData.rimSize === size) return;
+  car.traverse(object => {
+    if (object.userData.part !== 'rim') return;
+    const radius = object.userData.wheelRadius * RIM_RADIUS[size];
+    object.scale.x = radius;
+    object.scale.z = radius;
+  });
+  car.userData.rimSize = size;
+}
+
+// Drops every shared resource held by an object and its children
+export function releaseCarResources(root: THREE.Object3D) {
+  root.traverse(object => {
+    const keys: string[] | undefined = object.userData.resourceKeys;
+    keys?.forEach(key => carResources.release(key));
+    object.userData.resourceKeys = [];
+  });
+}
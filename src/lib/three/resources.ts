@@ -0,0 +1,65 @@
+import type * as THREE from 'three';
+
+export interface Disposable {
+  dispose(): void;
+}
+
+interface Entry {
+  resource: Disposable;
+  refs: number;
+}
+
+// Reference-counted GPU resources. Every acquire() must be paired with a
+// release(); the resource is disposed when its last user lets go.
+export class ResourceRegistry {
+  private entries = new Map<string, Entry>();
+
+  acquire<T extends Disposable>(key: string, create: () => T): T {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { resource: create(), refs: 0 };
+      this.entries.set(key, entry);
+    }
+    entry.refs++;
+    return entry.resource as T;
+  }
+
+  release(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    entry.refs--;
+    if (entry.refs <= 0) {
+      entry.resource.dispose();
+      this.entries.delete(key);
+    }
+  }
+
+  disposeAll() {
+    this.entries.forEach(entry => entry.resource.dispose());
+    this.entries.clear();
+  }
+
+  stats(): { resources: number; references: number } {
+    let references = 0;
+    this.entries.forEach(entry => { references += entry.refs; });
+    return { resources: this.entries.size, references };
+  }
+}
+
+export interface GpuStats {
+  geometries: number;
+  textures: number;
+  programs: number;
+  resources: number;
+  references: number;
+}
+
+// Live counts as three.js sees them, plus what the registry still holds
+export function gpuStats(renderer: THREE.WebGLRenderer, registry: ResourceRegistry): GpuStats {
+  return {
+    geometries: renderer.info.memory.geometries,
+    textures: renderer.info.memory.textures,
+    programs: renderer.info.programs?.length ?? 0,
+    ...registry.stats()
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { BBox, Detection } from './types';
+import { VehicleTracker, bboxCenter, containsPoint, iou } from './tracker';
+
+const car = (bbox: BBox, score = 0.9): Detection => ({ bbox, class: 'car', score });
+
+describe('iou', () => {
+  it('is 1 for the same box and 0 for boxes that only touch', () => {
+    expect(iou([0, 0, 10, 10], [0, 0, 10, 10])).toBe(1);
+    expect(iou([0, 0, 10, 10], [10, 0, 10, 10])).toBe(0);
+  });
+
+  it('divides the overlap by the combined area', () => {
+    // 50 shared out of 150
+    expect(iou([0, 0, 10, 10], [5, 0, 10, 10])).toBeCloseTo(1 / 3, 10);
+  });
+});
+
+describe('bboxCenter and containsPoint', () => {
+  it('works in the same x, y, width, height boxes', () => {
+    expect(bboxCenter([10, 20, 30, 40])).toEqual([25, 40]);
+    expect(containsPoint([10, 20, 30, 40], 40, 60)).toBe(true);
+    expect(containsPoint([10, 20, 30, 40], 41, 60)).toBe(false);
+  });
+});
+
+describe('VehicleTracker', () => {
+  it('shows a vehicle only once it has been seen twice', () => {
+    const tracker = new VehicleTracker();
+
+    expect(tracker.update([car([0, 0, 100, 50])], 0)).toEqual([]);
+    const [vehicle] = tracker.update([car([5, 0, 100, 50])], 100);
+
+    expect(vehicle).toMatchObject({ id: 1, hits: 2, bbox: [5, 0, 100, 50], firstSeen: 0, lastSeen: 100 });
+  });
+
+  it('keeps ids stable for vehicles that trade places in the list', () => {
+    const tracker = new VehicleTracker();
+    const left = [0, 0, 100, 50] as BBox;
+    const right = [400, 0, 100, 50] as BBox;
+    tracker.update([car(left), car(right)], 0);
+    const before = tracker.update([car(left), car(right)], 100);
+    const after = tracker.update([car(right), car(left)], 200);
+
+    const idAt = (vehicles: typeof before, x: number) => vehicles.find(v => v.bbox[0] === x)?.id;
+    expect(idAt(after, 0)).toBe(idAt(before, 0));
+    expect(idAt(after, 400)).toBe(idAt(before, 400));
+  });
+
+  it('measures velocity in pixels per millisecond and predicts ahead with it', () => {
+    const tracker = new VehicleTracker({ velocitySmoothing: 1 });
+    tracker.update([car([0, 0, 60, 40])], 0);
+    const [moving] = tracker.update([car([40, 0, 60, 40])], 100);
+    expect(moving.velocity).toEqual([0.4, 0]);
+
+    // 200 ms on it is nowhere near the last box, but right where the
+    // prediction puts it
+    const [ahead] = tracker.update([car([120, 0, 60, 40])], 300);
+    expect(ahead.id).toBe(moving.id);
+  });
+
+  it('falls back to center distance when a box jumps too far to overlap', () => {
+    const tracker = new VehicleTracker({ iouThreshold: 0.9 });
+    tracker.update([car([0, 0, 100, 100])], 0);
+    tracker.update([car([0, 0, 100, 100])], 100);
+    // IoU 0.67, under the threshold; the centers are 0.14 diagonals apart
+    const [vehicle] = tracker.update([car([20, 0, 100, 100])], 200);
+
+    expect(vehicle.id).toBe(1);
+  });
+
+  it('coasts a missed vehicle on its prediction and then drops it', () => {
+    const tracker = new VehicleTracker({ maxMisses: 2 });
+    tracker.update([car([0, 0, 100, 50])], 0);
+    tracker.update([car([0, 0, 100, 50])], 100);
+
+    expect(tracker.update([], 200)).toMatchObject([{ id: 1, misses: 1 }]);
+    expect(tracker.update([], 300)).toMatchObject([{ id: 1, misses: 2 }]);
+    expect(tracker.update([], 400)).toEqual([]);
+  });
+
+  it('starts over after a reset', () => {
+    const tracker = new VehicleTracker();
+    tracker.update([car([0, 0, 100, 50])], 0);
+    tracker.update([car([0, 0, 100, 50])], 100);
+    tracker.reset();
+
+    expect(tracker.vehicles()).toEqual([]);
+    tracker.update([car([0, 0, 100, 50])], 200);
+    expect(tracker.update([car([0, 0, 100, 50])], 300)[0].id).toBe(2);
+  });
+});
@@ -0,0 +1,171 @@
+import type { BBox, Detection } from './types';
+
+export interface TrackedVehicle extends Detection {
+  id: number;
+  // Bbox center velocity in video pixels per millisecond
+  velocity: [number, number];
+  age: number;
+  hits: number;
+  misses: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface TrackerOptions {
+  iouThreshold: number;
+  // Max center distance for a match, as a fraction of the track's bbox diagonal
+  maxCentroidDistance: number;
+  maxMisses: number;
+  minHits: number;
+  velocitySmoothing: number;
+}
+
+const DEFAULT_OPTIONS: TrackerOptions = {
+  iouThreshold: 0.3,
+  maxCentroidDistance: 0.6,
+  maxMisses: 8,
+  minHits: 2,
+  velocitySmoothing: 0.5
+};
+
+export function iou(a: BBox, b: BBox): number {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a[2] * a[3] + b[2] * b[3] - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+export function bboxCenter(bbox: BBox): [number, number] {
+  return [bbox[0] + bbox[2] / 2, bbox[1] + bbox[3] / 2];
+}
+
+export function containsPoint(bbox: BBox, x: number, y: number): boolean {
+  return x >= bbox[0] && x <= bbox[0] + bbox[2] && y >= bbox[1] && y <= bbox[1] + bbox[3];
+}
+
+// Links detections across frames so each vehicle keeps a stable id.
+// Tracks are matched greedily on IoU against their motion-predicted bbox,
+// falling back to center distance when boxes move too far to overlap.
+export class VehicleTracker {
+  private tracks: TrackedVehicle[] = [];
+  private nextId = 1;
+  private lastUpdate: number | null = null;
+  private options: TrackerOptions;
+
+  constructor(options: Partial<TrackerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  update(detections: Detection[], timestamp: number): TrackedVehicle[] {
+    const dt = this.lastUpdate === null ? 0 : timestamp - this.lastUpdate;
+    this.lastUpdate = timestamp;
+
+    const predicted = this.tracks.map(track => predictBBox(track, dt));
+    const pairs: { track: number; detection: number; score: number }[] = [];
+
+    this.tracks.forEach((track, t) => {
+      detections.forEach((detection, d) => {
+        const score = this.matchScore(predicted[t], detection.bbox);
+        if (score > 0) pairs.push({ track: t, detection: d, score });
+      });
+    });
+
+    pairs.sort((a, b) => b.score - a.score);
+
+    const matchedTracks = new Set<number>();
+    const matchedDetections = new Set<number>();
+
+    for (const pair of pairs) {
+      if (matchedTracks.has(pair.track) || matchedDetections.has(pair.detection)) continue;
+      matchedTracks.add(pair.track);
+      matchedDetections.add(pair.detection);
+      this.tracks[pair.track] = this.applyMatch(this.tracks[pair.track], detections[pair.detection], dt, timestamp);
+    }
+
+    this.tracks = this.tracks
+      .map((track, t) => {
+        if (matchedTracks.has(t)) return track;
+        return {
+          ...track,
+          bbox: predicted[t],
+          age: track.age + 1,
+          misses: track.misses + 1
+        };
+      })
+      .filter(track => track.misses <= this.options.maxMisses);
+
+    detections.forEach((detection, d) => {
+      if (matchedDetections.has(d)) return;
+      this.tracks.push({
+        ...detection,
+        id: this.nextId++,
+        velocity: [0, 0],
+        age: 1,
+        hits: 1,
+        misses: 0,
+        firstSeen: timestamp,
+        lastSeen: timestamp
+      });
+    });
+
+    return this.vehicles();
+  }
+
+  // Confirmed tracks only, so a single spurious detection never gets an id on screen
+  vehicles(): TrackedVehicle[] {
+    return this.tracks.filter(track => track.hits >= this.options.minHits);
+  }
+
+  reset() {
+    this.tracks = [];
+    this.lastUpdate = null;
+  }
+
+  private matchScore(predicted: BBox, bbox: BBox): number {
+    const overlap = iou(predicted, bbox);
+    if (overlap >= this.options.iouThreshold) return overlap;
+
+    const [px, py] = bboxCenter(predicted);
+    const [dx, dy] = bboxCenter(bbox);
+    const diagonal = Math.hypot(predicted[2], predicted[3]);
+    if (diagonal === 0) return 0;
+
+    const distance = Math.hypot(px - dx, py - dy) / diagonal;
+    if (distance >= this.options.maxCentroidDistance) return 0;
+
+    // Always ranks below a genuine IoU match
+    return this.options.iouThreshold * (1 - distance / this.options.maxCentroidDistance);
+  }
+
+  private applyMatch(track: TrackedVehicle, detection: Detection, dt: number, timestamp: number): TrackedVehicle {
+    let velocity = track.velocity;
+
+    if (dt > 0) {
+      const [ox, oy] = bboxCenter(track.bbox);
+      const [nx, ny] = bboxCenter(detection.bbox);
+      const alpha = this.options.velocitySmoothing;
+      velocity = [
+        alpha * ((nx - ox) / dt) + (1 - alpha) * track.velocity[0],
+        alpha * ((ny - oy) / dt) + (1 - alpha) * track.velocity[1]
+      ];
+    }
+
+    return {
+      ...track,
+      ...detection,
+      velocity,
+      age: track.age + 1,
+      hits: track.hits + 1,
+      misses: 0,
+      lastSeen: timestamp
+    };
+  }
+}
+
+function predictBBox(track: TrackedVehicle, dt: number): BBox {
+  const [x, y, width, height] = track.bbox;
+  return [x + track.velocity[0] * dt, y + track.velocity[1] * dt, width, height];
+}
@@ -0,0 +1,48 @@
+export type BBox = [number, number, number, number];
+
+export interface Detection {
+  bbox: BBox;
+  class: string;
+  score: number;
+}
+
+export interface CarPosition {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// CSS pixels relative to the top-left of the viewport
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export type PaintFinish = 'metallic' | 'matte' | 'pearl';
+export type RimStyle = 'chrome' | 'black' | 'bronze';
+export type RimSize = 'small' | 'medium' | 'large';
+
+// How a car is dressed, on top of its paint color
+export interface CarConfig {
+  finish: PaintFinish;
+  rimStyle: RimStyle;
+  rimSize: RimSize;
+  // 0 is clear glass, 1 is blacked out
+  tint: number;
+  roofRack: boolean;
+  spoiler: boolean;
+}
+
+export interface PlacedCar {
+  id: number;
+  x: number;
+  y: number;
+  rotation: number;
+  scale: number;
+  color: number;
+  // Class of the vehicle it was placed from; missing (older scenes) means 'car'
+  vehicleType?: string;
+  // Missing means DEFAULT_CAR_CONFIG
+  config?: CarConfig;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { focalLength, type GroundPlane } from './ground-plane';
+import { VEHICLE_DIMENSIONS, estimateVehicle, formatEstimate, vehicleDimensions } from './vehicle-estimate';
+
+// A level camera 1.4 m up, so the horizon is the middle row
+const plane: GroundPlane = { pitch: 0, cameraHeight: 1.4, fov: 50, viewportWidth: 800, viewportHeight: 600 };
+const f = focalLength(plane);
+
+// The box a 1.5 m tall, 1.8 m wide car makes `distance` metres straight ahead
+function carBox(distance: number) {
+  const top = 300 - (f * (1.5 - 1.4)) / distance;
+  const bottom = 300 + (f * 1.4) / distance;
+  const width = (f * 1.8) / distance;
+  return { x: 400 - width / 2, y: top, width, height: bottom - top };
+}
+
+describe('vehicleDimensions', () => {
+  it('falls back to a car for classes it does not know', () => {
+    expect(vehicleDimensions('bus')).toBe(VEHICLE_DIMENSIONS.bus);
+    expect(vehicleDimensions('bicycle')).toBe(VEHICLE_DIMENSIONS.car);
+  });
+});
+
+describe('estimateVehicle', () => {
+  it('ranges off where the box meets the ground', () => {
+    const estimate = estimateVehicle(carBox(10), 'car', plane)!;
+
+    expect(estimate.source).toBe('ground');
+    expect(estimate.distance).toBeCloseTo(Math.hypot(10, 1.4), 6);
+    // Half the car's width beyond its near side
+    expect(estimate.groundPoint.x).toBeCloseTo(0, 6);
+    expect(estimate.groundPoint.z).toBeCloseTo(10.9, 6);
+    // Measured at the slant distance, so a touch over the real size
+    expect(estimate.width).toBeCloseTo(1.8, 1);
+    expect(estimate.height).toBeCloseTo(1.5, 1);
+  });
+
+  it('sizes off the class height when the box does not reach below the horizon', () => {
+    const estimate = estimateVehicle({ x: 500, y: 200, width: 80, height: 60 }, 'car', plane)!;
+    const range = (f * 1.5) / 60;
+
+    expect(estimate.source).toBe('size');
+    expect(estimate.groundPoint.z).toBeGreaterThan(range);
+    // Off to the right of the center line
+    expect(estimate.groundPoint.x).toBeGreaterThan(0);
+    expect(estimate.height).toBeCloseTo((60 * estimate.distance) / f, 10);
+  });
+
+  it('gives nothing for an empty box', () => {
+    expect(estimateVehicle({ x: 0, y: 0, width: 10, height: 0 }, 'car', plane)).toBeNull();
+  });
+});
+
+describe('formatEstimate', () => {
+  it('shows one decimal up close and whole metres further off', () => {
+    const estimate = { groundPoint: { x: 0, z: 0 }, width: 1.84, height: 1.46, source: 'ground' as const };
+
+    expect(formatEstimate({ ...estimate, distance: 7.26 })).toBe('~7.3 m • 1.8×1.5 m');
+    expect(formatEstimate({ ...estimate, distance: 23.6 })).toBe('~24 m • 1.8×1.5 m');
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  focalLength,
+  groundDistance,
+  horizonY,
+  screenToGround,
+  type GroundPlane,
+  type GroundPoint
+} from './ground-plane';
+import type { CarPosition } from './types';
+
+export interface VehicleDimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+// Typical sizes in metres for each detector class
+export const VEHICLE_DIMENSIONS: Record<string, VehicleDimensions> = {
+  car: { length: 4.5, width: 1.8, height: 1.5 },
+  truck: { length: 5.8, width: 2.0, height: 1.9 },
+  bus: { length: 12, width: 2.55, height: 3.2 },
+  motorcycle: { length: 2.1, width: 0.8, height: 1.2 }
+};
+
+export function vehicleDimensions(vehicleClass: string): VehicleDimensions {
+  return VEHICLE_DIMENSIONS[vehicleClass] ?? VEHICLE_DIMENSIONS.car;
+}
+
+export interface VehicleEstimate {
+  // Metres from the camera to where the vehicle meets the ground
+  distance: number;
+  // Ground point under the middle of the vehicle
+  groundPoint: GroundPoint;
+  // Visible extent of the box at that distance, in metres
+  width: number;
+  height: number;
+  // Which cue the distance came from
+  source: 'ground' | 'size';
+}
+
+// Contacts closer than this to the horizon (px) are too flat to range off
+const MIN_HORIZON_GAP = 8;
+
+// Estimates range and size of a detected vehicle from its screen box.
+// The bottom edge touching the ground gives the distance through the ground
+// plane; when that edge sits at or above the horizon the apparent height
+// against the class's typical height is used instead.
+export function estimateVehicle(box: CarPosition, vehicleClass: string, plane: GroundPlane): VehicleEstimate | null {
+  if (box.height <= 0 || plane.viewportHeight <= 0) return null;
+
+  const dimensions = vehicleDimensions(vehicleClass);
+  const f = focalLength(plane);
+  const centerX = box.x + box.width / 2;
+  const bottom = box.y + box.height;
+
+  let contact = bottom - horizonY(plane) >= MIN_HORIZON_GAP
+    ? screenToGround(plane, { x: centerX, y: bottom })
+    : null;
+  const source = contact ? 'ground' : 'size';
+
+  if (!contact) {
+    const range = (f * dimensions.height) / box.height;
+    contact = { x: ((centerX - plane.viewportWidth / 2) / f) * range, z: range };
+  }
+
+  const distance = groundDistance(plane, contact);
+
+  // The box bottom is the near side; the middle is about half a width further on
+  const depth = Math.hypot(contact.x, contact.z) || 1;
+  const offset = dimensions.width / 2;
+  const groundPoint = {
+    x: contact.x + (contact.x / depth) * offset,
+    z: contact.z + (contact.z / depth) * offset
+  };
+
+  return {
+    distance,
+    groundPoint,
+    width: (box.width * distance) / f,
+    height: (box.height * distance) / f,
+    source
+  };
+}
+
+export function formatEstimate(estimate: VehicleEstimate): string {
+  const distance = estimate.distance < 10 ? estimate.distance.toFixed(1) : Math.round(estimate.distance);
+  return `~${distance} m • ${estimate.width.toFixed(1)}×${estimate.height.toFixed(1)} m`;
+}
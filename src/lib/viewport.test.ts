@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  backingStoreSize,
+  bboxToViewport,
+  createViewMapping,
+  sourceToViewport,
+  tapPoint,
+  vectorToViewport,
+  viewportToSource
+} from './viewport';
+import type { ScreenPoint } from './types';
+
+// A landscape 640×480 frame on a portrait 390×844 phone screen
+const source = { width: 640, height: 480 };
+const viewport = { width: 390, height: 844 };
+
+describe('createViewMapping', () => {
+  it('covers by scaling to the larger side and cropping the other', () => {
+    const mapping = createViewMapping(source, viewport, { fit: 'cover' });
+
+    expect(mapping.scale).toBeCloseTo(844 / 480);
+    expect(mapping.offsetY).toBeCloseTo(0);
+    // 640 × 844/480 = 1125.33 wide, centered on 390
+    expect(mapping.offsetX).toBeCloseTo((390 - 640 * (844 / 480)) / 2);
+  });
+
+  it('contains by scaling to the smaller side and letterboxing the other', () => {
+    const mapping = createViewMapping(source, viewport, { fit: 'contain' });
+
+    expect(mapping.scale).toBeCloseTo(390 / 640);
+    expect(mapping.offsetX).toBeCloseTo(0);
+    // 480 × 390/640 = 292.5 tall, centered on 844
+    expect(mapping.offsetY).toBeCloseTo((844 - 292.5) / 2);
+  });
+
+  it('keeps a unit scale for a frame with no size yet', () => {
+    expect(createViewMapping({ width: 0, height: 0 }, viewport).scale).toBe(1);
+  });
+});
+
+describe('sourceToViewport', () => {
+  it('puts the frame center at the viewport center in both fits', () => {
+    (['cover', 'contain'] as const).forEach(fit => {
+      const point = sourceToViewport(createViewMapping(source, viewport, { fit }), { x: 320, y: 240 });
+      expect(point.x).toBeCloseTo(195);
+      expect(point.y).toBeCloseTo(422);
+    });
+  });
+
+  it('maps the frame corners to the letterbox edges when contained', () => {
+    const mapping = createViewMapping(source, viewport, { fit: 'contain' });
+
+    expect(sourceToViewport(mapping, { x: 0, y: 0 })).toEqual({ x: 0, y: 275.75 });
+    expect(sourceToViewport(mapping, { x: 640, y: 480 })).toEqual({ x: 390, y: 568.25 });
+  });
+
+  it('flips x when mirrored', () => {
+    const mapping = createViewMapping(source, viewport, { fit: 'contain', mirrored: true });
+
+    expect(sourceToViewport(mapping, { x: 0, y: 0 })).toEqual({ x: 390, y: 275.75 });
+    expect(sourceToViewport(mapping, { x: 640, y: 0 }).x).toBeCloseTo(0);
+  });
+
+  it('is undone by viewportToSource', () => {
+    [false, true].forEach(mirrored => {
+      const mapping = createViewMapping(source, viewport, { mirrored });
+      const back = viewportToSource(mapping, sourceToViewport(mapping, { x: 100, y: 50 }));
+      expect(back.x).toBeCloseTo(100);
+      expect(back.y).toBeCloseTo(50);
+    });
+  });
+});
+
+describe('bboxToViewport', () => {
+  it('scales the box and keeps its left edge on the left when mirrored', () => {
+    const mapping = createViewMapping(source, viewport, { fit: 'contain', mirrored: true });
+    const rect = bboxToViewport(mapping, [0, 0, 320, 240]);
+
+    // The frame's left half is shown on the right
+    expect(rect.x).toBeCloseTo(195);
+    expect(rect.y).toBeCloseTo(275.75);
+    expect(rect.width).toBeCloseTo(195);
+    expect(rect.height).toBeCloseTo(146.25);
+  });
+});
+
+describe('vectorToViewport', () => {
+  it('scales and flips x when mirrored', () => {
+    const mapping = createViewMapping(source, viewport, { fit: 'contain', mirrored: true });
+    const [dx, dy] = vectorToViewport(mapping, [64, 64]);
+
+    expect(dx).toBeCloseTo(-39);
+    expect(dy).toBeCloseTo(39);
+  });
+});
+
+describe('backingStoreSize', () => {
+  it('multiplies by the device pixel ratio', () => {
+    expect(backingStoreSize(390, 844, 2)).toEqual({ width: 780, height: 1688, ratio: 2 });
+  });
+
+  it('rounds fractional ratios to whole pixels', () => {
+    expect(backingStoreSize(391, 845, 1.5)).toEqual({ width: 587, height: 1268, ratio: 1.5 });
+  });
+
+  it('caps the ratio and never goes below 1', () => {
+    expect(backingStoreSize(390, 844, 3).ratio).toBe(2);
+    expect(backingStoreSize(390, 844, 3, 3).ratio).toBe(3);
+    expect(backingStoreSize(390, 844, 0.5).ratio).toBe(1);
+    expect(backingStoreSize(390, 844, 0).ratio).toBe(1);
+  });
+});
+
+describe('tapPoint', () => {
+  const element = { getBoundingClientRect: () => ({ left: 10, top: 20 }) } as Element;
+
+  it('is relative to the element handling the tap', () => {
+    expect(tapPoint({ clientX: 110, clientY: 220, currentTarget: element })).toEqual({ x: 100, y: 200 });
+  });
+
+  it('places one car for a touch tap, which fires touchend and then a click', () => {
+    const placed: ScreenPoint[] = [];
+    // Bound the way the camera view binds it
+    const root: Record<string, ((e: Parameters<typeof tapPoint>[0]) => void) | undefined> = {
+      onClick: e => placed.push(tapPoint(e))
+    };
+
+    ['onTouchEnd', 'onClick'].forEach(name => root[name]?.({ clientX: 110, clientY: 220, currentTarget: element }));
+
+    expect(placed).toEqual([{ x: 100, y: 200 }]);
+  });
+});
@@ -0,0 +1,92 @@
+import type { BBox, CarPosition, ScreenPoint } from './types';
+
+// How the video is fitted into the viewport, matching CSS object-fit
+export type FitMode = 'cover' | 'contain';
+
+// Maps between source pixels (the video frame the detector sees) and
+// viewport CSS pixels (where boxes, 3D cars and taps live). Rebuild it
+// whenever the video size or the viewport changes, e.g. on rotation.
+export interface ViewMapping {
+  sourceWidth: number;
+  sourceHeight: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  // Viewport pixels per source pixel
+  scale: number;
+  // Where the source's top-left lands before mirroring; negative when cover crops
+  offsetX: number;
+  offsetY: number;
+  // The front camera is shown mirrored, like a mirror
+  mirrored: boolean;
+}
+
+export function createViewMapping(
+  source: { width: number; height: number },
+  viewport: { width: number; height: number },
+  { fit = 'cover', mirrored = false }: { fit?: FitMode; mirrored?: boolean } = {}
+): ViewMapping {
+  const scaleX = source.width > 0 ? viewport.width / source.width : 1;
+  const scaleY = source.height > 0 ? viewport.height / source.height : 1;
+  const scale = fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+
+  return {
+    sourceWidth: source.width,
+    sourceHeight: source.height,
+    viewportWidth: viewport.width,
+    viewportHeight: viewport.height,
+    scale,
+    offsetX: (viewport.width - source.width * scale) / 2,
+    offsetY: (viewport.height - source.height * scale) / 2,
+    mirrored
+  };
+}
+
+export function sourceToViewport(mapping: ViewMapping, point: ScreenPoint): ScreenPoint {
+  const x = mapping.offsetX + point.x * mapping.scale;
+  return {
+    x: mapping.mirrored ? mapping.viewportWidth - x : x,
+    y: mapping.offsetY + point.y * mapping.scale
+  };
+}
+
+export function viewportToSource(mapping: ViewMapping, point: ScreenPoint): ScreenPoint {
+  const x = mapping.mirrored ? mapping.viewportWidth - point.x : point.x;
+  return {
+    x: (x - mapping.offsetX) / mapping.scale,
+    y: (point.y - mapping.offsetY) / mapping.scale
+  };
+}
+
+// Mirroring swaps which edge is the box's left one
+export function bboxToViewport(mapping: ViewMapping, [x, y, width, height]: BBox): CarPosition {
+  const corner = sourceToViewport(mapping, { x: mapping.mirrored ? x + width : x, y });
+  return { x: corner.x, y: corner.y, width: width * mapping.scale, height: height * mapping.scale };
+}
+
+// A velocity or offset, which only scales and flips
+export function vectorToViewport(mapping: ViewMapping, [dx, dy]: [number, number]): [number, number] {
+  return [dx * mapping.scale * (mapping.mirrored ? -1 : 1), dy * mapping.scale];
+}
+
+// Backing store size for a canvas drawn in CSS pixels on a high-density screen
+export function backingStoreSize(
+  width: number,
+  height: number,
+  devicePixelRatio: number,
+  maxRatio = 2
+): { width: number; height: number; ratio: number } {
+  const ratio = Math.min(Math.max(devicePixelRatio || 1, 1), maxRatio);
+  return { width: Math.round(width * ratio), height: Math.round(height * ratio), ratio };
+}
+
+// Pointer position relative to an element's top-left corner
+export function clientToElement(clientX: number, clientY: number, rect: { left: number; top: number }): ScreenPoint {
+  return { x: clientX - rect.left, y: clientY - rect.top };
+}
+
+// Where a tap landed relative to the element handling it. Read taps from
+// click alone: a touch tap fires touchend and then a synthesized click, so
+// handling both would act on it twice.
+export function tapPoint(e: { clientX: number; clientY: number; currentTarget: Element }): ScreenPoint {
+  return clientToElement(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect());
+}
@@ -0,0 +1,254 @@
+import * as THREE from 'three';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { XRPlacementController, supportsImmersiveAR, type XRProvider } from './placement';
+
+// No WebGL under Node: the renderer is a stand-in that hands back the
+// animation loop so each test can drive XR frames itself
+const renderers = vi.hoisted(() => [] as FakeRenderer[]);
+
+interface FakeRenderer {
+  loop: ((time: number, frame?: XRFrame) => void) | null;
+  scene: THREE.Scene | null;
+  disposed: boolean;
+}
+
+vi.mock('three', async importOriginal => {
+  const three = await importOriginal<typeof import('three')>();
+  class WebGLRenderer implements FakeRenderer {
+    loop: FakeRenderer['loop'] = null;
+    scene: THREE.Scene | null = null;
+    disposed = false;
+    xr = {
+      enabled: false,
+      setReferenceSpaceType: () => {},
+      setSession: async (session: { refuseRenderer?: boolean }) => {
+        if (session.refuseRenderer) throw new Error('XR layer could not be created');
+      },
+      getReferenceSpace: () => ({}) as XRReferenceSpace
+    };
+    constructor() {
+      renderers.push(this);
+    }
+    setPixelRatio() {}
+    setAnimationLoop(loop: FakeRenderer['loop']) {
+      this.loop = loop;
+    }
+    render(scene: THREE.Scene) {
+      this.scene = scene;
+    }
+    dispose() {
+      this.disposed = true;
+    }
+  }
+  return { ...three, WebGLRenderer };
+});
+
+// A pose whose matrix is a translation, as a hit test or anchor reports it
+function pose(x: number, y: number, z: number) {
+  return { transform: { matrix: new Float32Array(new THREE.Matrix4().makeTranslation(x, y, z).elements) } } as unknown as XRPose;
+}
+
+function fakeAnchor() {
+  return { anchorSpace: {} as XRSpace, delete: vi.fn() } as unknown as XRAnchor & { delete: ReturnType<typeof vi.fn> };
+}
+
+function hitAt(x: number, y: number, z: number, anchor?: XRAnchor) {
+  return {
+    getPose: () => pose(x, y, z),
+    createAnchor: anchor ? () => Promise.resolve(anchor) : undefined
+  } as unknown as XRHitTestResult;
+}
+
+function frame({ hits = [], anchors = new Map<XRAnchor, XRPose>() }: { hits?: XRHitTestResult[]; anchors?: Map<XRAnchor, XRPose> } = {}) {
+  return {
+    getHitTestResults: () => hits,
+    trackedAnchors: new Set(anchors.keys()),
+    getPose: (space: XRSpace) => Array.from(anchors).find(([anchor]) => anchor.anchorSpace === space)?.[1]
+  } as unknown as XRFrame;
+}
+
+class FakeSession extends EventTarget {
+  hitTestSource = { cancel: vi.fn() };
+  // Makes the renderer's setSession fail
+  refuseRenderer = false;
+  requestHitTestSource?: () => Promise<{ cancel: () => void }> = async () => this.hitTestSource;
+  requestReferenceSpace = async () => ({}) as XRReferenceSpace;
+  end = vi.fn(async () => {
+    this.dispatchEvent(new Event('end'));
+  });
+}
+
+function provider(session: FakeSession): XRProvider {
+  return {
+    isSessionSupported: async () => true,
+    requestSession: async () => session as unknown as XRSession
+  };
+}
+
+async function started(callbacks = {}) {
+  const session = new FakeSession();
+  const controller = new XRPlacementController(provider(session), callbacks);
+  await controller.start({} as HTMLElement, { vehicleType: 'car', nextColor: () => 0xff0000, modelScale: 1 });
+  const renderer = renderers[renderers.length - 1];
+  const render = (xrFrame: XRFrame) => renderer.loop!(0, xrFrame);
+  // Placed cars are the groups in the scene; the reticle is a bare mesh
+  const cars = () => renderer.scene!.children.filter(child => child instanceof THREE.Group);
+  const position = (object: THREE.Object3D) => new THREE.Vector3().setFromMatrixPosition(object.matrix);
+  return { session, controller, renderer, render, cars, position };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', { devicePixelRatio: 1 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  renderers.length = 0;
+});
+
+describe('supportsImmersiveAR', () => {
+  it('is false without WebXR or when the check throws', async () => {
+    expect(await supportsImmersiveAR(null)).toBe(false);
+    expect(await supportsImmersiveAR({
+      isSessionSupported: () => Promise.reject(new Error('blocked')),
+      requestSession: () => Promise.reject(new Error('blocked'))
+    })).toBe(false);
+  });
+
+  it('asks for immersive-ar', async () => {
+    const isSessionSupported = vi.fn(async (mode: XRSessionMode) => mode === 'immersive-ar');
+    expect(await supportsImmersiveAR({ isSessionSupported, requestSession: vi.fn() })).toBe(true);
+  });
+});
+
+describe('XRPlacementController', () => {
+  it('places a car where the hit test found a surface', async () => {
+    const onSurface = vi.fn();
+    const onPlaced = vi.fn();
+    const { controller, render, cars, position } = await started({ onSurface, onPlaced });
+
+    // Nothing under the reticle yet
+    render(frame());
+    expect(controller.place()).toBe(false);
+
+    render(frame({ hits: [hitAt(1, 0, -2)] }));
+    expect(onSurface).toHaveBeenLastCalledWith(true);
+    expect(controller.place()).toBe(true);
+    expect(onPlaced).toHaveBeenLastCalledWith(1);
+
+    render(frame({ hits: [hitAt(1, 0, -2)] }));
+    expect(cars()).toHaveLength(1);
+    expect(position(cars()[0]).toArray()).toEqual([1, 0, -2]);
+  });
+
+  it('places on a screen tap', async () => {
+    const { session, controller, render } = await started();
+
+    render(frame({ hits: [hitAt(0, 0, -1)] }));
+    session.dispatchEvent(new Event('select'));
+    expect(controller.placedCount).toBe(1);
+  });
+
+  it('stops placing once the surface is lost', async () => {
+    const onSurface = vi.fn();
+    const { controller, render } = await started({ onSurface });
+
+    render(frame({ hits: [hitAt(0, 0, -1)] }));
+    render(frame());
+    expect(onSurface).toHaveBeenLastCalledWith(false);
+    expect(controller.place()).toBe(false);
+  });
+
+  it('moves an anchored car with its anchor and holds it where it was when tracking is lost', async () => {
+    const anchor = fakeAnchor();
+    const { controller, render, cars, position } = await started();
+
+    render(frame({ hits: [hitAt(1, 0, -2, anchor)] }));
+    controller.place();
+    await Promise.resolve();
+
+    // The device refines where the surface is
+    render(frame({ anchors: new Map([[anchor, pose(1.1, 0, -2.1)]]) }));
+    expect(position(cars()[0]).x).toBeCloseTo(1.1);
+    expect(position(cars()[0]).z).toBeCloseTo(-2.1);
+
+    // The anchor is no longer tracked
+    render(frame());
+    expect(position(cars()[0]).x).toBeCloseTo(1.1);
+    expect(position(cars()[0]).z).toBeCloseTo(-2.1);
+    expect(anchor.delete).not.toHaveBeenCalled();
+  });
+
+  it('keeps a car fixed in local space when anchors are unsupported', async () => {
+    const { controller, render, cars, position } = await started();
+
+    render(frame({ hits: [hitAt(1, 0, -2)] }));
+    controller.place();
+    // The reticle moves on; the car stays
+    render(frame({ hits: [hitAt(3, 0, -4)] }));
+
+    expect(position(cars()[0]).toArray()).toEqual([1, 0, -2]);
+  });
+
+  it('deletes an anchor that arrives after its car was cleared', async () => {
+    const anchor = fakeAnchor();
+    const onPlaced = vi.fn();
+    const { controller, render, cars } = await started({ onPlaced });
+
+    render(frame({ hits: [hitAt(1, 0, -2, anchor)] }));
+    controller.place();
+    controller.clear();
+    await Promise.resolve();
+
+    expect(anchor.delete).toHaveBeenCalled();
+    expect(onPlaced).toHaveBeenLastCalledWith(0);
+    render(frame());
+    expect(cars()).toHaveLength(0);
+  });
+
+  it('ends the session, frees the renderer and fails to start without hit testing', async () => {
+    const session = new FakeSession();
+    session.requestHitTestSource = undefined;
+    const controller = new XRPlacementController(provider(session));
+
+    await expect(
+      controller.start({} as HTMLElement, { vehicleType: 'car', nextColor: () => 0 })
+    ).rejects.toThrow('Hit testing is not available');
+    expect(session.end).toHaveBeenCalled();
+    expect(renderers[0].disposed).toBe(true);
+  });
+
+  it('ends the session and frees the renderer when the renderer refuses the session', async () => {
+    const session = new FakeSession();
+    session.refuseRenderer = true;
+    const onEnd = vi.fn();
+    const controller = new XRPlacementController(provider(session), { onEnd });
+
+    await expect(
+      controller.start({} as HTMLElement, { vehicleType: 'car', nextColor: () => 0 })
+    ).rejects.toThrow('XR layer could not be created');
+    expect(session.end).toHaveBeenCalled();
+    expect(renderers[0].disposed).toBe(true);
+    expect(renderers[0].loop).toBeNull();
+    // The page hears about the failure from start(), not as a session end
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it('releases everything when the session ends', async () => {
+    const anchor = fakeAnchor();
+    const onEnd = vi.fn();
+    const { session, controller, renderer, render } = await started({ onEnd });
+
+    render(frame({ hits: [hitAt(1, 0, -2, anchor)] }));
+    controller.place();
+    await Promise.resolve();
+    await controller.end();
+
+    expect(session.hitTestSource.cancel).toHaveBeenCalled();
+    expect(anchor.delete).toHaveBeenCalled();
+    expect(renderer.loop).toBeNull();
+    expect(renderer.disposed).toBe(true);
+    expect(controller.placedCount).toBe(0);
+    expect(onEnd).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { createVehicleModel, MODEL_UNITS_PER_METRE } from '../three/car-model';
+import { createCarShadow, releaseCarResources } from '../three/parts';
+
+// The slice of navigator.xr this module needs. Tests hand in a fake that
+// returns a mocked XRSession instead of talking to the device.
+export interface XRProvider {
+  isSessionSupported(mode: XRSessionMode): Promise<boolean>;
+  requestSession(mode: XRSessionMode, init?: XRSessionInit): Promise<XRSession>;
+}
+
+export function browserXR(): XRProvider | null {
+  return typeof navigator !== 'undefined' && navigator.xr ? navigator.xr : null;
+}
+
+export async function supportsImmersiveAR(provider: XRProvider | null = browserXR()): Promise<boolean> {
+  if (!provider) return false;
+  try {
+    return await provider.isSessionSupported('immersive-ar');
+  } catch {
+    return false;
+  }
+}
+
+export interface XRPlacementCallbacks {
+  // Whether the hit test currently sees a surface under the reticle
+  onSurface?: (found: boolean) => void;
+  onPlaced?: (count: number) => void;
+  onEnd?: () => void;
+}
+
+export interface XRPlacementOptions {
+  vehicleType: string;
+  nextColor: () => number;
+  // Defaults to life size
+  modelScale?: number;
+}
+
+interface PlacedXRCar {
+  object: THREE.Group;
+  anchor: XRAnchor | null;
+}
+
+// Runs an immersive-ar session where each screen tap places a car on the
+// surface found by hit-testing. Cars are anchored to the real world when the
+// device supports anchors, and otherwise fixed in the session's local space,
+// which is world-locked too.
+export class XRPlacementController {
+  private renderer: THREE.WebGLRenderer | null = null;
+  private session: XRSession | null = null;
+  private hitTestSource: XRHitTestSource | null = null;
+  private scene = new THREE.Scene();
+  // Only a placeholder: in XR the renderer substitutes the device's own cameras
+  private camera = new THREE.PerspectiveCamera();
+  private reticle: THREE.Mesh;
+  private cars: PlacedXRCar[] = [];
+  private lastHit: XRHitTestResult | null = null;
+  private surfaceFound = false;
+  private options: XRPlacementOptions | null = null;
+
+  constructor(private provider: XRProvider, private callbacks: XRPlacementCallbacks = {}) {
+    this.reticle = new THREE.Mesh(
+      new THREE.RingGeometry(0.12, 0.16, 32).rotateX(-Math.PI / 2),
+      new THREE.MeshBasicMaterial({ color: 0x00ff96 })
+    );
+    this.reticle.matrixAutoUpdate = false;
+    this.reticle.visible = false;
+    this.scene.add(this.reticle);
+
+    this.scene.add(new THREE.HemisphereLight(0xffffff, 0x444444, 1.5));
+    const sun = new THREE.DirectionalLight(0xffffff, 1.2);
+    sun.position.set(1, 4, 2);
+    this.scene.add(sun);
+  }
+
+  get placedCount() {
+    return this.cars.length;
+  }
+
+  // Must be called from a user gesture; overlay becomes the DOM overlay root
+  async start(overlay: HTMLElement, options: XRPlacementOptions) {
+    this.options = options;
+
+    const session = await this.provider.requestSession('immersive-ar', {
+      requiredFeatures: ['hit-test'],
+      optionalFeatures: ['dom-overlay', 'anchors'],
+      domOverlay: { root: overlay }
+    });
+
+    let renderer: THREE.WebGLRenderer | null = null;
+    try {
+      renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+      renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+      renderer.xr.enabled = true;
+      renderer.xr.setReferenceSpaceType('local');
+
+      await renderer.xr.setSession(session);
+      const viewerSpace = await session.requestReferenceSpace('viewer');
+      this.hitTestSource = (await session.requestHitTestSource?.({ space: viewerSpace })) ?? null;
+      if (!this.hitTestSource) throw new Error('Hit testing is not available');
+    } catch (err) {
+      // Nothing is listening for 'end' yet, so tidy up here
+      renderer?.dispose();
+      await session.end().catch(() => {});
+      throw err;
+    }
+
+    this.session = session;
+    this.renderer = renderer;
+
+    session.addEventListener('select', this.handleSelect);
+    session.addEventListener('end', this.handleEnd);
+    renderer.setAnimationLoop(this.renderFrame);
+  }
+
+  // Places a car where the reticle is; returns false if no surface is in view
+  place(): boolean {
+    if (!this.lastHit || !this.reticle.visible || !this.options) return false;
+
+    const object = new THREE.Group();
+    object.add(createVehicleModel(this.options.vehicleType, this.options.nextColor()));
+    object.add(createCarShadow());
+    object.scale.setScalar(this.options.modelScale ?? 1 / MODEL_UNITS_PER_METRE);
+    object.matrixAutoUpdate = false;
+    object.matrix.copy(this.reticle.matrix).multiply(
+      new THREE.Matrix4().makeScale(object.scale.x, object.scale.y, object.scale.z)
+    );
+    this.scene.add(object);
+
+    const car: PlacedXRCar = { object, anchor: null };
+    this.cars.push(car);
+    this.lastHit.createAnchor?.()
+      .then(anchor => {
+        if (this.cars.includes(car)) car.anchor = anchor;
+        else anchor.delete();
+      })
+      .catch(() => {});
+
+    this.callbacks.onPlaced?.(this.cars.length);
+    return true;
+  }
+
+  clear() {
+    this.cars.forEach(car => this.removeCar(car));
+    this.cars = [];
+    this.callbacks.onPlaced?.(0);
+  }
+
+  async end() {
+    await this.session?.end();
+  }
+
+  private removeCar(car: PlacedXRCar) {
+    this.scene.remove(car.object);
+    releaseCarResources(car.object);
+    car.anchor?.delete();
+  }
+
+  private handleSelect = () => {
+    this.place();
+  };
+
+  private handleEnd = () => {
+    this.renderer?.setAnimationLoop(null);
+    this.hitTestSource?.cancel();
+    this.hitTestSource = null;
+    this.cars.forEach(car => this.removeCar(car));
+    this.cars = [];
+    this.reticle.geometry.dispose();
+    (this.reticle.material as THREE.Material).dispose();
+    this.renderer?.dispose();
+    this.renderer = null;
+    this.session = null;
+    this.callbacks.onEnd?.();
+  };
+
+  private renderFrame = (_time: number, frame?: XRFrame) => {
+    const renderer = this.renderer;
+    if (!renderer) return;
+
+    const referenceSpace = renderer.xr.getReferenceSpace();
+    if (frame && referenceSpace) {
+      const hit = this.hitTestSource ? frame.getHitTestResults(this.hitTestSource)[0] : undefined;
+      const pose = hit?.getPose(referenceSpace);
+
+      this.lastHit = hit ?? null;
+      this.reticle.visible = !!pose;
+      if (pose) this.reticle.matrix.fromArray(pose.transform.matrix);
+
+      if (!!pose !== this.surfaceFound) {
+        this.surfaceFound = !!pose;
+        this.callbacks.onSurface?.(this.surfaceFound);
+      }
+
+      // Anchored cars follow the device's refined idea of where the surface is
+      this.cars.forEach(({ object, anchor }) => {
+        if (!anchor || !frame.trackedAnchors?.has(anchor)) return;
+        const anchorPose = frame.getPose(anchor.anchorSpace, referenceSpace);
+        if (!anchorPose) return;
+        object.matrix.fromArray(anchorPose.transform.matrix).multiply(
+          new THREE.Matrix4().makeScale(object.scale.x, object.scale.y, object.scale.z)
+        );
+      });
+    }
+
+    renderer.render(this.scene, this.camera);
+  };
+}
@@ -0,0 +1,19 @@
+import type { DetailedHTMLProps, HTMLAttributes } from 'react';
+
+// <model-viewer> is registered by @google/model-viewer at runtime
+declare module 'react' {
+  namespace JSX {
+    interface IntrinsicElements {
+      'model-viewer': DetailedHTMLProps<HTMLAttributes<HTMLElement>, HTMLElement> & {
+        src?: string;
+        alt?: string;
+        ar?: boolean;
+        'camera-controls'?: boolean;
+        'auto-rotate'?: boolean;
+        'shadow-intensity'?: string;
+        'environment-image'?: string;
+        exposure?: string;
+      };
+    }
+  }
+}